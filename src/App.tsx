@@ -5,9 +5,16 @@ import ProgressChart from "./Progress/ProgressChart";
 import ProfileTab from "@/components/ProfileTab";
 import PlanTab from "@/components/PlanTab";
 import CircuitRunner, { type CircuitSpec } from "@/components/CircuitRunner";
+import IntervalRunner from "@/components/IntervalRunner";
 import WeeklyWorkoutLog from "@/Progress/WeeklyWorkoutLog";
-import WorkoutPreview from "@/components/WorkoutPreview";
+import WorkoutPreview, { type SuggestedTarget } from "@/components/WorkoutPreview";
+import HoldTimer from "@/components/TrackSession/HoldTimer";
 import RestTimer from "@/components/TrackSession/RestTimer";
+import RestoreDialog from "@/components/RestoreDialog";
+import TrackerImportDialog from "@/components/TrackerImportDialog";
+import SessionDetails from "@/components/TrackSession/SessionDetails";
+import ResumeSessionDialog from "@/components/TrackSession/ResumeSessionDialog";
+import MuteToggle from "@/components/TrackSession/MuteToggle";
 
 // Lazy load large tab components
 const ProgressTab = lazy(() => 
@@ -23,24 +30,46 @@ const LibraryTab = lazy(() =>
   })
 );
 
-import { markPRsBeforeInsert } from "@/lib/pr";
+import { replayPRs, type E1RMFormula, type EntryKind } from "@/lib/pr";
+import { bodyweightFrom } from "@/lib/metrics";
+import { DEFAULT_STALL_SESSIONS, deloadKey, findStalls, isDeloadScheduled, planDeload, type DeloadChoice, type DeloadMode, type Stall } from "@/lib/stalls";
+import { buildWarmupSets, warmupTemplateFor, type WarmupTemplates } from "@/lib/warmups";
+import { describePlates, loadingFor, roundToLoadable, type EquipmentLoading, type LoadingSetups } from "@/lib/loading";
+import { DEFAULT_TARGET_RPE, EFFORT_OPTIONS, exerciseHistory, nextTarget, type EffortScale, type Prescription, type ProgressionMode, type ProgressionSettings } from "@/lib/progression";
+import { stampUpdated } from "@/lib/logMerge";
+import { GROUP_KIND_LABELS, groupKind, groupLabels, runOf } from "@/lib/supersets";
+import { SIDE_LABELS, SIDE_SHORT_LABELS, SIDES } from "@/lib/asymmetry";
+import {
+  createSession,
+  finishSession,
+  sessionSteps,
+  splitSides,
+  type CircuitProgress,
+  type IntervalProgress,
+  type Session,
+  type SessionDraft,
+  type SessionPlanExercise,
+} from "@/lib/sessions";
+import { clearSessionDraft, loadSessionDraft, saveSessionDraft } from "@/lib/storage";
 // If you keep a manual-log picker you can re-enable this import.
 import { EXERCISES } from "@/lib/exercises";
 import {
   Exercise,
   Workout,
   WorkoutPlan,
-  loadExercises,
-  loadWorkouts,
-  loadPlans,
-  saveExercises,
-  saveWorkouts,
-  savePlans,
   populatePlanDays,
   populateWorkoutExercises,
 } from "@/lib/workoutLibrary";
 import { initializeLibrary } from "@/lib/defaultWorkouts";
-import { planToLegacyFormat, workoutToCircuitSpec } from "@/lib/workoutConverters";
+import { getRepository, type CollectionName, type CollectionRecords, type Repository } from "@/lib/db";
+import { planToLegacyFormat, workoutToCircuitSpec, workoutToIntervalSpec } from "@/lib/workoutConverters";
+import { isIntervalMode, type IntervalSpec } from "@/lib/intervals";
+import { getCueEngine, type CueSettings } from "@/lib/cues";
+import { useWakeLock } from "@/lib/wakeLock";
+import { assignSetIndexes, sortLog } from "@/lib/logOrder";
+import { useOnline } from "@/lib/pwa";
+import { BackupError, createBackup, parseBackup, type ParsedBackup, type RestorePlan } from "@/lib/backup";
+import { downloadFile } from "@/lib/utils";
 
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
@@ -48,12 +77,12 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { BarChart3 } from "lucide-react";
+import { BarChart3, WifiOff } from "lucide-react";
 
 /* --------------------------------------------
    Types
 ---------------------------------------------*/
-type SessionMode = "sets" | "circuit";
+type SessionMode = "sets" | "circuit" | "intervals";
 
 interface UserProfile {
   name: string;
@@ -68,26 +97,48 @@ interface UserProfile {
   daysPerWeek?: number | "";
   preferredDays?: string[]; // Mon..Sun
   programStartDate?: string; // YYYY-MM-DD
+  e1rmFormula?: E1RMFormula;
+  progressionMode?: ProgressionMode;
+  targetRpe?: number;
+  effortScale?: EffortScale;
+  deloadMode?: DeloadMode;
+  stallSessions?: number;
+  deloadChoices?: Record<string, DeloadChoice>;
+  warmupTemplates?: WarmupTemplates;
+  loadingSetups?: Partial<Record<"kg" | "lb", LoadingSetups>>;
+  imbalanceThreshold?: number;
+  cues?: CueSettings;
+  /** Keep the screen on during a session; on unless turned off */
+  keepScreenAwake?: boolean;
+  /** Notify when rest ends while the app is in the background */
+  restNotifications?: boolean;
 }
 
 interface WorkoutEntry {
   id: string;
   date: string; // YYYY-MM-DD
   name: string; // exercise name
+  kind?: EntryKind; // missing on rows saved before kinds existed: "reps"
   sets: number; // per-set logs will be 1
-  reps: number; // per-set reps OR seconds for timed entries
+  reps: number; // per-set reps; 0 for duration and distance rows
+  durationSec?: number; // seconds per set
+  distanceM?: number; // meters per set
   weightKg?: number; // stored in kg
+  rpe?: number; // effort of the set, 1-10
+  rir?: number; // or reps left in reserve
+  warmup?: boolean; // warm-up set: no PRs, volume or progression
+  side?: "left" | "right"; // one side of a unilateral exercise
   notes?: string;
+  sessionId?: string; // the workout session the row was saved from
+  setIndex?: number; // order logged within its date, from 1
+  updated?: string; // ISO timestamp of the last edit
 }
 
+type PersistedCollections = { [K in CollectionName]: CollectionRecords[K][] };
+
 /* --------------------------------------------
    Constants & helpers
 ---------------------------------------------*/
-const STORAGE_KEYS = {
-  profile: "wt_profile_v5",
-  workouts: "wt_workouts_v5",
-} as const;
-
 function todayISO() {
   return new Date().toISOString().slice(0, 10);
 }
@@ -102,17 +153,6 @@ function toKg(value: number, unit: "kg" | "lb") {
 function fromKg(kg: number, unit: "kg" | "lb") {
   return unit === "lb" ? kg / KG_PER_LB : kg;
 }
-// ---- Progressive Overload helpers ----
-const PO_INCR = { kg: 2.5, lb: 5 }; // +2.5kg or +5lb
-
-function isTimedName(name: string) {
-  return /\(sec\)\s*$/.test(name);
-}
-function getTargetRepRangeForExercise(name: string): [number, number] | null {
-  const match = name.match(/(\d+)\s*-\s*(\d+)/);
-  if (match) return [Number(match[1]), Number(match[2])];
-  return null;
-}
 function extractRepRangeFromName(name: string): [number, number] {
   const match = name.match(/(\d+)\s*-\s*(\d+)/); // matches "10-12"
   if (match) return [Number(match[1]), Number(match[2])];
@@ -176,17 +216,9 @@ function aggregatePRsByWeek(workouts: WorkoutEntry[]): Record<string, WeeklyPR[]
   return result;
 }
 
-/** Return the most recent non-timed entry for the exact exercise name */
-function lastEntryFor(workouts: WorkoutEntry[], name: string): WorkoutEntry | undefined {
-  // your list is newest-first after saves, but be safe and sort by date desc then by array order
-  const filtered = workouts.filter(w => w.name === name && !isTimedName(w.name));
-  if (filtered.length === 0) return undefined;
-  // assume the first is newest because you prepend on save
-  return filtered[0];
-}
-
-/** Round to a sensible display for the UI */
-function roundDisplayUnit(n: number, unit: "kg" | "lb") {
+/** Round to a sensible display for the UI, or to a loadable weight when the equipment is known */
+function roundDisplayUnit(n: number, unit: "kg" | "lb", loading?: EquipmentLoading) {
+  if (loading) return roundToLoadable(n, loading);
   // kg: 0.5 step, lb: 1 step (tweak if you want)
   const step = unit === "kg" ? 0.5 : 1;
   return Math.round(n / step) * step;
@@ -260,7 +292,7 @@ function day3ToCircuit(): CircuitSpec {
     { label: "Box/Broad Jumps", seconds: 45 },
     { label: "Push-Ups", seconds: 45 },
     { label: "Single-Leg RDL (BW)", seconds: 45 },
-    { label: "Bird Dog Crunch", seconds: 45 },
+    { label: "Bird Dog Crunch", repRange: [10, 12] as [number, number] },
     { label: "Plank", seconds: 60 },
   ];
   return {
@@ -317,6 +349,30 @@ export default function DancerSplitTracker() {
 
   // Workouts (log)
   const [workouts, setWorkouts] = useState<WorkoutEntry[]>([]);
+  // Workout sessions the log rows are grouped into
+  const [sessions, setSessions] = useState<Session[]>([]);
+
+  // Unloaded sets count body weight per rep toward volume
+  const bodyweightKg = bodyweightFrom(profile.weightKg);
+
+  // Every log change goes through here so new rows are numbered in the order
+  // logged and PR flags are replayed over the whole history
+  function setLog(next: WorkoutEntry[] | ((prev: WorkoutEntry[]) => WorkoutEntry[])) {
+    setWorkouts((prev) => {
+      const log = sortLog(assignSetIndexes(typeof next === "function" ? next(prev) : next));
+      return replayPRs(log, { bodyweightKg }).log;
+    });
+  }
+
+  // A new body weight changes the volume of unloaded sets, so replay the flags
+  useEffect(() => {
+    setLog((prev) => prev);
+  }, [bodyweightKg]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  // Storage: the repository and the last rows written to each collection
+  const [storageReady, setStorageReady] = useState(false);
+  const repoRef = useRef<Repository | null>(null);
+  const persisted = useRef<PersistedCollections>({ exercises: [], workouts: [], plans: [], log: [], sessions: [] });
   // state
 
  
@@ -337,30 +393,25 @@ export default function DancerSplitTracker() {
   const [sessionDay, setSessionDay] = useState<number>(1);
   const [sessionDate, setSessionDate] = useState<string>(todayISO());
   const [sessionIdx, setSessionIdx] = useState(0);
+  // The session being recorded; its rows are linked to it when saved
+  const [activeSession, setActiveSession] = useState<Session | null>(null);
   const [currentSetIdx, setCurrentSetIdx] = useState(0);
   const [restStartSignal, setRestStartSignal] = useState(0);
   const [circuitSpec, setCircuitSpec] = useState<CircuitSpec | null>(null);
   const [circuitManual, setCircuitManual] = useState<
     { reps?: number | ""; weight?: number | "" }[]
   >([]);
-  const [sessionPlan, setSessionPlan] = useState<{
-    name: string;
-    sets: {
-      reps: number | "";
-      weight: number | "";
-      suggestedReps?: number;
-      suggestedWeight?: number;
-    }[];
-    timed?: boolean;
-    seconds?: number | "";
-    restSec?: number;
-    rounds?: number;
-    reps?: number | "";
-    weight?: number | "";
-  }[]>([]);
-
-  const [timerActive, setTimerActive] = useState(false);
-  const [timerRemaining, setTimerRemaining] = useState<number | null>(null);
+  const [sessionPlan, setSessionPlan] = useState<SessionPlanExercise[]>([]);
+  // A session left running when the app was closed, until resumed or discarded
+  const [resumeDraft, setResumeDraft] = useState<SessionDraft | null>(() => loadSessionDraft());
+  const [circuitResume, setCircuitResume] = useState<CircuitProgress | undefined>(undefined);
+  // Latest circuit clock, reported by the runner every tick
+  const circuitProgress = useRef<CircuitProgress | undefined>(undefined);
+  // EMOM, AMRAP, Tabata and ladder workouts, run like circuits
+  const [intervalSpec, setIntervalSpec] = useState<IntervalSpec | null>(null);
+  const [intervalResume, setIntervalResume] = useState<IntervalProgress | undefined>(undefined);
+  const intervalProgress = useRef<IntervalProgress | undefined>(undefined);
+
 
   const [roundInput, setRoundInput] = useState<string>(
     String(sessionPlan[sessionIdx]?.rounds ?? 1)
@@ -383,64 +434,84 @@ export default function DancerSplitTracker() {
   useEffect(() => { localStorage.setItem("activeTab", activeTopTab); }, [activeTopTab]);
   // Import/Export
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const [pendingRestore, setPendingRestore] = useState<ParsedBackup | null>(null);
+  const [trackerImportOpen, setTrackerImportOpen] = useState(false);
 
-  // Initialize Workout Library
+  // Initialize storage, then the Workout Library
   useEffect(() => {
-    try {
-      // Load profile first to get programName
-      let loadedProfile: UserProfile | null = null;
-      try {
-        const p = localStorage.getItem(STORAGE_KEYS.profile);
-        if (p) loadedProfile = JSON.parse(p);
-      } catch (err) {
-        console.error("[App] Error loading profile:", err);
-      }
+    let cancelled = false;
 
-      let loadedExercises = loadExercises();
-      let loadedWorkouts = loadWorkouts();
-      let loadedPlans = loadPlans();
+    (async () => {
+      try {
+        const repo = await getRepository();
+        repoRef.current = repo;
+
+        // Load profile first to get programName
+        const [loadedProfile, loadedLog] = await Promise.all([repo.loadProfile(), repo.getAll("log")]);
+        let [loadedExercises, loadedWorkouts, loadedPlans] = await Promise.all([
+          repo.getAll("exercises"),
+          repo.getAll("workouts"),
+          repo.getAll("plans"),
+        ]);
+        const loadedSessions = await repo.getAll("sessions");
+
+        persisted.current = {
+          exercises: loadedExercises,
+          workouts: loadedWorkouts,
+          plans: loadedPlans,
+          log: [],
+          sessions: loadedSessions,
+        };
 
-      // Initialize with defaults if empty
-      if (loadedExercises.length === 0) {
-        try {
+        // Initialize with defaults if empty (written by the first sync below)
+        if (loadedExercises.length === 0) {
           const { exercises: defaultExercises, workouts: defaultWorkouts, plan } = initializeLibrary();
           loadedExercises = defaultExercises;
           loadedWorkouts = defaultWorkouts;
           loadedPlans = [plan];
-          saveExercises(loadedExercises);
-          saveWorkouts(loadedWorkouts);
-          savePlans(loadedPlans);
-        } catch (err) {
-          console.error("Error initializing library:", err);
-          throw err; // Re-throw to be caught by outer catch
         }
-      }
-
-      setExercises(loadedExercises);
-      setWorkoutLibrary(loadedWorkouts);
-      setPlans(loadedPlans);
-
-      // Load or set active plan - use loaded profile's programName or default
-      const programName = loadedProfile?.programName || profile.programName || "Final 4-Day Dancer's Split";
-      const plan = loadedPlans.find(p => p.name === programName) || loadedPlans[0] || null;
-      setActivePlan(plan);
-
-      // Convert to legacy format for backwards compatibility
-      if (plan && loadedExercises.length > 0 && loadedWorkouts.length > 0) {
-        try {
-          const populatedPlan = populatePlanDays(plan, loadedWorkouts, loadedExercises);
-          const legacyPlan = planToLegacyFormat(populatedPlan, loadedWorkouts, loadedExercises);
-          setDancerSplit(legacyPlan);
-        } catch (err) {
-          console.error("Error converting plan to legacy format:", err);
+        if (cancelled) return;
+
+        // Rows come back in key order; rows stored before they were numbered
+        // are numbered now, and written back by the first sync
+        persisted.current.log = loadedLog;
+        const sortedLog = sortLog(assignSetIndexes(loadedLog));
+        if (loadedProfile) setProfile(loadedProfile);
+        setWorkouts(replayPRs(sortedLog, { bodyweightKg: bodyweightFrom(loadedProfile?.weightKg) }).log);
+        setSessions(loadedSessions);
+
+        setExercises(loadedExercises);
+        setWorkoutLibrary(loadedWorkouts);
+        setPlans(loadedPlans);
+
+        // Load or set active plan - use loaded profile's programName or default
+        const programName = loadedProfile?.programName || profile.programName || "Final 4-Day Dancer's Split";
+        const plan = loadedPlans.find(p => p.name === programName) || loadedPlans[0] || null;
+        setActivePlan(plan);
+
+        // Convert to legacy format for backwards compatibility
+        if (plan && loadedExercises.length > 0 && loadedWorkouts.length > 0) {
+          try {
+            const populatedPlan = populatePlanDays(plan, loadedWorkouts, loadedExercises);
+            const legacyPlan = planToLegacyFormat(populatedPlan, loadedWorkouts, loadedExercises);
+            setDancerSplit(legacyPlan);
+          } catch (err) {
+            console.error("Error converting plan to legacy format:", err);
+          }
         }
+        setStorageReady(true);
+      } catch (err) {
+        console.error("Error initializing workout library:", err);
+        alert(`Couldn't load your data: ${err instanceof Error ? err.message : String(err)}`);
+        // Still try to render something
+        setDancerSplit([]);
       }
-    } catch (err) {
-      console.error("Error initializing workout library:", err);
-      // Still try to render something
-      setDancerSplit([]);
-    }
-  }, []); // Only run once on mount
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, []); // eslint-disable-line react-hooks/exhaustive-deps
 
   // Update legacy format when plan changes
   useEffect(() => {
@@ -461,39 +532,38 @@ export default function DancerSplitTracker() {
     }
   }, [activePlan, exercises, workoutLibrary]); // eslint-disable-line react-hooks/exhaustive-deps
 
-  // Persistence
+  // Persistence — nothing is written until the initial load has finished
   useEffect(() => {
-    try {
-      const p = localStorage.getItem(STORAGE_KEYS.profile);
-      const w = localStorage.getItem(STORAGE_KEYS.workouts);
-      if (p) setProfile(JSON.parse(p));
-      if (w) setWorkouts(JSON.parse(w));
-    } catch {
-      // ignore
-    }
-  }, []);
-  useEffect(() => {
-    localStorage.setItem(STORAGE_KEYS.profile, JSON.stringify(profile));
-  }, [profile]);
-  useEffect(() => {
-    localStorage.setItem(STORAGE_KEYS.workouts, JSON.stringify(workouts));
-  }, [workouts]);
-  useEffect(() => {
-    if (!timerActive || timerRemaining === null) return;
-
-    const interval = setInterval(() => {
-      setTimerRemaining((prev) => {
-        if (prev === null || prev <= 1) {
-          clearInterval(interval);
-          setTimerActive(false);
-          return 0;
-        }
-        return prev - 1;
-      });
-    }, 1000);
-
-    return () => clearInterval(interval);
-  }, [timerActive, timerRemaining]);
+    if (!storageReady || !repoRef.current) return;
+    repoRef.current.saveProfile(profile).catch((error) => {
+      console.error("[App] Failed to save profile:", error);
+    });
+  }, [profile, storageReady]);
+
+  /** Write only the rows that changed since the last successful sync */
+  function syncCollection<K extends CollectionName>(name: K, next: CollectionRecords[K][]) {
+    const repo = repoRef.current;
+    if (!storageReady || !repo) return;
+    const prev = persisted.current[name] as CollectionRecords[K][];
+    if (prev === next) return;
+    persisted.current[name] = next as PersistedCollections[K];
+    repo.sync(name, prev, next).catch(async (error) => {
+      console.error(`[App] Failed to save ${name}:`, error);
+      alert(`Failed to save ${name}: ${error instanceof Error ? error.message : String(error)}`);
+      // Diff the next change against what the store really holds, so it also
+      // writes the rows this sync missed and deletes the ones it didn't
+      try {
+        persisted.current[name] = (await repo.getAll(name)) as PersistedCollections[K];
+      } catch (readError) {
+        console.error(`[App] Failed to re-read ${name}:`, readError);
+      }
+    });
+  }
+  useEffect(() => syncCollection("log", workouts), [workouts, storageReady]); // eslint-disable-line react-hooks/exhaustive-deps
+  useEffect(() => syncCollection("exercises", exercises), [exercises, storageReady]); // eslint-disable-line react-hooks/exhaustive-deps
+  useEffect(() => syncCollection("workouts", workoutLibrary), [workoutLibrary, storageReady]); // eslint-disable-line react-hooks/exhaustive-deps
+  useEffect(() => syncCollection("plans", plans), [plans, storageReady]); // eslint-disable-line react-hooks/exhaustive-deps
+  useEffect(() => syncCollection("sessions", sessions), [sessions, storageReady]); // eslint-disable-line react-hooks/exhaustive-deps
 
 
   // Derived
@@ -510,6 +580,24 @@ export default function DancerSplitTracker() {
     return s;
   }, [workouts]);
 
+  // Stalled rep exercises of the active plan
+  const deloadMode: DeloadMode = profile.deloadMode ?? "auto";
+  const stalls = useMemo(() => {
+    if (!activePlan || deloadMode === "off") return [];
+    const planned: { name: string; repRange: [number, number] }[] = [];
+    for (const day of activePlan.days) {
+      const workout = workoutLibrary.find((w) => w.id === day.workoutId);
+      if (!workout || workout.mode === "circuit" || isIntervalMode(workout.mode)) continue;
+      for (const we of populateWorkoutExercises(workout, exercises).exercises) {
+        const ex = we.exercise;
+        if (!ex || we.seconds || ex.isTimed) continue;
+        const repRange = we.repRange ?? ex.defaultRepRange;
+        planned.push({ name: ex.name, repRange: repRange ?? [we.reps ?? 10, we.reps ?? 12] });
+      }
+    }
+    return findStalls(workouts, planned, profile.stallSessions ?? DEFAULT_STALL_SESSIONS);
+  }, [activePlan, workoutLibrary, exercises, workouts, deloadMode, profile.stallSessions]);
+
   // Profile actions
   function preferredToggle(day: string) {
     setProfile((p) => ({
@@ -522,55 +610,62 @@ export default function DancerSplitTracker() {
   function handleProfileChange<K extends keyof UserProfile>(key: K, value: UserProfile[K]) {
     setProfile((p) => ({ ...p, [key]: value }));
   }
-  function applyProgressiveOverload(
-    plan: {
-      name: string;
-      sets: { reps: number | ""; weight: number | "" }[];
-      restSec?: number;
-      timed?: boolean;
-      seconds?: number;
-    }[],
-    workouts: WorkoutEntry[],
-    unit: "kg" | "lb"
-  ) {
-    return plan.map((exercise) => {
-      if (exercise.timed) return exercise; // Skip timed
-
-      const prev = lastEntryFor(workouts, exercise.name);
-      if (!prev) return exercise;
-
-      const newSets = exercise.sets.map((set) => {
-        let suggestedReps = undefined;
-        let suggestedWeight = undefined;
-
-        if (typeof prev.reps === "number" && typeof set.reps === "number") {
-          const targetRange = getTargetRepRangeForExercise(exercise.name);
-          const topOfRange = targetRange?.[1] ?? set.reps;
-
-          if (prev.reps < topOfRange) {
-            suggestedReps = prev.reps + 1;
-          } else if (typeof prev.weightKg === "number") {
-            const incKg = unit === "lb" ? 5 * 0.45359237 : 2.5;
-            const newKg = prev.weightKg + incKg;
-            const newWeight = fromKg(newKg, unit);
-            suggestedReps = targetRange?.[0] ?? set.reps;
-            suggestedWeight = roundDisplayUnit(newWeight, unit);
-          }
-        }
+  function setCuesMuted(muted: boolean) {
+    setProfile((p) => ({ ...p, cues: { ...p.cues, muted } }));
+  }
 
-        return {
-          ...set,
-          suggestedReps,
-          suggestedWeight,
-        };
-      });
+  // Timer beeps and voice cues follow the profile
+  useEffect(() => {
+    getCueEngine().configure(profile.cues);
+  }, [profile.cues]);
+
+  useWakeLock(sessionActive && profile.keepScreenAwake !== false);
+  const online = useOnline();
+  // Progression
+  const progression: ProgressionSettings = {
+    mode: profile.progressionMode ?? "linear",
+    targetRpe: profile.targetRpe ?? DEFAULT_TARGET_RPE,
+    unit,
+    formula: profile.e1rmFormula,
+  };
+  const effortScale: EffortScale = profile.effortScale ?? "rpe";
+
+  /** How an exercise is loaded, from the equipment it lists */
+  function loadingForExercise(name: string): EquipmentLoading | undefined {
+    const exercise = exercises.find((e) => e.name === name);
+    return loadingFor(exercise?.equipment, unit, profile.loadingSetups?.[unit]);
+  }
+
+  /** Reps, load (in the display unit) and hold time to prefill for an exercise's next sets, and why */
+  function suggestTarget(name: string, rx: Prescription): SuggestedTarget {
+    const target = nextTarget(exerciseHistory(workouts, name), rx, progression);
+    if (!target) {
+      return { reps: rx.repRange[0], weight: "", seconds: rx.seconds, reason: "No history yet: start at the bottom of the range" };
+    }
+    const loading = loadingForExercise(name);
+    const display = (kg: number | undefined) => (kg === undefined ? "" : roundDisplayUnit(fromKg(kg, unit), unit, loading));
+    return {
+      reps: target.reps,
+      weight: display(target.weightKg),
+      seconds: target.seconds ?? rx.seconds,
+      sets: target.sets?.map((set) => ({ reps: set.reps, weight: display(set.weightKg) })),
+      reason: target.reason,
+    };
+  }
 
-      return {
-        ...exercise,
-        sets: newSets,
-      };
+  /** Record a deload choice; choices for stalls that have cleared are dropped */
+  function setDeloadChoice(stall: Stall, choice: DeloadChoice | undefined) {
+    setProfile((p) => {
+      const current = new Set(stalls.map(deloadKey));
+      const choices: Record<string, DeloadChoice> = {};
+      for (const [key, value] of Object.entries(p.deloadChoices ?? {})) {
+        if (current.has(key)) choices[key] = value;
+      }
+      if (choice) choices[deloadKey(stall)] = choice;
+      else delete choices[deloadKey(stall)];
+      return { ...p, deloadChoices: choices };
     });
-}
+  }
 
   // Session helpers
   function buildSessionPlan(day: number) {
@@ -589,6 +684,11 @@ export default function DancerSplitTracker() {
       return { workout, planDay, mode: "circuit" as const, circuitSpec: workoutToCircuitSpec(populatedWorkout, exercises) };
     }
 
+    // Interval modes - return interval spec
+    if (isIntervalMode(workout.mode)) {
+      return { workout, planDay, mode: "intervals" as const, intervalSpec: workoutToIntervalSpec(populatedWorkout, exercises) };
+    }
+
     // Sets/reps or timed mode
     const plan = populatedWorkout.exercises.map((we) => {
       const ex = we.exercise;
@@ -597,21 +697,31 @@ export default function DancerSplitTracker() {
           name: we.exerciseId,
           sets: [{ reps: "", weight: "" }],
           restSec: we.restSec,
+          group: we.group,
         };
       }
 
       const name = ex.name;
       const restSec = we.restSec ?? ex.defaultRestSec;
+      const group = we.group;
 
       // Timed exercise
       if (we.seconds || ex.isTimed) {
-        const seconds = we.seconds ?? ex.defaultSeconds ?? 30;
+        const planned = we.seconds ?? ex.defaultSeconds ?? 30;
+        const unilateral = ex.isUnilateral;
+        if (we.progression?.kind !== "time") {
+          return { name, timed: true as const, seconds: planned, unilateral, restSec, group, sets: [{ reps: "", weight: "" }] };
+        }
+        const target = suggestTarget(name, { repRange: [0, 0], seconds: planned, scheme: we.progression });
         return {
           name,
           timed: true as const,
-          seconds,
+          seconds: target.seconds ?? planned,
+          unilateral,
           restSec,
+          group,
           sets: [{ reps: "", weight: "" }],
+          reason: target.reason,
         };
       }
 
@@ -620,42 +730,37 @@ export default function DancerSplitTracker() {
       const repRange = we.repRange ?? ex.defaultRepRange;
       const repLow = repRange ? repRange[0] : we.reps ?? 10;
       const repHigh = repRange ? repRange[1] : we.reps ?? 12;
-
-      let nextReps = repLow;
-      let nextWeightUnit: number | "" = "";
-
-      const prev = lastEntryFor(workouts, name);
-
-      if (prev) {
-        const prevReps = prev.reps ?? repLow;
-        const prevWeightKg = prev.weightKg;
-
-        if (repHigh && prevReps >= repHigh) {
-          // REACHED MAX REPS → add weight
-          if (typeof prevWeightKg === "number") {
-            const incKg = PO_INCR[unit] === 5 ? 5 * KG_PER_LB : 2.5;
-            const suggestedKg = prevWeightKg + incKg;
-            const asUnit = fromKg(suggestedKg, unit);
-            nextWeightUnit = roundDisplayUnit(asUnit, unit);
-          }
-          nextReps = repLow; // reset reps to bottom
-        } else {
-          // NOT YET AT MAX REPS → +1 rep, same weight
-          nextReps = prevReps + 1;
-          if (typeof prevWeightKg === "number") {
-            const asUnit = fromKg(prevWeightKg, unit);
-            nextWeightUnit = roundDisplayUnit(asUnit, unit);
-          }
-        }
+      const target = suggestTarget(name, { repRange: [repLow, repHigh], scheme: we.progression });
+
+      // A scheduled deload replaces the progression's target
+      const stall = stalls.find((st) => st.name === name);
+      let working: { reps: number; weight: number | "" }[];
+      let reason: string;
+      if (stall && isDeloadScheduled(stall, deloadMode, profile.deloadChoices)) {
+        const deload = planDeload(stall, sets, unit);
+        const weight =
+          deload.weightKg === undefined ? "" : roundDisplayUnit(fromKg(deload.weightKg, unit), unit, loadingForExercise(name));
+        working = Array.from({ length: deload.sets }, () => ({ reps: deload.reps, weight }));
+        reason = deload.reason;
+      } else {
+        // Build sets with suggested reps/weight prefilled; waves give each set its own
+        working = Array.from({ length: sets }, (_, i) => {
+          const set = target.sets?.[Math.min(i, target.sets.length - 1)] ?? target;
+          return { reps: set.reps, weight: set.weight };
+        });
+        reason = target.reason;
       }
 
-      // Build sets with suggested reps/weight prefilled
-      const setsArr = Array.from({ length: sets }, () => ({
-        reps: nextReps,
-        weight: nextWeightUnit,
-      }));
+      // Warm-up ramp up to the first working set
+      const firstWeight = working[0]?.weight;
+      const warmups =
+        ex.warmup && typeof firstWeight === "number" && firstWeight > 0
+          ? buildWarmupSets(firstWeight, warmupTemplateFor(ex.category, profile.warmupTemplates), (w) =>
+              roundDisplayUnit(w, unit, loadingForExercise(name))
+            ).map((set) => ({ ...set, warmup: true }))
+          : [];
 
-      return { name, sets: setsArr, restSec };
+      return { name, sets: [...warmups, ...working], unilateral: ex.isUnilateral, restSec, group, reason };
     });
 
     if (plan.length === 0) return null;
@@ -663,12 +768,126 @@ export default function DancerSplitTracker() {
     return { workout, planDay, mode: "sets" as const, plan };
   }
 
+  /** The running session for the preview; null once its plan day or workout is gone */
+  function buildActiveSession() {
+    const planDay = activePlan?.days.find((d) => d.day === sessionDay);
+    const workout = planDay && workoutLibrary.find((w) => w.id === planDay.workoutId);
+    if (!planDay || !workout) return null;
+    if (sessionMode === "circuit" && circuitSpec) return { workout, planDay, mode: "circuit" as const, circuitSpec };
+    if (sessionMode === "intervals" && intervalSpec) return { workout, planDay, mode: "intervals" as const, intervalSpec };
+    return { workout, planDay, mode: "sets" as const, plan: sessionPlan as any };
+  }
+
+  /** Open the session record for a plan day */
+  function openSession(day: number, mode: SessionMode, workout?: Workout) {
+    setResumeDraft(null);
+    // Editing the workout mid-session restarts the runner, not the session
+    if (sessionActive && activeSession) return;
+    setCircuitResume(undefined);
+    circuitProgress.current = undefined;
+    setIntervalResume(undefined);
+    intervalProgress.current = undefined;
+    const planDay = activePlan?.days.find((d) => d.day === day);
+    const w = workout ?? workoutLibrary.find((lw) => lw.id === planDay?.workoutId);
+    setActiveSession(
+      createSession({
+        date: sessionDate,
+        planId: activePlan?.id,
+        planDay: planDay ? day : undefined,
+        workoutId: w?.id,
+        mode,
+        title: w?.name || (planDay ? `Day ${day}` : undefined),
+      })
+    );
+  }
+
+  /** Save the finished session's rows to the log, linked to the session */
+  function saveSessionEntries(entries: WorkoutEntry[]) {
+    const stamped = stampUpdated(entries);
+    if (activeSession) {
+      const done = finishSession(activeSession, stamped, sessionDate);
+      setSessions((prev) => [done.session, ...prev]);
+      setLog((prev) => [...done.entries, ...prev]);
+    } else {
+      setLog((prev) => [...stamped, ...prev]);
+    }
+    setActiveSession(null);
+    setSessionActive(false);
+    setCircuitResume(undefined);
+    circuitProgress.current = undefined;
+    setIntervalResume(undefined);
+    intervalProgress.current = undefined;
+  }
+
+  function cancelSession() {
+    setActiveSession(null);
+    setSessionActive(false);
+    setCircuitResume(undefined);
+    circuitProgress.current = undefined;
+    setIntervalResume(undefined);
+    intervalProgress.current = undefined;
+  }
+
+  // Session draft, so a running session survives a reload
+  function currentDraft(): SessionDraft {
+    return {
+      savedAt: new Date().toISOString(),
+      session: activeSession,
+      mode: sessionMode,
+      day: sessionDay,
+      date: sessionDate,
+      exerciseIdx: sessionIdx,
+      setIdx: currentSetIdx,
+      plan: sessionPlan,
+      circuitSpec,
+      circuitManual,
+      circuit: sessionMode === "circuit" ? circuitProgress.current : undefined,
+      intervalSpec,
+      intervals: sessionMode === "intervals" ? intervalProgress.current : undefined,
+    };
+  }
+
+  function persistDraft() {
+    try {
+      saveSessionDraft(currentDraft());
+    } catch (error) {
+      console.error("[App] Failed to save session draft:", error);
+    }
+  }
+
+  // Saved on every change while a session runs; an unanswered resume prompt keeps the old draft
+  useEffect(() => {
+    if (sessionActive) persistDraft();
+    else if (!resumeDraft) clearSessionDraft();
+  }, [sessionActive, sessionMode, sessionDay, sessionDate, sessionIdx, currentSetIdx, sessionPlan, circuitSpec, circuitManual, intervalSpec, activeSession, resumeDraft]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  function resumeSession(draft: SessionDraft) {
+    setActiveSession(draft.session);
+    setSessionMode(draft.mode);
+    setSessionDay(draft.day);
+    setSessionDate(draft.date);
+    setSessionPlan(draft.plan);
+    setSessionIdx(draft.exerciseIdx);
+    setCurrentSetIdx(draft.setIdx);
+    setCircuitSpec(draft.circuitSpec);
+    setCircuitManual(draft.circuitManual);
+    setCircuitResume(draft.circuit);
+    circuitProgress.current = draft.circuit;
+    setIntervalSpec(draft.intervalSpec ?? null);
+    setIntervalResume(draft.intervals);
+    intervalProgress.current = draft.intervals;
+    setSessionActive(true);
+    setActiveTopTab("track");
+    setResumeDraft(null);
+  }
+
   function startSession(day: number | string | undefined | null, customPlan?: typeof sessionPlan) {
     const dnum = Number(day);
     
     // If we have a custom plan (edited plan from preview), use it directly
     if (customPlan && customPlan.length > 0) {
-      setSessionPlan(customPlan as any);
+      openSession(dnum, "sets");
+      setSessionPlan(splitSides(customPlan));
       setSessionIdx(0);
       setCurrentSetIdx(0);
       setSessionDay(dnum);
@@ -689,6 +908,7 @@ export default function DancerSplitTracker() {
 
     // Circuit mode
     if (built.mode === "circuit" && built.circuitSpec) {
+      openSession(dnum, "circuit", built.workout);
       setCircuitSpec(built.circuitSpec);
       setCircuitManual(Array.from({ length: built.circuitSpec.stations.length }, () => ({})));
       setSessionMode("circuit");
@@ -699,6 +919,18 @@ export default function DancerSplitTracker() {
       return;
     }
 
+    // Interval modes
+    if (built.mode === "intervals" && built.intervalSpec) {
+      openSession(dnum, "intervals", built.workout);
+      setIntervalSpec(built.intervalSpec);
+      setSessionMode("intervals");
+      setSessionDay(dnum);
+      setSessionActive(true);
+      setShowWorkoutPreview(false);
+      setActiveTopTab("track");
+      return;
+    }
+
     // Sets/reps or timed mode
     const planToUse = built.plan;
     if (!planToUse || planToUse.length === 0) {
@@ -707,7 +939,8 @@ export default function DancerSplitTracker() {
       return;
     }
 
-    setSessionPlan(planToUse as any);
+    openSession(dnum, "sets", built.workout);
+    setSessionPlan(splitSides(planToUse as SessionPlanExercise[]));
     setSessionIdx(0);
     setCurrentSetIdx(0);
     setSessionDay(dnum);
@@ -718,44 +951,83 @@ export default function DancerSplitTracker() {
   }
   
   
+  /** The set after the current one in the session's order */
+  function stepAfterCurrent() {
+    const at = sessionStepList.findIndex((s) => s.exerciseIdx === sessionIdx && s.setIdx === currentSetIdx);
+    // Off the order, e.g. after Prev/Next: carry on with the next exercise
+    return at >= 0 ? sessionStepList[at + 1] : sessionStepList.find((s) => s.exerciseIdx > sessionIdx);
+  }
+
+  /** Go to the next set in the session's order, or finish after the last */
+  function advanceSet() {
+    const next = stepAfterCurrent();
+    if (!next) {
+      finishSessionAndSave();
+      return;
+    }
+    setSessionIdx(next.exerciseIdx);
+    setCurrentSetIdx(next.setIdx);
+  }
+
   function finishSessionAndSave() {
     const entries: WorkoutEntry[] = [];
 
     for (const ex of sessionPlan) {
       if (ex.timed) {
         const seconds = typeof ex.seconds === "number" ? ex.seconds : Number(ex.seconds) || 0;
-
-        entries.push({
-          id: uid(),
-          date: sessionDate,
-          name: ex.name + " (sec)",
-          sets: 1,
-          reps: seconds,
-          weightKg: undefined,
-        });
-
-        // Optionally store reps/weight for timed movement
-        for (const set of ex.sets) {
-          const reps = typeof set.reps === "number" ? set.reps : Number(set.reps);
-          const weight = typeof set.weight === "number" ? set.weight : Number(set.weight);
-
-          if (!isNaN(reps) || !isNaN(weight)) {
+        const done = ex.sets
+          .map((set) => ({
+            reps: set.reps === "" ? NaN : Number(set.reps),
+            weight: set.weight === "" ? NaN : Number(set.weight),
+          }))
+          .filter((set) => !isNaN(set.reps) || !isNaN(set.weight));
+
+        // Unilateral holds are logged per side
+        if (done.length === 0 && ex.sideSeconds) {
+          for (const side of SIDES) {
+            const held = ex.sideSeconds[side];
             entries.push({
               id: uid(),
               date: sessionDate,
               name: ex.name,
+              kind: "duration",
               sets: 1,
-              reps: isNaN(reps) ? 0 : reps,
-              weightKg:
-                unit === "lb"
-                  ? isNaN(weight)
-                    ? undefined
-                    : Math.round(weight * 0.45359237 * 100) / 100
-                  : isNaN(weight)
-                  ? undefined
-                  : weight,
+              reps: 0,
+              durationSec: typeof held === "number" ? held : Number(held) || 0,
+              side,
             });
           }
+        } else if (done.length === 0) {
+          entries.push({
+            id: uid(),
+            date: sessionDate,
+            name: ex.name,
+            kind: "duration",
+            sets: 1,
+            reps: 0,
+            durationSec: seconds,
+          });
+        }
+
+        // Reps or load entered for a timed movement are kept with the time
+        for (const { reps, weight } of done) {
+          entries.push({
+            id: uid(),
+            date: sessionDate,
+            name: ex.name,
+            kind: reps > 0 ? "repsDuration" : "duration",
+            sets: 1,
+            reps: isNaN(reps) ? 0 : reps,
+            durationSec: seconds,
+            weightKg:
+              unit === "lb"
+                ? isNaN(weight)
+                  ? undefined
+                  : Math.round(weight * 0.45359237 * 100) / 100
+                : isNaN(weight)
+                ? undefined
+                : weight,
+          });
         }
       } else {
         for (const set of ex.sets) {
@@ -766,6 +1038,7 @@ export default function DancerSplitTracker() {
             id: uid(),
             date: sessionDate,
             name: ex.name,
+            kind: "reps",
             sets: 1,
             reps: isNaN(reps) ? 0 : reps,
             weightKg:
@@ -776,28 +1049,24 @@ export default function DancerSplitTracker() {
                 : isNaN(weight)
                 ? undefined
                 : weight,
+            rpe: typeof set.rpe === "number" ? set.rpe : undefined,
+            rir: typeof set.rir === "number" ? set.rir : undefined,
+            warmup: set.warmup || undefined,
+            side: set.side,
           });
         }
       }
     }
 
-    const withPR = markPRsBeforeInsert(workouts, entries);
-    setWorkouts((prev) => [...withPR, ...prev]);
-    setSessionActive(false);
+    saveSessionEntries(entries);
   }
 
 
 
   // Export / Import
   function exportJSON() {
-    const data = { profile, workouts };
-    const blob = new Blob([JSON.stringify(data, null, 2)], { type: "application/json" });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement("a");
-    a.href = url;
-    a.download = `workout-tracker-${todayISO()}.json`;
-    a.click();
-    URL.revokeObjectURL(url);
+    const archive = createBackup({ profile, exercises, workouts: workoutLibrary, plans, log: workouts, sessions });
+    downloadFile(`workout-tracker-backup-${todayISO()}.json`, JSON.stringify(archive, null, 2), "application/json");
   }
   function onImportClick() {
     fileInputRef.current?.click();
@@ -808,11 +1077,10 @@ export default function DancerSplitTracker() {
     const reader = new FileReader();
     reader.onload = () => {
       try {
-        const parsed = JSON.parse(String(reader.result));
-        if (parsed.profile) setProfile(parsed.profile);
-        if (Array.isArray(parsed.workouts)) setWorkouts(parsed.workouts);
-        alert("Import successful");
+        // Nothing is written until the user confirms the preview
+        setPendingRestore(parseBackup(String(reader.result)));
       } catch (err) {
+        if (!(err instanceof BackupError)) console.error("[backup] Failed to read backup:", err);
         alert("Import failed: " + (err as Error).message);
       } finally {
         e.target.value = "";
@@ -820,9 +1088,37 @@ export default function DancerSplitTracker() {
     };
     reader.readAsText(file);
   }
+  const restoreBaseline = useMemo(
+    () => ({ profile, exercises, workouts: workoutLibrary, plans, log: workouts, sessions }),
+    [profile, exercises, workoutLibrary, plans, workouts, sessions]
+  );
+  function applyRestore(plan: RestorePlan) {
+    const { result } = plan;
+    if (result.profile) setProfile(result.profile);
+    setExercises(result.exercises);
+    setWorkoutLibrary(result.workouts);
+    setPlans(result.plans);
+    setLog(result.log);
+    setSessions(result.sessions);
+
+    // Keep the active plan pointing at its restored copy
+    const restoredActive = activePlan ? result.plans.find((p) => p.id === activePlan.id) : undefined;
+    setActivePlan(restoredActive ?? result.plans.find((p) => p.name === result.profile?.programName) ?? result.plans[0] ?? null);
+
+    setPendingRestore(null);
+    alert("Restore complete");
+  }
 
   // UI derived
   const profileComplete = profile.name.trim().length > 0;
+  const equipmentNames = useMemo(
+    () => Array.from(new Set(exercises.flatMap((e) => e.equipment ?? []))).sort(),
+    [exercises]
+  );
+  const currentLoading = sessionPlan[sessionIdx] ? loadingForExercise(sessionPlan[sessionIdx].name) : undefined;
+  const sessionStepList = useMemo(() => sessionSteps(sessionPlan), [sessionPlan]);
+  const currentStep = sessionStepList.find((s) => s.exerciseIdx === sessionIdx && s.setIdx === currentSetIdx);
+  const sessionGroupLabels = useMemo(() => groupLabels(sessionPlan), [sessionPlan]);
 
 
     // Prefill manual log with PO when an exercise is chosen from library
@@ -840,48 +1136,15 @@ export default function DancerSplitTracker() {
       setWSets(String(exercise.defaultSets));
     }
 
-    if (exercise.defaultRepRange) {
-      const [min, max] = exercise.defaultRepRange;
-      if (wReps === "" || wReps === "10") {
-        // Try progressive overload first
-        const prev = lastEntryFor(workouts, exercise.name);
-        if (prev) {
-          const prevReps = prev.reps ?? min;
-          if (prevReps >= max) {
-            // At max, suggest min again (weight will be increased)
-            setWReps(String(min));
-          } else {
-            // Not at max, +1 rep
-            setWReps(String(prevReps + 1));
-          }
-        } else {
-          setWReps(String(min));
-        }
-      }
+    // Progression picks the reps and load
+    const target = suggestTarget(exercise.name, { repRange: exercise.defaultRepRange ?? [10, 12] });
+    if (exercise.defaultRepRange && (wReps === "" || wReps === "10")) {
+      setWReps(String(target.reps));
     }
-
-    // Progressive overload for weight
-    const prev = lastEntryFor(workouts, exercise.name);
-    if (prev && wWeight === "") {
-      const prevReps = prev.reps ?? 0;
-      const prevWeightKg = prev.weightKg;
-      const repRange = exercise.defaultRepRange;
-      
-      if (repRange && prevReps >= repRange[1]) {
-        // Reached max reps, suggest weight increase
-        if (typeof prevWeightKg === "number") {
-          const incKg = PO_INCR[unit] === 5 ? 5 * KG_PER_LB : 2.5;
-          const suggestedKg = prevWeightKg + incKg;
-          const asUnit = fromKg(suggestedKg, unit);
-          setWWeight(String(roundDisplayUnit(asUnit, unit)));
-        }
-      } else if (typeof prevWeightKg === "number") {
-        // Not at max, keep same weight
-        const asUnit = fromKg(prevWeightKg, unit);
-        setWWeight(String(roundDisplayUnit(asUnit, unit)));
-      }
+    if (wWeight === "" && target.weight !== "") {
+      setWWeight(String(target.weight));
     }
-  }, [wExerciseId, exercises, unit, workouts, wOpenEntry, wSets, wReps, wWeight]); // deps
+  }, [wExerciseId, exercises, unit, workouts, wOpenEntry, wSets, wReps, wWeight, profile.progressionMode, profile.targetRpe]); // eslint-disable-line react-hooks/exhaustive-deps
   return (
     <div className="min-h-screen w-full bg-gradient-to-b from-slate-50 to-white text-slate-900 p-4 md:p-8">
       <div className="mx-auto max-w-6xl space-y-6">
@@ -894,6 +1157,14 @@ export default function DancerSplitTracker() {
           >
             Dancer&apos;s Split — Plan & Tracker
           </motion.h1>
+          {!online && (
+            <span
+              className="ml-auto inline-flex items-center gap-1 rounded-full border bg-slate-100 px-2 py-0.5 text-xs text-slate-600"
+              title="Everything is saved on this device, so the app works as usual"
+            >
+              <WifiOff className="h-3 w-3" /> Offline
+            </span>
+          )}
         </div>
 
         <Tabs value={activeTopTab} onValueChange={setActiveTopTab} className="w-full">
@@ -917,6 +1188,13 @@ export default function DancerSplitTracker() {
               onImportClick={onImportClick}
               fileInputRef={fileInputRef}
               onImportFile={handleImportFile}
+              onImportFromApp={() => setTrackerImportOpen(true)}
+              onRestoreQuarantined={(entries) =>
+                setLog((prev) => {
+                  const ids = new Set(prev.map((w) => w.id));
+                  return [...entries.filter((e) => !ids.has(e.id)), ...prev];
+                })
+              }
               fromKg={fromKg}
               toKg={toKg}
               activePlan={activePlan}
@@ -931,7 +1209,6 @@ export default function DancerSplitTracker() {
                   p.id === planId ? updatedPlan : { ...p, startDate: undefined }
                 );
                 setPlans(updatedPlans);
-                savePlans(updatedPlans);
                 // Update profile
                 setProfile((p) => ({
                   ...p,
@@ -942,6 +1219,7 @@ export default function DancerSplitTracker() {
                 }));
                 // Update legacy format will happen in useEffect
               }}
+              equipmentNames={equipmentNames}
             />
           </TabsContent>
 
@@ -975,6 +1253,12 @@ export default function DancerSplitTracker() {
                 }}
                 activePlan={activePlan}
                 availablePlans={plans}
+                stalls={stalls}
+                deloadMode={deloadMode}
+                deloadChoices={profile.deloadChoices}
+                unit={unit}
+                onDeloadChoice={setDeloadChoice}
+                onDeloadModeChange={(mode) => handleProfileChange("deloadMode", mode)}
                 onCancelPlan={() => {
                   if (activePlan) {
                     // Clear start date from the plan
@@ -982,7 +1266,6 @@ export default function DancerSplitTracker() {
                       p.id === activePlan.id ? { ...p, startDate: undefined } : p
                     );
                     setPlans(updatedPlans);
-                    savePlans(updatedPlans);
                   }
                   setActivePlan(null);
                   setDancerSplit([]);
@@ -998,7 +1281,6 @@ export default function DancerSplitTracker() {
                     p.id === planId ? updatedPlan : { ...p, startDate: undefined }
                   );
                   setPlans(updatedPlans);
-                  savePlans(updatedPlans);
                   // Update profile
                   setProfile((p) => ({
                     ...p,
@@ -1022,17 +1304,7 @@ export default function DancerSplitTracker() {
                   day={sessionActive ? sessionDay : previewDay}
                   date={sessionDate}
                   onDateChange={setSessionDate}
-                  builtSession={sessionActive ? (sessionMode === "circuit" && circuitSpec ? {
-                    workout: workoutLibrary.find((w) => w.id === activePlan?.days.find((d) => d.day === sessionDay)?.workoutId)!,
-                    planDay: activePlan?.days.find((d) => d.day === sessionDay)!,
-                    mode: "circuit",
-                    circuitSpec: circuitSpec,
-                  } : {
-                    workout: workoutLibrary.find((w) => w.id === activePlan?.days.find((d) => d.day === sessionDay)?.workoutId)!,
-                    planDay: activePlan?.days.find((d) => d.day === sessionDay)!,
-                    mode: "sets",
-                    plan: sessionPlan as any,
-                  }) : buildSessionPlan(previewDay)}
+                  builtSession={sessionActive ? buildActiveSession() : buildSessionPlan(previewDay)}
                   exercises={exercises}
                   workoutLibrary={workoutLibrary}
                   onStart={(editedPlan) => {
@@ -1058,11 +1330,7 @@ export default function DancerSplitTracker() {
                   }}
                   onEditExercise={(index) => setEditingExerciseIndex(index)}
                   editingIndex={editingExerciseIndex}
-                  unit={unit}
-                  workouts={workouts}
-                  lastEntryFor={lastEntryFor}
-                  fromKg={fromKg}
-                  roundDisplayUnit={roundDisplayUnit}
+                  suggestTarget={suggestTarget}
                 />
               )}
 
@@ -1075,18 +1343,21 @@ export default function DancerSplitTracker() {
                         Session — Day {sessionDay}
                         <span className="text-slate-500 text-sm ml-2">{sessionDate}</span>
                       </CardTitle>
-                      <Button
-                        variant="outline"
-                        size="sm"
-                        onClick={() => {
-                          setShowWorkoutPreview(true);
-                          setEditingExerciseIndex(null);
-                          setPreviewDay(sessionDay);
-                        }}
-                        className="rounded-lg"
-                      >
-                        Edit Workout
-                      </Button>
+                      <div className="flex items-center gap-1">
+                        <MuteToggle muted={!!profile.cues?.muted} onChange={setCuesMuted} />
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => {
+                            setShowWorkoutPreview(true);
+                            setEditingExerciseIndex(null);
+                            setPreviewDay(sessionDay);
+                          }}
+                          className="rounded-lg"
+                        >
+                          Edit Workout
+                        </Button>
+                      </div>
                     </div>
                   </CardHeader>
                   <CardContent className="space-y-4 text-sm">
@@ -1100,14 +1371,25 @@ export default function DancerSplitTracker() {
                       />
                     </div>
 
+                    {activeSession && (
+                      <SessionDetails
+                        session={activeSession}
+                        onChange={(patch) => setActiveSession((prev) => (prev ? { ...prev, ...patch } : prev))}
+                      />
+                    )}
+
                     <CircuitRunner
                       circuit={circuitSpec}
                       dateISO={sessionDate}
+                      unit={unit}
                       uid={uid}
+                      resume={circuitResume}
+                      onProgress={(progress) => {
+                        circuitProgress.current = progress;
+                        persistDraft();
+                      }}
                       onFinish={(entries) => {
-                        const withPR = markPRsBeforeInsert(workouts, entries);
-                        setWorkouts((prev) => [...withPR, ...prev]);
-                        setSessionActive(false);
+                        saveSessionEntries(entries);
                         setSessionMode("sets");
                         setCircuitSpec(null);
                       }}
@@ -1195,7 +1477,7 @@ export default function DancerSplitTracker() {
                         variant="outline"
                         className="rounded-xl"
                         onClick={() => {
-                          setSessionActive(false);
+                          cancelSession();
                           setCircuitSpec(null);
                           setSessionMode("sets");
                         }}
@@ -1213,15 +1495,19 @@ export default function DancerSplitTracker() {
                             const st = circuitSpec.stations[i];
                             const manual = circuitManual[i] || {};
 
-                            // Always log the timed portion (total seconds across all rounds)
-                            const totalSeconds = st.seconds * circuitSpec.rounds;
-                            auto.push({
-                              id: uid(),
-                              date: sessionDate,
-                              name: `${st.label} (sec)`,
-                              sets: 1,
-                              reps: totalSeconds,
-                            });
+                            // Always log the timed portion, one set per round
+                            if (st.seconds !== undefined) {
+                              auto.push({
+                                id: uid(),
+                                date: sessionDate,
+                                name: st.label,
+                                kind: "duration",
+                                sets: circuitSpec.rounds,
+                                reps: 0,
+                                durationSec: st.seconds,
+                                weightKg: st.weightKg,
+                              });
+                            }
 
                             // Sanitize reps and weight input
                             const repsValue =
@@ -1231,6 +1517,20 @@ export default function DancerSplitTracker() {
                                 ? manual.weight
                                 : Number(manual.weight);
 
+                            // Rep stations count their target when nothing was entered
+                            if (st.seconds === undefined && manual.reps === undefined && manual.weight === undefined) {
+                              auto.push({
+                                id: uid(),
+                                date: sessionDate,
+                                name: st.label,
+                                kind: "reps",
+                                sets: circuitSpec.rounds,
+                                reps: st.repRange?.[0] ?? 0,
+                                weightKg: st.weightKg,
+                              });
+                              continue;
+                            }
+
                             // Only push manual log if user entered something
                             // Reps should be entered once per station, representing total reps or reps per round
                             if (!isNaN(repsValue) || !isNaN(weightValue)) {
@@ -1240,11 +1540,12 @@ export default function DancerSplitTracker() {
                                 id: uid(),
                                 date: sessionDate,
                                 name: st.label,
+                                kind: "reps",
                                 sets: circuitSpec.rounds, // Use rounds as sets to indicate it's across multiple rounds
                                 reps: isNaN(repsValue) ? 0 : repsValue,
                                 weightKg:
                                   isNaN(weightValue)
-                                    ? undefined
+                                    ? st.weightKg
                                     : unit === "lb"
                                     ? Math.round(weightValue * 0.45359237 * 100) / 100
                                     : weightValue,
@@ -1252,9 +1553,7 @@ export default function DancerSplitTracker() {
                             }
                           }
 
-                          const withPR = markPRsBeforeInsert(workouts, auto);
-                          setWorkouts((prev) => [...withPR, ...prev]);
-                          setSessionActive(false);
+                          saveSessionEntries(auto);
                           setSessionMode("sets");
                           setCircuitSpec(null);
                         }}
@@ -1267,8 +1566,8 @@ export default function DancerSplitTracker() {
               ) : null}
 
 
-              {/* 2) SETS / REPS MODE */}
-              {sessionActive && sessionMode === "sets" ? (
+              {/* 1b) EMOM / AMRAP / TABATA / LADDER */}
+              {sessionActive && sessionMode === "intervals" && intervalSpec ? (
                 <Card className="rounded-2xl shadow-sm">
                   <CardHeader>
                     <div className="flex justify-between items-start">
@@ -1276,18 +1575,98 @@ export default function DancerSplitTracker() {
                         Session — Day {sessionDay}
                         <span className="text-slate-500 text-sm ml-2">{sessionDate}</span>
                       </CardTitle>
+                      <div className="flex items-center gap-1">
+                        <MuteToggle muted={!!profile.cues?.muted} onChange={setCuesMuted} />
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => {
+                            setShowWorkoutPreview(true);
+                            setEditingExerciseIndex(null);
+                            setPreviewDay(sessionDay);
+                          }}
+                          className="rounded-lg"
+                        >
+                          Edit Workout
+                        </Button>
+                      </div>
+                    </div>
+                  </CardHeader>
+                  <CardContent className="space-y-4 text-sm">
+                    <div>
+                      <Label htmlFor="idate">Session date</Label>
+                      <Input
+                        id="idate"
+                        type="date"
+                        value={sessionDate}
+                        onChange={(e) => setSessionDate(e.target.value)}
+                      />
+                    </div>
+
+                    {activeSession && (
+                      <SessionDetails
+                        session={activeSession}
+                        onChange={(patch) => setActiveSession((prev) => (prev ? { ...prev, ...patch } : prev))}
+                      />
+                    )}
+
+                    <IntervalRunner
+                      spec={intervalSpec}
+                      dateISO={sessionDate}
+                      uid={uid}
+                      resume={intervalResume}
+                      onProgress={(progress) => {
+                        intervalProgress.current = progress;
+                        persistDraft();
+                      }}
+                      onFinish={(entries) => {
+                        saveSessionEntries(entries);
+                        setSessionMode("sets");
+                        setIntervalSpec(null);
+                      }}
+                    />
+
+                    <div className="flex items-center justify-between">
                       <Button
                         variant="outline"
-                        size="sm"
+                        className="rounded-xl"
                         onClick={() => {
-                          setShowWorkoutPreview(true);
-                          setEditingExerciseIndex(null);
+                          cancelSession();
+                          setIntervalSpec(null);
+                          setSessionMode("sets");
                         }}
-                        className="rounded-lg"
                       >
-                        Edit Workout
+                        Cancel
                       </Button>
                     </div>
+                  </CardContent>
+                </Card>
+              ) : null}
+
+              {/* 2) SETS / REPS MODE */}
+              {sessionActive && sessionMode === "sets" ? (
+                <Card className="rounded-2xl shadow-sm">
+                  <CardHeader>
+                    <div className="flex justify-between items-start">
+                      <CardTitle className="text-lg">
+                        Session — Day {sessionDay}
+                        <span className="text-slate-500 text-sm ml-2">{sessionDate}</span>
+                      </CardTitle>
+                      <div className="flex items-center gap-1">
+                        <MuteToggle muted={!!profile.cues?.muted} onChange={setCuesMuted} />
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => {
+                            setShowWorkoutPreview(true);
+                            setEditingExerciseIndex(null);
+                          }}
+                          className="rounded-lg"
+                        >
+                          Edit Workout
+                        </Button>
+                      </div>
+                    </div>
                   </CardHeader>
                   <CardContent className="space-y-4 text-sm">
                     <div>
@@ -1300,15 +1679,39 @@ export default function DancerSplitTracker() {
                       />
                     </div>
 
+                    {activeSession && (
+                      <SessionDetails
+                        session={activeSession}
+                        onChange={(patch) => setActiveSession((prev) => (prev ? { ...prev, ...patch } : prev))}
+                      />
+                    )}
+
                     {/* Exercise list indicator */}
                     <div className="flex items-center gap-2 text-xs text-slate-500 pb-2 border-b">
                       <span>Exercise {sessionIdx + 1} of {sessionPlan.length}</span>
                       <span>•</span>
-                      <span>{sessionPlan.map((e) => e.name).join(", ")}</span>
+                      <span>
+                        {sessionPlan
+                          .map((e, i) => (sessionGroupLabels[i] ? `${sessionGroupLabels[i]} ${e.name}` : e.name))
+                          .join(", ")}
+                      </span>
                     </div>
+                    {sessionPlan[sessionIdx]?.reason && (
+                      <div className="text-xs text-slate-500">Target: {sessionPlan[sessionIdx].reason}</div>
+                    )}
 
                     <div className="flex items-center justify-between">
-                      <div className="font-medium">{sessionPlan[sessionIdx]?.name ?? ""}</div>
+                      <div className="font-medium">
+                        {sessionGroupLabels[sessionIdx] && (
+                          <span className="mr-1 text-xs font-semibold text-blue-700">{sessionGroupLabels[sessionIdx]}</span>
+                        )}
+                        {sessionPlan[sessionIdx]?.name ?? ""}
+                        {sessionGroupLabels[sessionIdx] && (
+                          <span className="ml-2 text-xs font-normal text-slate-500">
+                            {GROUP_KIND_LABELS[groupKind(runOf(sessionPlan, sessionIdx).length)]}
+                          </span>
+                        )}
+                      </div>
                       <div className="space-x-2">
                         <Button
                           variant="outline"
@@ -1354,27 +1757,12 @@ export default function DancerSplitTracker() {
                                   );
                                 }}
                               />
-                              {!timerActive ? (
-                                <Button
-                                  variant="outline"
-                                  className="rounded-xl text-sm"
-                                  onClick={() => {
-                                    setTimerRemaining(sessionPlan[sessionIdx].seconds as number);
-                                    setTimerActive(true);
-                                  }}
-                                >
-                                  ▶ Start Timer
-                                </Button>
-                              ) : (
-                                <div
-                                  className={`text-lg font-mono px-3 py-1 rounded border ${
-                                    timerRemaining <= 5 ? "bg-yellow-100 animate-pulse" : "bg-slate-100"
-                                  }`}
-                                >
-                                  {Math.floor(timerRemaining / 60)}:
-                                  {(timerRemaining % 60).toString().padStart(2, "0")}
-                                </div>
-                              )}
+                              <HoldTimer
+                                key={sessionIdx}
+                                seconds={Number(sessionPlan[sessionIdx].seconds) || 0}
+                                label={sessionPlan[sessionIdx].name}
+                                notify={!!profile.restNotifications}
+                              />
                             </div>
                             <p className="text-xs text-slate-500">Enter duration and use the timer to track rest or work.</p>
                           </div>
@@ -1389,6 +1777,7 @@ export default function DancerSplitTracker() {
                                       timed: true,
                                       seconds: 45,
                                       restSec: ex.restSec,
+                                      group: ex.group,
                                       sets: [{ reps: "", weight: "" }],
                                     }
                                   : ex));
@@ -1399,7 +1788,17 @@ export default function DancerSplitTracker() {
                         )}
                       </div>
                       <div className="flex items-center justify-between">
-                        <div className="font-medium">{sessionPlan[sessionIdx]?.name ?? ""}</div>
+                        <div className="font-medium">
+                          {sessionGroupLabels[sessionIdx] && (
+                            <span className="mr-1 text-xs font-semibold text-blue-700">{sessionGroupLabels[sessionIdx]}</span>
+                          )}
+                          {sessionPlan[sessionIdx]?.name ?? ""}
+                          {sessionGroupLabels[sessionIdx] && (
+                            <span className="ml-2 text-xs font-normal text-slate-500">
+                              {GROUP_KIND_LABELS[groupKind(runOf(sessionPlan, sessionIdx).length)]}
+                            </span>
+                          )}
+                        </div>
                         <div className="flex items-center gap-3">
                           <label className="text-xs text-slate-600 flex items-center gap-2">
                             <input
@@ -1431,17 +1830,14 @@ export default function DancerSplitTracker() {
                         <RestTimer
                           seconds={sessionPlan[sessionIdx]!.restSec}
                           startSignal={restStartSignal}
+                          notify={!!profile.restNotifications}
+                          nextLabel={(() => {
+                            const next = stepAfterCurrent();
+                            return next ? sessionPlan[next.exerciseIdx]?.name : undefined;
+                          })()}
                           onDone={() => {
-                            if (!sessionPlan[sessionIdx]?.timed) {
-                              const sets = sessionPlan[sessionIdx]!.sets;
-                              if (currentSetIdx < sets.length - 1) {
-                                setCurrentSetIdx((i) => i + 1);
-                              } else if (sessionIdx < sessionPlan.length - 1) {
-                                setSessionIdx((i) => i + 1);
-                                setCurrentSetIdx(0);
-                              } else {
-                                finishSessionAndSave();
-                              }
+                            if (!sessionPlan[sessionIdx]?.timed || sessionPlan[sessionIdx]?.group) {
+                              advanceSet();
                             }
                           }}
                         />
@@ -1451,24 +1847,46 @@ export default function DancerSplitTracker() {
                     {/* Timed vs sets table */}
                     {sessionPlan[sessionIdx]?.timed ? (
                       <div className="grid grid-cols-3 gap-3 max-w-md">
-                        {/* Seconds */}
-                        <div>
-                          <Label>Seconds</Label>
-                          <Input
-                            inputMode="numeric"
-                            value={sessionPlan[sessionIdx].seconds ?? ""}
-                            onChange={(e) => {
-                              const v = e.target.value;
-                              setSessionPlan((prev) =>
-                                prev.map((ex, i) =>
-                                  i === sessionIdx
-                                    ? { ...ex, seconds: v === "" ? "" : Number(v) }
-                                    : ex
-                                )
-                              );
-                            }}
-                          />
-                        </div>
+                        {/* Seconds, or one hold per side */}
+                        {sessionPlan[sessionIdx].sideSeconds ? (
+                          SIDES.map((side) => (
+                            <div key={side}>
+                              <Label>{SIDE_LABELS[side]} (s)</Label>
+                              <Input
+                                inputMode="numeric"
+                                value={sessionPlan[sessionIdx].sideSeconds?.[side] ?? ""}
+                                onChange={(e) => {
+                                  const v = e.target.value;
+                                  setSessionPlan((prev) =>
+                                    prev.map((ex, i) =>
+                                      i === sessionIdx
+                                        ? { ...ex, sideSeconds: { ...ex.sideSeconds, [side]: v === "" ? "" : Number(v) } }
+                                        : ex
+                                    )
+                                  );
+                                }}
+                              />
+                            </div>
+                          ))
+                        ) : (
+                          <div>
+                            <Label>Seconds</Label>
+                            <Input
+                              inputMode="numeric"
+                              value={sessionPlan[sessionIdx].seconds ?? ""}
+                              onChange={(e) => {
+                                const v = e.target.value;
+                                setSessionPlan((prev) =>
+                                  prev.map((ex, i) =>
+                                    i === sessionIdx
+                                      ? { ...ex, seconds: v === "" ? "" : Number(v) }
+                                      : ex
+                                  )
+                                );
+                              }}
+                            />
+                          </div>
+                        )}
                         {/* Rounds */}
                         <div>
                           <Label>Rounds</Label>
@@ -1505,7 +1923,9 @@ export default function DancerSplitTracker() {
                           />
                         </div>
                         {/* Spacer */}
-                        <div className="self-end text-slate-500">(timed movement)</div>
+                        {!sessionPlan[sessionIdx].sideSeconds && (
+                          <div className="self-end text-slate-500">(timed movement)</div>
+                        )}
 
                         {/* Reps (optional) */}
                         <div>
@@ -1553,6 +1973,7 @@ export default function DancerSplitTracker() {
                               <th className="py-2 pr-4">Set</th>
                               <th className="py-2 pr-4">Reps</th>
                               <th className="py-2 pr-4">Weight ({unit})</th>
+                              <th className="py-2 pr-4">{effortScale === "rpe" ? "RPE" : "RIR"}</th>
                             </tr>
                           </thead>
                           <tbody>
@@ -1563,7 +1984,20 @@ export default function DancerSplitTracker() {
                                   j === currentSetIdx ? "bg-slate-50" : ""
                                 }`}
                               >
-                                <td className="py-2 pr-4">{j + 1}</td>
+                                <td className="py-2 pr-4">
+                                  {s.warmup ? (
+                                    <span className="text-xs font-medium text-slate-500" title="Warm-up">W</span>
+                                  ) : (
+                                    sessionPlan[sessionIdx].sets
+                                      .slice(0, j + 1)
+                                      .filter((x) => !x.warmup && x.side !== "right").length
+                                  )}
+                                  {s.side && (
+                                    <span className="ml-0.5 text-xs text-slate-500" title={SIDE_LABELS[s.side]}>
+                                      {SIDE_SHORT_LABELS[s.side]}
+                                    </span>
+                                  )}
+                                </td>
                                 <td className="py-2 pr-4">
                                   <div className="relative">
                                     <Input
@@ -1620,6 +2054,42 @@ export default function DancerSplitTracker() {
                                       </div>
                                     )}
                                   </div>
+                                  {typeof s.weight === "number" && currentLoading && describePlates(s.weight, currentLoading) && (
+                                    <div className="mt-1 text-[11px] text-slate-500">
+                                      {describePlates(s.weight, currentLoading)}
+                                    </div>
+                                  )}
+                                </td>
+                                <td className="py-2 pr-4">
+                                  <Select
+                                    value={s[effortScale] === undefined || s[effortScale] === "" ? "none" : String(s[effortScale])}
+                                    onValueChange={(v) => {
+                                      setSessionPlan(prev =>
+                                        prev.map((ex, i) =>
+                                          i === sessionIdx
+                                            ? {
+                                                ...ex,
+                                                sets: ex.sets.map((x, k) =>
+                                                  k === j ? { ...x, [effortScale]: v === "none" ? "" : Number(v) } : x
+                                                ),
+                                              }
+                                            : ex
+                                        )
+                                      );
+                                    }}
+                                  >
+                                    <SelectTrigger className="w-20">
+                                      <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                      <SelectItem value="none">—</SelectItem>
+                                      {EFFORT_OPTIONS[effortScale].map((n) => (
+                                        <SelectItem key={n} value={String(n)}>
+                                          {n}
+                                        </SelectItem>
+                                      ))}
+                                    </SelectContent>
+                                  </Select>
                                 </td>
 
                               </tr>
@@ -1636,7 +2106,9 @@ export default function DancerSplitTracker() {
                                   i === sessionIdx
                                     ? {
                                         ...ex,
-                                        sets: [...ex.sets, { reps: "", weight: "" }],
+                                        sets: ex.unilateral
+                                          ? [...ex.sets, ...SIDES.map((side) => ({ reps: "" as const, weight: "" as const, side }))]
+                                          : [...ex.sets, { reps: "", weight: "" }],
                                       }
                                     : ex
                                 )
@@ -1649,25 +2121,18 @@ export default function DancerSplitTracker() {
                       </div>
                     )}
 
-                    {/* Complete Set button (for non-timed) */}
-                    {!sessionPlan[sessionIdx]?.timed && (
+                    {/* Complete Set button (for non-timed, or timed within a group) */}
+                    {(!sessionPlan[sessionIdx]?.timed || sessionPlan[sessionIdx]?.group) && (
                       <div className="flex items-center justify-end">
                         <Button
                           className="rounded-xl"
                           onClick={() => {
                             const rest = sessionPlan[sessionIdx]?.restSec ?? 0;
-                            if (rest > 0 && autoRest) {
+                            // No rest between sides or within a group's round
+                            if (rest > 0 && autoRest && currentStep?.rest !== false) {
                               setRestStartSignal(n => n + 1); // auto start rest; onDone ⇒ advance
                             } else {
-                              const sets = sessionPlan[sessionIdx]!.sets;
-                              if (currentSetIdx < sets.length - 1) {
-                                setCurrentSetIdx(i => i + 1);
-                              } else if (sessionIdx < sessionPlan.length - 1) {
-                                setSessionIdx(i => i + 1);
-                                setCurrentSetIdx(0);
-                              } else {
-                                finishSessionAndSave();
-                              }
+                              advanceSet();
                             }
                           }}
                         >
@@ -1680,7 +2145,7 @@ export default function DancerSplitTracker() {
                       <Button
                         variant="outline"
                         className="rounded-xl"
-                        onClick={() => setSessionActive(false)}
+                        onClick={cancelSession}
                       >
                         Cancel
                       </Button>
@@ -1796,37 +2261,32 @@ export default function DancerSplitTracker() {
                               const exerciseExists = Array.isArray(exercises) && exercises.some((e) => e.name?.toLowerCase() === normalizedName);
                               
                               if (!exerciseExists) {
-                                try {
-                                  const newExercise: Exercise = {
-                                    id: uid(),
-                                    name: name.trim(),
-                                    category: "other",
-                                    muscleGroups: [],
-                                    isTimed: true,
-                                    defaultSeconds: secs,
-                                    defaultSets: 1,
-                                    defaultRestSec: 60,
-                                  };
-                                  const currentExercises = Array.isArray(exercises) ? exercises : [];
-                                  const updatedExercises = [...currentExercises, newExercise];
-                                  setExercises(updatedExercises);
-                                  saveExercises(updatedExercises);
-                                } catch (error) {
-                                  console.error("[App] Failed to save exercise to library:", error);
-                                  alert(`Failed to save exercise to library: ${error instanceof Error ? error.message : String(error)}`);
-                                }
+                                const newExercise: Exercise = {
+                                  id: uid(),
+                                  name: name.trim(),
+                                  category: "other",
+                                  muscleGroups: [],
+                                  isTimed: true,
+                                  defaultSeconds: secs,
+                                  defaultSets: 1,
+                                  defaultRestSec: 60,
+                                };
+                                const currentExercises = Array.isArray(exercises) ? exercises : [];
+                                const updatedExercises = [...currentExercises, newExercise];
+                                setExercises(updatedExercises);
                               }
                             }
 
                             const entry: WorkoutEntry = {
                               id: uid(),
                               date: sessionDate,
-                              name: `${name} (sec)`,
+                              name,
+                              kind: "duration",
                               sets: 1,
-                              reps: secs,
+                              reps: 0,
+                              durationSec: secs,
                             };
-                            const withPR = markPRsBeforeInsert(workouts, [entry]);
-                            setWorkouts(prev => [...withPR, ...prev]);
+                            setLog((prev) => [...stampUpdated([entry]), ...prev]);
                             setWName(""); 
                             setWSeconds("");
                             setWExerciseId("");
@@ -1867,27 +2327,21 @@ export default function DancerSplitTracker() {
                               const exerciseExists = Array.isArray(exercises) && exercises.some((e) => e.name?.toLowerCase() === normalizedName);
                               
                               if (!exerciseExists) {
-                                try {
-                                  // Extract rep range if sets > 1 (use reps as both min and max, or allow user to specify)
-                                  const repRange: [number, number] = [reps, reps];
-                                  const newExercise: Exercise = {
-                                    id: uid(),
-                                    name: name.trim(),
-                                    category: "strength",
-                                    muscleGroups: [],
-                                    defaultRepRange: repRange,
-                                    defaultSets: sets,
-                                    defaultRestSec: 90,
-                                    isTimed: false,
-                                  };
-                                  const currentExercises = Array.isArray(exercises) ? exercises : [];
-                                  const updatedExercises = [...currentExercises, newExercise];
-                                  setExercises(updatedExercises);
-                                  saveExercises(updatedExercises);
-                                } catch (error) {
-                                  console.error("[App] Failed to save exercise to library:", error);
-                                  alert(`Failed to save exercise to library: ${error instanceof Error ? error.message : String(error)}`);
-                                }
+                                // Extract rep range if sets > 1 (use reps as both min and max, or allow user to specify)
+                                const repRange: [number, number] = [reps, reps];
+                                const newExercise: Exercise = {
+                                  id: uid(),
+                                  name: name.trim(),
+                                  category: "strength",
+                                  muscleGroups: [],
+                                  defaultRepRange: repRange,
+                                  defaultSets: sets,
+                                  defaultRestSec: 90,
+                                  isTimed: false,
+                                };
+                                const currentExercises = Array.isArray(exercises) ? exercises : [];
+                                const updatedExercises = [...currentExercises, newExercise];
+                                setExercises(updatedExercises);
                               }
                             }
 
@@ -1895,12 +2349,12 @@ export default function DancerSplitTracker() {
                               id: uid(),
                               date: sessionDate,
                               name,
+                              kind: "reps",
                               sets,
                               reps,
                               weightKg: rawWeight === undefined ? undefined : Math.round(toKg(rawWeight, unit) * 100) / 100,
                             };
-                            const withPR = markPRsBeforeInsert(workouts, [entry]);
-                            setWorkouts(prev => [...withPR, ...prev]);
+                            setLog((prev) => [...stampUpdated([entry]), ...prev]);
                             setWName("");
                             setWExerciseId("");
                             setWOpenEntry(false);
@@ -1988,7 +2442,12 @@ export default function DancerSplitTracker() {
                 programStartDate={profile.programStartDate}
                 preferredDays={profile.preferredDays as any}
                 daysPerWeek={typeof profile.daysPerWeek === "number" ? profile.daysPerWeek : undefined}
-                setWorkouts={setWorkouts}
+                setWorkouts={setLog}
+                e1rmFormula={profile.e1rmFormula ?? "epley"}
+                onChangeE1rmFormula={(formula) => handleProfileChange("e1rmFormula", formula)}
+                bodyweightKg={bodyweightKg}
+                sessions={sessions}
+                imbalanceThreshold={profile.imbalanceThreshold}
               />
             </Suspense>
           </TabsContent>
@@ -2006,28 +2465,10 @@ export default function DancerSplitTracker() {
                 exercises={exercises}
                 workouts={workoutLibrary}
                 plans={plans}
-                onUpdateExercises={(ex) => {
-                  try {
-                    setExercises(ex);
-                    saveExercises(ex);
-                  } catch (error) {
-                    console.error("[App] Failed to update exercises library:", error);
-                    alert(`Failed to save exercises: ${error}`);
-                  }
-                }}
-                onUpdateWorkouts={(w) => {
-                  try {
-                    setWorkoutLibrary(w);
-                    saveWorkouts(w);
-                  } catch (error) {
-                    console.error("[App] Failed to update workouts library:", error);
-                    alert(`Failed to save workouts. Please check console for details.`);
-                  }
-                }}
-                onUpdatePlans={(p) => {
-                  setPlans(p);
-                  savePlans(p);
-                }}
+                onUpdateExercises={setExercises}
+                onUpdateWorkouts={setWorkoutLibrary}
+                onUpdatePlans={setPlans}
+                unit={unit}
                 onSelectPlan={(plan) => {
                   setActivePlan(plan);
                 }}
@@ -2037,9 +2478,39 @@ export default function DancerSplitTracker() {
         </Tabs>
 
         <div className="text-xs text-slate-500 pt-2 space-y-1">
-          <p>Data is stored locally in your browser (localStorage). Export to back up and import to restore.</p>
-          <p>Volume = sets × reps × weight ({unit}); entries without weight count as 1 per rep.</p>
+          <p>Data is stored locally in your browser (IndexedDB). Export to back up and import to restore.</p>
+          <p>
+            Volume = sets × reps × weight ({unit}); sets without weight count your body weight per rep
+            {bodyweightKg === undefined && " (1 per rep until it's set in your profile)"}, and holds count seconds.
+          </p>
         </div>
+
+        {resumeDraft && storageReady && !sessionActive && (
+          <ResumeSessionDialog
+            draft={resumeDraft}
+            onResume={() => resumeSession(resumeDraft)}
+            onDiscard={() => setResumeDraft(null)}
+          />
+        )}
+        <RestoreDialog
+          key={pendingRestore?.archive.manifest.createdAt}
+          backup={pendingRestore}
+          current={restoreBaseline}
+          unit={unit}
+          onCancel={() => setPendingRestore(null)}
+          onConfirm={applyRestore}
+        />
+        <TrackerImportDialog
+          open={trackerImportOpen}
+          exercises={exercises}
+          workouts={workouts}
+          unit={unit}
+          onClose={() => setTrackerImportOpen(false)}
+          onImport={(next) => {
+            setExercises(next.exercises);
+            setLog(next.workouts);
+          }}
+        />
       </div>
     </div>
   );
@@ -0,0 +1,57 @@
+import {
+  LineChart,
+  Line,
+  CartesianGrid,
+  XAxis,
+  YAxis,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from "recharts";
+import { fromKg } from "@/lib/utils";
+import { VOLUME_METRIC_UNITS } from "@/lib/metrics";
+import { SIDE_LABELS, type SideComparison } from "@/lib/asymmetry";
+
+interface AsymmetryChartProps {
+  data: SideComparison[];
+  unit: "kg" | "lb";
+}
+
+/**
+ * Left and right volume per session for one unilateral exercise
+ */
+export default function AsymmetryChart({ data, unit }: AsymmetryChartProps) {
+  // Load and bodyweight volumes are weights; reps, seconds and meters aren't converted
+  const metric = data[data.length - 1]?.metric ?? "reps";
+  const isWeight = VOLUME_METRIC_UNITS[metric] === "kg";
+  const display = (v: number) => (isWeight ? Math.round(fromKg(v, unit) * 10) / 10 : Math.round(v * 10) / 10);
+  const unitLabel = isWeight ? unit : VOLUME_METRIC_UNITS[metric];
+
+  const points = data.map((d) => ({
+    date: d.date,
+    left: display(d.left),
+    right: display(d.right),
+    imbalance: Math.round(d.imbalance * 100),
+  }));
+
+  return (
+    <ResponsiveContainer width="100%" height="100%">
+      <LineChart data={points} margin={{ left: 8, right: 8, top: 8, bottom: 8 }}>
+        <CartesianGrid strokeDasharray="3 3" />
+        <XAxis dataKey="date" tick={{ fontSize: 12 }} />
+        <YAxis tick={{ fontSize: 12 }} />
+        <Tooltip
+          formatter={(value: number | string, name: string, item: { payload?: { imbalance?: number } }) => {
+            const label = name === "left" ? SIDE_LABELS.left : SIDE_LABELS.right;
+            const amount = typeof value === "number" ? value : Number(value) || 0;
+            return [`${amount} ${unitLabel} (${item?.payload?.imbalance ?? 0}% apart)`, label];
+          }}
+          labelClassName="text-xs"
+        />
+        <Legend formatter={(name: string) => (name === "left" ? SIDE_LABELS.left : SIDE_LABELS.right)} />
+        <Line type="monotone" dataKey="left" stroke="#8b5cf6" strokeWidth={2} dot />
+        <Line type="monotone" dataKey="right" stroke="#14b8a6" strokeWidth={2} dot />
+      </LineChart>
+    </ResponsiveContainer>
+  );
+}
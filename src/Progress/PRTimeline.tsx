@@ -0,0 +1,101 @@
+import { useMemo, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { WorkoutEntry } from "@/components/WorkoutLogTable";
+import { replayPRs, type E1RMFormula, type PREvent } from "@/lib/pr";
+import { fromKg } from "@/lib/utils";
+
+interface Props {
+  workouts: WorkoutEntry[];
+  unit: "kg" | "lb";
+  /** Exercise name, or "__all" */
+  exerciseFilter: string;
+  e1rmFormula: E1RMFormula;
+  bodyweightKg?: number;
+}
+
+const PAGE_SIZE = 15;
+
+function round(n: number) {
+  return Math.round(n * 10) / 10;
+}
+
+function describe(event: PREvent, entry: WorkoutEntry | undefined, unit: "kg" | "lb"): { title: string; detail: string } {
+  const name = event.name;
+  if (event.kind === "repMax") {
+    const was = event.previous === undefined ? "" : ` (was ${round(fromKg(event.previous, unit))} ${unit})`;
+    return { title: `New ${event.reps}RM · ${name}`, detail: `${round(fromKg(event.value, unit))} ${unit}${was}` };
+  }
+  if (event.kind === "e1rm") {
+    const was = event.previous === undefined ? "" : ` (was ${round(fromKg(event.previous, unit))} ${unit})`;
+    const set = entry?.weightKg === undefined ? "" : ` from ${entry.reps} × ${round(fromKg(entry.weightKg, unit))} ${unit}`;
+    return { title: `New estimated 1RM · ${name}`, detail: `${round(fromKg(event.value, unit))} ${unit}${set}${was}` };
+  }
+  if (event.kind === "maxWeight") {
+    const was = event.previous === undefined ? "" : ` (was ${round(fromKg(event.previous, unit))} ${unit})`;
+    return { title: `New max weight · ${name}`, detail: `${round(fromKg(event.value, unit))} ${unit}${was}` };
+  }
+  if (event.kind === "hold") {
+    const was = event.previous === undefined ? "" : ` (was ${event.previous} s)`;
+    return { title: `Longest hold · ${name}`, detail: `${event.value} s${was}` };
+  }
+  if (event.kind === "distance") {
+    const was = event.previous === undefined ? "" : ` (was ${event.previous} m)`;
+    return { title: `Longest distance · ${name}`, detail: `${event.value} m${was}` };
+  }
+  if (event.metric === "reps") {
+    return { title: `Most reps · ${name}`, detail: `${event.value} reps` };
+  }
+  const load = event.metric === "bodyweight" ? "body weight" : `${round(fromKg(entry?.weightKg ?? 0, unit))} ${unit}`;
+  return {
+    title: `Best set volume · ${name}`,
+    detail: `${entry?.reps ?? "?"} × ${load} = ${round(fromKg(event.value, unit))} ${unit}`,
+  };
+}
+
+/**
+ * Every PR in the order it was set, replayed from the whole log so edits
+ * to old entries are reflected. An exercise's first entry isn't listed.
+ */
+export default function PRTimeline({ workouts, unit, exerciseFilter, e1rmFormula, bodyweightKg }: Props) {
+  const [shown, setShown] = useState(PAGE_SIZE);
+
+  const byId = useMemo(() => new Map(workouts.map((w) => [w.id, w])), [workouts]);
+  const events = useMemo(() => {
+    const all = replayPRs(workouts, { formula: e1rmFormula, bodyweightKg }).events.filter((e) => e.previous !== undefined);
+    const filtered = exerciseFilter === "__all" ? all : all.filter((e) => e.name === exerciseFilter);
+    return filtered.reverse();
+  }, [workouts, exerciseFilter, e1rmFormula, bodyweightKg]);
+
+  return (
+    <Card className="rounded-2xl shadow-sm mb-6">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-lg">PR Timeline</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {events.length === 0 ? (
+          <div className="text-sm text-slate-500">No PRs yet — beat a previous best to see it here.</div>
+        ) : (
+          <ol className="relative border-l border-emerald-200 ml-2 space-y-3">
+            {events.slice(0, shown).map((event) => {
+              const { title, detail } = describe(event, byId.get(event.entryId), unit);
+              return (
+                <li key={`${event.entryId}-${event.kind}`} className="ml-4">
+                  <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full bg-emerald-500" />
+                  <div className="text-xs text-slate-500">{event.date}</div>
+                  <div className="text-sm font-medium">{title}</div>
+                  <div className="text-xs text-slate-600">{detail}</div>
+                </li>
+              );
+            })}
+          </ol>
+        )}
+        {events.length > shown && (
+          <Button variant="outline" size="sm" className="rounded-xl mt-3" onClick={() => setShown((n) => n + PAGE_SIZE)}>
+            Show more
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -8,13 +8,32 @@ import {
   ResponsiveContainer,
 } from "recharts";
 import { fromKg } from "@/lib/utils";
+import { VOLUME_METRIC_UNITS, type VolumeMetric } from "@/lib/metrics";
 
 interface ProgressChartProps {
-  data: { week: string; volume: number; weight: number }[];
+  data: {
+    week: string;
+    volume?: number;
+    volumeMetric?: VolumeMetric;
+    weight?: number;
+    e1rm?: number;
+    holdSec?: number;
+    distanceM?: number;
+  }[];
   unit: "kg" | "lb";
 }
 
+const SERIES_LABELS: Record<string, string> = {
+  volume: "Max Volume",
+  weight: "Max Weight",
+  e1rm: "Est. 1RM",
+  holdSec: "Longest Hold",
+  distanceM: "Longest Distance",
+};
+
 export default function ProgressChart({ data, unit }: ProgressChartProps) {
+  const has = (key: "volume" | "holdSec" | "distanceM") => data.some((d) => d[key] !== undefined);
+
   return (
     <ResponsiveContainer width="100%" height="100%">
       <LineChart data={data} margin={{ left: 8, right: 8, top: 8, bottom: 8 }}>
@@ -22,28 +41,73 @@ export default function ProgressChart({ data, unit }: ProgressChartProps) {
         <XAxis dataKey="week" tick={{ fontSize: 12 }} />
         <YAxis tick={{ fontSize: 12 }} />
         <Tooltip
-          formatter={(value: any, name: string) => {
-            const label = name === "volume" ? "Max Volume" : "Max Weight";
+          formatter={(value: any, name: string, item: { payload?: { volumeMetric?: VolumeMetric } }) => {
+            const label = SERIES_LABELS[name] ?? name;
+            // Rep counts, hold times and distances aren't weights, so they aren't converted
+            const metric: VolumeMetric =
+              name === "holdSec"
+                ? "time"
+                : name === "distanceM"
+                ? "distance"
+                : name === "volume"
+                ? item?.payload?.volumeMetric ?? "load"
+                : "load";
+            if (VOLUME_METRIC_UNITS[metric] !== "kg") return [value, `${label} (${VOLUME_METRIC_UNITS[metric]})`];
             const displayValue =
               unit === "kg" ? value : Math.round(fromKg(value, unit) * 10) / 10;
             return [displayValue, `${label} (${unit})`];
           }}
           labelClassName="text-xs"
         />
+        {has("volume") && (
+          <Line
+            type="monotone"
+            dataKey="volume"
+            stroke="#8884d8"
+            strokeWidth={2}
+            dot={false}
+            connectNulls
+          />
+        )}
+        {has("volume") && (
+          <Line
+            type="monotone"
+            dataKey="weight"
+            stroke="#82ca9d"
+            strokeWidth={2}
+            dot={false}
+            connectNulls
+          />
+        )}
         <Line
           type="monotone"
-          dataKey="volume"
-          stroke="#8884d8"
-          strokeWidth={2}
-          dot={false}
-        />
-        <Line
-          type="monotone"
-          dataKey="weight"
-          stroke="#82ca9d"
+          dataKey="e1rm"
+          stroke="#f59e0b"
           strokeWidth={2}
+          strokeDasharray="5 3"
           dot={false}
+          connectNulls
         />
+        {has("holdSec") && (
+          <Line
+            type="monotone"
+            dataKey="holdSec"
+            stroke="#0ea5e9"
+            strokeWidth={2}
+            dot
+            connectNulls
+          />
+        )}
+        {has("distanceM") && (
+          <Line
+            type="monotone"
+            dataKey="distanceM"
+            stroke="#ec4899"
+            strokeWidth={2}
+            dot
+            connectNulls
+          />
+        )}
       </LineChart>
     </ResponsiveContainer>
   );
@@ -11,9 +11,14 @@ import {
 import { Label } from "@/components/ui/label";
 import ProgressChart from "./ProgressChart";
 import WeeklyWorkoutLog from "./WeeklyWorkoutLog";
+import PRTimeline from "./PRTimeline";
+import SideBalance from "./SideBalance";
 import { aggregatePRsByWeek } from "@/lib/utils";
 import { WorkoutEntry } from "@/components/WorkoutLogTable";
 import { WorkoutPlan } from "@/lib/workoutLibrary";
+import { E1RM_FORMULA_LABELS, REP_MAX_TARGETS, computePRs, type E1RMFormula } from "@/lib/pr";
+import { fromKg } from "@/lib/utils";
+import type { Session } from "@/lib/sessions";
 
 interface ProgressTabProps {
   workouts: WorkoutEntry[];
@@ -26,6 +31,14 @@ interface ProgressTabProps {
   preferredDays?: string[];
   daysPerWeek?: number;
   setWorkouts: (workouts: WorkoutEntry[]) => void;
+  e1rmFormula: E1RMFormula;
+  onChangeE1rmFormula: (formula: E1RMFormula) => void;
+  /** Profile body weight, for the volume of unloaded sets */
+  bodyweightKg?: number;
+  /** Workout sessions, for grouping the weekly log */
+  sessions?: Session[];
+  /** Left/right lag that raises an imbalance alert */
+  imbalanceThreshold?: number;
 }
 
 function todayISO() {
@@ -81,20 +94,30 @@ export default function ProgressTab({
   preferredDays,
   daysPerWeek,
   setWorkouts,
+  e1rmFormula,
+  onChangeE1rmFormula,
+  bodyweightKg,
+  sessions = [],
+  imbalanceThreshold,
 }: ProgressTabProps) {
   // Aggregate all PRs by week and exercise
-  const weeklyData = useMemo(() => aggregatePRsByWeek(workouts), [workouts]);
-  type WeeklyPR = {
-    week: string;
-    maxVolume?: number;
-    maxWeight?: number;
-  };
+  const weeklyData = useMemo(
+    () => aggregatePRsByWeek(workouts, { formula: e1rmFormula, bodyweightKg }),
+    [workouts, e1rmFormula, bodyweightKg]
+  );
 
-  const selectedData: WeeklyPR[] = useMemo(() => {
+  const selectedData = useMemo(() => {
     if (exerciseFilter === "__all") return [];
     return weeklyData[exerciseFilter] ?? [];
   }, [weeklyData, exerciseFilter]);
 
+  // Best e1RM and rep maxes for the selected exercise
+  const selectedRecords = useMemo(() => {
+    if (exerciseFilter === "__all") return null;
+    const entries = workouts.filter((w) => w.name === exerciseFilter);
+    return computePRs(entries, { formula: e1rmFormula, bodyweightKg })[exerciseFilter] ?? null;
+  }, [workouts, exerciseFilter, e1rmFormula, bodyweightKg]);
+
   // Plan adherence metrics
   const planMetrics = useMemo(() => {
     if (!activePlan || !programStartDate) {
@@ -266,6 +289,19 @@ export default function ProgressTab({
         <CardHeader className="pb-3 flex flex-col md:flex-row md:items-center md:justify-between gap-3">
           <CardTitle className="text-lg">Progress (Weekly PRs)</CardTitle>
           <div className="flex items-center gap-2 text-sm">
+            <Label className="mr-1">e1RM</Label>
+            <Select value={e1rmFormula} onValueChange={(v) => onChangeE1rmFormula(v as E1RMFormula)}>
+              <SelectTrigger className="w-[110px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(E1RM_FORMULA_LABELS) as E1RMFormula[]).map((f) => (
+                  <SelectItem key={f} value={f}>
+                    {E1RM_FORMULA_LABELS[f]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
             <Label className="mr-1">Exercise</Label>
             <Select value={exerciseFilter} onValueChange={setExerciseFilter}>
               <SelectTrigger className="w-[180px]">
@@ -293,8 +329,12 @@ export default function ProgressTab({
               <ProgressChart
                 data={selectedData.map((d) => ({
                   week: d.week,
-                  volume: d.maxVolume ?? 0,
-                  weight: d.maxWeight ?? 0,
+                  volume: d.volume,
+                  volumeMetric: d.volumeMetric,
+                  weight: d.weight,
+                  e1rm: d.e1rm,
+                  holdSec: d.holdSec,
+                  distanceM: d.distanceM,
                 }))}
                 unit={unit}
               />
@@ -302,12 +342,68 @@ export default function ProgressTab({
             )}
           </div>
           <p className="text-xs text-slate-500 mt-2">
-            Tracks your highest recorded volume and weight each week ({unit}).
+            Tracks your best set volume, weight and estimated 1RM ({E1RM_FORMULA_LABELS[e1rmFormula]}) each
+            week ({unit}). Unloaded sets count your body weight per rep{bodyweightKg === undefined && " once it's set in your profile"};
+            holds and distances are charted as the longest set each week.
           </p>
+          {(selectedRecords?.longestHoldSec !== undefined || selectedRecords?.longestDistanceM !== undefined) && (
+            <div className="mt-4 flex flex-wrap gap-2 text-center">
+              {selectedRecords.longestHoldSec !== undefined && (
+                <div className="rounded-xl border p-2 min-w-[6rem]">
+                  <div className="text-[10px] uppercase text-slate-500">Longest hold</div>
+                  <div className="text-sm font-semibold">{selectedRecords.longestHoldSec} s</div>
+                </div>
+              )}
+              {selectedRecords.longestDistanceM !== undefined && (
+                <div className="rounded-xl border p-2 min-w-[6rem]">
+                  <div className="text-[10px] uppercase text-slate-500">Longest distance</div>
+                  <div className="text-sm font-semibold">{selectedRecords.longestDistanceM} m</div>
+                </div>
+              )}
+            </div>
+          )}
+          {selectedRecords?.e1rmKg !== undefined && (
+            <div className="mt-4 grid grid-cols-3 sm:grid-cols-6 gap-2 text-center">
+              <div className="rounded-xl border p-2">
+                <div className="text-[10px] uppercase text-slate-500">e1RM</div>
+                <div className="text-sm font-semibold">
+                  {selectedRecords.e1rmKg === undefined ? "—" : Math.round(fromKg(selectedRecords.e1rmKg, unit) * 10) / 10}
+                </div>
+              </div>
+              {REP_MAX_TARGETS.map((reps) => {
+                const record = selectedRecords.repMaxes?.[reps];
+                return (
+                  <div key={reps} className="rounded-xl border p-2" title={record ? `Set on ${record.date}` : undefined}>
+                    <div className="text-[10px] uppercase text-slate-500">{reps}RM</div>
+                    <div className="text-sm font-semibold">
+                      {record ? Math.round(fromKg(record.weightKg, unit) * 10) / 10 : "—"}
+                    </div>
+                    {record && <div className="text-[10px] text-slate-500">{record.date}</div>}
+                  </div>
+                );
+              })}
+            </div>
+          )}
         </CardContent>
       </Card>
 
-      <WeeklyWorkoutLog workouts={workouts} unit={unit} onChange={setWorkouts} />
+      <SideBalance
+        workouts={workouts}
+        unit={unit}
+        exerciseFilter={exerciseFilter}
+        threshold={imbalanceThreshold}
+        bodyweightKg={bodyweightKg}
+      />
+
+      <PRTimeline
+        workouts={workouts}
+        unit={unit}
+        exerciseFilter={exerciseFilter}
+        e1rmFormula={e1rmFormula}
+        bodyweightKg={bodyweightKg}
+      />
+
+      <WeeklyWorkoutLog workouts={workouts} sessions={sessions} unit={unit} onChange={setWorkouts} />
     </>
   );
 }
@@ -0,0 +1,105 @@
+import { useMemo, useState } from "react";
+import { AlertTriangle } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { WorkoutEntry } from "@/components/WorkoutLogTable";
+import {
+  DEFAULT_IMBALANCE_THRESHOLD,
+  compareSides,
+  describeImbalance,
+  findImbalances,
+  unilateralNames,
+} from "@/lib/asymmetry";
+import AsymmetryChart from "./AsymmetryChart";
+
+interface Props {
+  workouts: WorkoutEntry[];
+  unit: "kg" | "lb";
+  /** Exercise picked in the progress chart; shown here too when it's unilateral */
+  exerciseFilter: string;
+  /** Lag, as a fraction of the stronger side, that raises an alert */
+  threshold?: number;
+  bodyweightKg?: number;
+}
+
+/**
+ * Left vs right for unilateral exercises, with an alert for each one
+ * whose weaker side fell behind in its latest session
+ */
+export default function SideBalance({
+  workouts,
+  unit,
+  exerciseFilter,
+  threshold = DEFAULT_IMBALANCE_THRESHOLD,
+  bodyweightKg,
+}: Props) {
+  const names = useMemo(() => unilateralNames(workouts), [workouts]);
+  const [picked, setPicked] = useState<string>("");
+  const selected = names.includes(picked) ? picked : names.includes(exerciseFilter) ? exerciseFilter : names[0];
+
+  const imbalances = useMemo(
+    () => findImbalances(workouts, threshold, { bodyweightKg }),
+    [workouts, threshold, bodyweightKg]
+  );
+  const comparisons = useMemo(
+    () => (selected ? compareSides(workouts, selected, { bodyweightKg }) : []),
+    [workouts, selected, bodyweightKg]
+  );
+
+  if (names.length === 0) return null;
+
+  return (
+    <Card className="rounded-2xl shadow-sm mb-6">
+      <CardHeader className="pb-3 flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+        <CardTitle className="text-lg">Left vs Right</CardTitle>
+        <Select value={selected} onValueChange={setPicked}>
+          <SelectTrigger className="w-[220px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {names.map((name) => (
+              <SelectItem key={name} value={name}>
+                {name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </CardHeader>
+
+      <CardContent className="space-y-3">
+        {imbalances.length > 0 && (
+          <div className="rounded-xl border border-amber-300 bg-amber-50 p-3 text-sm text-amber-900 space-y-1">
+            <div className="flex items-center gap-2 font-medium">
+              <AlertTriangle className="h-4 w-4 shrink-0" />
+              {imbalances.length === 1 ? "1 exercise is uneven" : `${imbalances.length} exercises are uneven`}
+            </div>
+            <ul className="space-y-0.5">
+              {imbalances.map((imbalance) => (
+                <li key={imbalance.name}>
+                  <span className="font-medium">{imbalance.name}</span>
+                  <span className="text-amber-800">
+                    : {describeImbalance(imbalance)} on {imbalance.date}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <div className="h-56 w-full">
+          {comparisons.length === 0 ? (
+            <div className="h-full grid place-items-center text-sm text-slate-500">
+              Log both sides in one session to compare them.
+            </div>
+          ) : (
+            <AsymmetryChart data={comparisons} unit={unit} />
+          )}
+        </div>
+        <p className="text-xs text-slate-500">
+          Each side's volume per session. An alert shows when the weaker side is more than{" "}
+          {Math.round(threshold * 100)}% behind in the latest session.
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
@@ -4,9 +4,14 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
-import { Edit3, Save, X } from "lucide-react";
+import { ChevronDown, ChevronRight, Download, Edit3, Save, Upload, X } from "lucide-react";
 import { WorkoutEntry } from "@/components/WorkoutLogTable";
-import { markPRsBeforeInsert } from "@/lib/pr";
+import { stampUpdated } from "@/lib/logMerge";
+import { logToCsv } from "@/lib/csv";
+import { downloadFile } from "@/lib/utils";
+import { bestSetLabel, describeSet, entryKind, primaryField } from "@/lib/metrics";
+import { SESSION_MODE_LABELS, groupBySession, sessionMinutes, type Session } from "@/lib/sessions";
+import CsvImportDialog from "@/components/CsvImportDialog";
 
 function fromKg(kg: number, unit: "kg" | "lb") {
   return unit === "lb" ? kg / 0.45359237 : kg;
@@ -34,8 +39,26 @@ const Badge = ({ children }: { children: React.ReactNode }) => (
   </span>
 );
 
+function timeOfDay(iso: string): string {
+  return new Date(iso).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+}
+
+/** Header line for a session group, e.g. "18:05–19:02 · 57 min · Circuit · RPE 8" */
+function describeSession(session: Session): string {
+  const parts: string[] = [];
+  const minutes = sessionMinutes(session);
+  parts.push(session.endedAt ? `${timeOfDay(session.startedAt)}–${timeOfDay(session.endedAt)}` : timeOfDay(session.startedAt));
+  if (minutes !== undefined) parts.push(`${minutes} min`);
+  parts.push(SESSION_MODE_LABELS[session.mode]);
+  if (session.planDay !== undefined) parts.push(`Day ${session.planDay}`);
+  if (session.rpe !== undefined) parts.push(`RPE ${session.rpe}`);
+  return parts.join(" · ");
+}
+
 interface Props {
   workouts: WorkoutEntry[];
+  /** Sessions the rows are grouped into; rows without one are grouped by date */
+  sessions?: Session[];
   unit: "kg" | "lb";
   onChange?: (workouts: WorkoutEntry[]) => void;
 }
@@ -56,14 +79,22 @@ function groupByWeek(workouts: WorkoutEntry[]) {
   return byWeek;
 }
 
-export default function WeeklyWorkoutLog({ workouts, unit, onChange }: Props) {
+export default function WeeklyWorkoutLog({ workouts, sessions = [], unit, onChange }: Props) {
   const grouped = useMemo(() => groupByWeek(workouts), [workouts]);
   const weekKeys = Object.keys(grouped).sort((a, b) => b.localeCompare(a)); // newest first
   const [activeWeek, setActiveWeek] = useState<string>(weekKeys[0]);
   const [editingId, setEditingId] = useState<string | null>(null);
   const [editDrafts, setEditDrafts] = useState<Record<string, WorkoutEntry>>({});
+  const [csvImportOpen, setCsvImportOpen] = useState(false);
+  const [collapsed, setCollapsed] = useState<Record<string, boolean>>({});
   
-  const display = grouped[activeWeek] ?? [];
+  const display = useMemo(() => grouped[activeWeek] ?? [], [grouped, activeWeek]);
+  const sessionGroups = useMemo(() => groupBySession(display, sessions), [display, sessions]);
+  const columnCount = onChange ? 6 : 5;
+
+  function toggleGroup(key: string) {
+    setCollapsed((c) => ({ ...c, [key]: !c[key] }));
+  }
 
   function startEdit(id: string) {
     setEditingId(id);
@@ -87,14 +118,9 @@ export default function WeeklyWorkoutLog({ workouts, unit, onChange }: Props) {
     const patch = editDrafts[id];
     if (!patch) return setEditingId(null);
     
-    // Remove the entry being edited from workouts to recalculate PRs correctly
-    const workoutsWithoutEdited = workouts.filter(w => w.id !== id);
-    
-    // Recalculate PRs for the edited entry based on all other workouts
-    const withPR = markPRsBeforeInsert(workoutsWithoutEdited, [patch]);
-    
-    // Replace the old entry with the new one (with updated PR flags)
-    const updated = workouts.map(w => w.id === id ? withPR[0] : w);
+    // Replace the old entry; the owner replays PR flags over the whole log
+    const [edited] = stampUpdated([patch]);
+    const updated = workouts.map(w => w.id === id ? edited : w);
     
     onChange(updated);
     setEditDrafts(d => {
@@ -105,6 +131,121 @@ export default function WeeklyWorkoutLog({ workouts, unit, onChange }: Props) {
     setEditingId(null);
   }
 
+  function renderRow(w: WorkoutEntry) {
+    const isEditing = editingId === w.id;
+    const draft = editDrafts[w.id] ?? w;
+    const isPRThisWeek = isThisWeek(w.date) && (w.isPRMaxWeight || w.isPRVolume);
+    const rowClass = isPRThisWeek ? "bg-emerald-50 border-l-4 border-l-emerald-500" : "";
+
+    return (
+      <tr key={w.id} className={`border-b last:border-0 ${rowClass}`}>
+        <td className="py-2 pr-4">
+          {isEditing ? (
+            <Input
+              type="date"
+              value={draft.date}
+              onChange={(e) =>
+                setEditDrafts(d => ({ ...d, [w.id]: { ...draft, date: e.target.value } }))
+              }
+              className="w-32"
+            />
+          ) : (
+            w.date
+          )}
+        </td>
+        <td className="py-2 pr-4">
+          {w.name}
+          {w.warmup && <span className="ml-2 text-xs text-slate-500">warm-up</span>}
+          {w.side && <span className="ml-2 text-xs text-slate-500">{w.side}</span>}
+          {isPRThisWeek && (
+            <span className="ml-2 space-x-1">
+              {w.isPRMaxWeight && <Badge>PR (Max Wt)</Badge>}
+              {w.isPRVolume && <Badge>PR ({bestSetLabel(w)})</Badge>}
+            </span>
+          )}
+        </td>
+        <td className="py-2 pr-4">
+          {isEditing ? (
+            <Input
+              inputMode="numeric"
+              value={String(draft.sets)}
+              onChange={(e) =>
+                setEditDrafts(d => ({ ...d, [w.id]: { ...draft, sets: Number(e.target.value) || 0 } }))
+              }
+              className="w-16"
+            />
+          ) : (
+            w.sets
+          )}
+        </td>
+        <td className="py-2 pr-4">
+          {isEditing ? (
+            <Input
+              inputMode="numeric"
+              value={String(draft[primaryField(draft)] ?? 0)}
+              onChange={(e) =>
+                setEditDrafts(d => ({
+                  ...d,
+                  [w.id]: { ...draft, [primaryField(draft)]: Number(e.target.value) || 0 },
+                }))
+              }
+              className="w-16"
+            />
+          ) : entryKind(w) === "reps" ? (
+            w.reps
+          ) : (
+            describeSet(w)
+          )}
+        </td>
+        <td className="py-2 pr-4">
+          {isEditing ? (
+            <Input
+              inputMode="numeric"
+              value={
+                draft.weightKg === undefined ? "" :
+                String(Math.round(fromKg(draft.weightKg, unit) * 10) / 10)
+              }
+              onChange={(e) => {
+                const val = e.target.value;
+                const next: WorkoutEntry = {
+                  ...draft,
+                  weightKg: val === "" ? undefined
+                    : Math.round(toKg(Number(val), unit) * 100) / 100
+                };
+                setEditDrafts(d => ({ ...d, [w.id]: next }));
+              }}
+              className="w-20"
+            />
+          ) : (
+            w.weightKg
+              ? unit === "kg"
+                ? Math.round(w.weightKg)
+                : Math.round(w.weightKg / 0.45359237)
+              : "—"
+          )}
+        </td>
+        {onChange && (
+          <td className="py-2 pr-4">
+            {isEditing ? (
+              <div className="flex items-center gap-1">
+                <Button size="icon" className="rounded-xl" onClick={() => saveEdit(w.id)}>
+                  <Save className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="icon" className="rounded-xl" onClick={cancelEdit}>
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ) : (
+              <Button variant="ghost" size="icon" className="rounded-xl" onClick={() => startEdit(w.id)}>
+                <Edit3 className="h-4 w-4" />
+              </Button>
+            )}
+          </td>
+        )}
+      </tr>
+    );
+  }
+
   return (
     <Card className="rounded-2xl shadow-sm">
       <CardHeader className="pb-3 flex flex-col md:flex-row md:items-center md:justify-between gap-3">
@@ -122,8 +263,31 @@ export default function WeeklyWorkoutLog({ workouts, unit, onChange }: Props) {
               ))}
             </SelectContent>
           </Select>
+          <Button
+            variant="outline"
+            size="sm"
+            className="rounded-xl"
+            disabled={workouts.length === 0}
+            onClick={() => downloadFile(`workout-log-${new Date().toISOString().slice(0, 10)}.csv`, logToCsv(workouts, unit), "text/csv")}
+          >
+            <Download className="h-4 w-4 mr-1" /> CSV
+          </Button>
+          {onChange && (
+            <Button variant="outline" size="sm" className="rounded-xl" onClick={() => setCsvImportOpen(true)}>
+              <Upload className="h-4 w-4 mr-1" /> Import CSV
+            </Button>
+          )}
         </div>
       </CardHeader>
+      {onChange && (
+        <CsvImportDialog
+          open={csvImportOpen}
+          workouts={workouts}
+          unit={unit}
+          onClose={() => setCsvImportOpen(false)}
+          onImport={onChange}
+        />
+      )}
 
       <CardContent>
         {display.length === 0 ? (
@@ -136,120 +300,45 @@ export default function WeeklyWorkoutLog({ workouts, unit, onChange }: Props) {
                   <th className="py-2 pr-4">Date</th>
                   <th className="py-2 pr-4">Exercise</th>
                   <th className="py-2 pr-4">Sets</th>
-                  <th className="py-2 pr-4">Reps</th>
+                  <th className="py-2 pr-4">Reps / time</th>
                   <th className="py-2 pr-4">Weight ({unit})</th>
                   {onChange && <th className="py-2 pr-4">Actions</th>}
                 </tr>
               </thead>
-              <tbody>
-                {display.map((w) => {
-                  const isEditing = editingId === w.id;
-                  const draft = editDrafts[w.id] ?? w;
-                  const isPRThisWeek = isThisWeek(w.date) && (w.isPRMaxWeight || w.isPRVolume);
-                  const rowClass = isPRThisWeek ? "bg-emerald-50 border-l-4 border-l-emerald-500" : "";
-
-                  return (
-                    <tr key={w.id} className={`border-b last:border-0 ${rowClass}`}>
-                      <td className="py-2 pr-4">
-                        {isEditing ? (
-                          <Input
-                            type="date"
-                            value={draft.date}
-                            onChange={(e) =>
-                              setEditDrafts(d => ({ ...d, [w.id]: { ...draft, date: e.target.value } }))
-                            }
-                            className="w-32"
-                          />
-                        ) : (
-                          w.date
-                        )}
-                      </td>
-                      <td className="py-2 pr-4">
-                        {w.name}
-                        {isPRThisWeek && (
-                          <span className="ml-2 space-x-1">
-                            {w.isPRMaxWeight && <Badge>PR (Max Wt)</Badge>}
-                            {w.isPRVolume && <Badge>PR (Volume)</Badge>}
+              {sessionGroups.map((group) => {
+                const open = !collapsed[group.key];
+                const Chevron = open ? ChevronDown : ChevronRight;
+                return (
+                  <tbody key={group.key}>
+                    <tr className="border-b bg-slate-50">
+                      <td colSpan={columnCount} className="py-1.5 pr-4">
+                        <button
+                          type="button"
+                          className="flex w-full items-start gap-2 text-left"
+                          onClick={() => toggleGroup(group.key)}
+                          aria-expanded={open}
+                        >
+                          <Chevron className="h-4 w-4 mt-0.5 shrink-0 text-slate-500" />
+                          <span className="flex-1">
+                            <span className="font-medium">
+                              {group.session ? group.session.title || "Workout" : "Logged separately"}
+                            </span>
+                            <span className="ml-2 text-xs text-slate-500">
+                              {group.date}
+                              {group.session && ` · ${describeSession(group.session)}`}
+                              {` · ${group.entries.length} ${group.entries.length === 1 ? "row" : "rows"}`}
+                            </span>
+                            {group.session?.notes && (
+                              <span className="block text-xs text-slate-600">{group.session.notes}</span>
+                            )}
                           </span>
-                        )}
-                      </td>
-                      <td className="py-2 pr-4">
-                        {isEditing ? (
-                          <Input
-                            inputMode="numeric"
-                            value={String(draft.sets)}
-                            onChange={(e) =>
-                              setEditDrafts(d => ({ ...d, [w.id]: { ...draft, sets: Number(e.target.value) || 0 } }))
-                            }
-                            className="w-16"
-                          />
-                        ) : (
-                          w.sets
-                        )}
-                      </td>
-                      <td className="py-2 pr-4">
-                        {isEditing ? (
-                          <Input
-                            inputMode="numeric"
-                            value={String(draft.reps)}
-                            onChange={(e) =>
-                              setEditDrafts(d => ({ ...d, [w.id]: { ...draft, reps: Number(e.target.value) || 0 } }))
-                            }
-                            className="w-16"
-                          />
-                        ) : (
-                          w.reps
-                        )}
-                      </td>
-                      <td className="py-2 pr-4">
-                        {isEditing ? (
-                          <Input
-                            inputMode="numeric"
-                            value={
-                              draft.weightKg === undefined ? "" :
-                              String(Math.round(fromKg(draft.weightKg, unit) * 10) / 10)
-                            }
-                            onChange={(e) => {
-                              const val = e.target.value;
-                              const next: WorkoutEntry = {
-                                ...draft,
-                                weightKg: val === "" ? undefined
-                                  : Math.round(toKg(Number(val), unit) * 100) / 100
-                              };
-                              setEditDrafts(d => ({ ...d, [w.id]: next }));
-                            }}
-                            className="w-20"
-                          />
-                        ) : (
-                          w.weightKg
-                            ? unit === "kg"
-                              ? Math.round(w.weightKg)
-                              : Math.round(w.weightKg / 0.45359237)
-                            : "—"
-                        )}
+                        </button>
                       </td>
-                      {onChange && (
-                        <td className="py-2 pr-4">
-                          {isEditing ? (
-                            <div className="flex items-center gap-1">
-                              <Button size="icon" className="rounded-xl" onClick={() => saveEdit(w.id)}>
-                                <Save className="h-4 w-4" />
-                              </Button>
-                              <Button variant="ghost" size="icon" className="rounded-xl" onClick={cancelEdit}>
-                                <X className="h-4 w-4" />
-                              </Button>
-                            </div>
-                          ) : (
-                            <Button variant="ghost" size="icon" className="rounded-xl" onClick={() => startEdit(w.id)}>
-                              <Edit3 className="h-4 w-4" />
-                            </Button>
-                          )}
-                        </td>
-                      )}
                     </tr>
-                  );
-                })}
-              </tbody>
+                    {open && group.entries.map(renderRow)}
+                  </tbody>
+                );
+              })}
             </table>
           </div>
         )}
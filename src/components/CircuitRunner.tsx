@@ -2,6 +2,21 @@ import React from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
+import type { EntryKind } from "@/lib/pr";
+import type { CircuitProgress } from "@/lib/sessions";
+import { defaultStationReps, isTimedStation, spokenStationTarget, stationTarget } from "@/lib/circuits";
+import { getCueEngine, nextCue, spokenSeconds, type Cue } from "@/lib/cues";
+import type { Clock } from "@/lib/timer";
+import { useTimer } from "@/lib/useTimer";
+import { fromKg } from "@/lib/utils";
+
+export type CircuitStation = {
+  label: string;
+  /** Work time; unset for a rep station, which ends when tapped done */
+  seconds?: number;
+  repRange?: [number, number];
+  weightKg?: number;
+};
 
 export type CircuitSpec = {
   mode: "circuit";
@@ -9,17 +24,36 @@ export type CircuitSpec = {
   rounds: number;
   stationRestSec: number;
   roundRestSec?: number;
-  stations: { label: string; seconds: number }[];
+  stations: CircuitStation[];
 };
 
 export interface WorkoutEntry {
   id: string;
   date: string;
   name: string;
+  kind?: EntryKind;
   sets: number;
   reps: number;
+  durationSec?: number;
+  distanceM?: number;
   weightKg?: number;
+  rpe?: number;
+  rir?: number;
+  warmup?: boolean;
+  side?: "left" | "right";
   notes?: string;
+  sessionId?: string;
+  setIndex?: number;
+  updated?: string;
+}
+
+function toKg(value: number, unit: "kg" | "lb") {
+  return unit === "lb" ? value * 0.45359237 : value;
+}
+
+/** A load in the display unit, to one decimal */
+function displayWeight(kg: number, unit: "kg" | "lb") {
+  return Math.round(fromKg(kg, unit) * 10) / 10;
 }
 
 function fmt(s: number) {
@@ -28,126 +62,206 @@ function fmt(s: number) {
   return `${m}:${sec.toString().padStart(2, "0")}`;
 }
 
-const beep = () => {
-  try {
-    const ctx = new (window.AudioContext || (window as any).webkitAudioContext)();
-    const o = ctx.createOscillator();
-    const g = ctx.createGain();
-    o.type = "sine";
-    o.frequency.value = 880;
-    o.connect(g);
-    g.connect(ctx.destination);
-    g.gain.setValueAtTime(0.0001, ctx.currentTime);
-    g.gain.exponentialRampToValueAtTime(0.2, ctx.currentTime + 0.01);
-    g.gain.exponentialRampToValueAtTime(0.0001, ctx.currentTime + 0.15);
-    o.start();
-    o.stop(ctx.currentTime + 0.16);
-  } catch {}
-};
+const cues = getCueEngine();
+
+/** E.g. "Box Jumps, 45 seconds" */
+function spokenStation(station: CircuitStation) {
+  const target = spokenStationTarget(station);
+  return target ? `${station.label}, ${target}` : station.label;
+}
 
 export default function CircuitRunner({
   circuit,
   dateISO,
   onFinish,
   uid,
+  resume,
+  onProgress,
+  unit = "kg",
+  clock,
 }: {
   circuit: CircuitSpec;
   dateISO: string;
   onFinish: (entries: WorkoutEntry[]) => void;
   uid: () => string;
+  /** Unit loads are shown and edited in */
+  unit?: "kg" | "lb";
+  /** Progress saved before a reload; the clock comes back paused */
+  resume?: CircuitProgress;
+  /** Called whenever the clock or the review rows change */
+  onProgress?: (progress: CircuitProgress) => void;
+  /** Time source; the browser clock unless a test drives it */
+  clock?: Clock;
 }) {
-  const [round, setRound] = React.useState(1);
-  const [stationIndex, setStationIndex] = React.useState(0);
-  const [phase, setPhase] = React.useState<"work" | "rest">("work");
-  const [remaining, setRemaining] = React.useState<number>(circuit.stations[0]?.seconds ?? 45);
+  const [round, setRound] = React.useState(resume?.round ?? 1);
+  const [stationIndex, setStationIndex] = React.useState(resume?.stationIndex ?? 0);
+  const [phase, setPhase] = React.useState<"work" | "rest">(resume?.phase ?? "work");
   const [running, setRunning] = React.useState<boolean>(false);
+  // Reps done at the current rep station, logged when it's tapped done
+  const [stationReps, setStationReps] = React.useState<number | "">(
+    () => resume?.stationReps ?? (circuit.stations[0] ? defaultStationReps(circuit.stations[0]) : "")
+  );
 
-  const [finished, setFinished] = React.useState(false);
-  const [editableEntries, setEditableEntries] = React.useState<WorkoutEntry[]>([]);
+  const [finished, setFinished] = React.useState(resume?.finished ?? false);
+  const [editableEntries, setEditableEntries] = React.useState<WorkoutEntry[]>(resume?.reviewEntries ?? []);
 
   const totalStations = circuit.stations.length;
-  const entriesRef = React.useRef<WorkoutEntry[]>([]);
+  const entriesRef = React.useRef<WorkoutEntry[]>(resume ? [...resume.entries] : []);
+  // Round each logged row came from, by row id
+  const roundsRef = React.useRef<Record<string, number>>({ ...resume?.entryRounds });
+  // Set while catching up on phases that ended in the background, which pass silently
+  const quietRef = React.useRef(false);
 
+  const timer = useTimer(resume?.remaining ?? circuit.stations[0]?.seconds ?? 45, {
+    clock,
+    onExpire: (lateMs) => {
+      quietRef.current = lateMs >= 1000;
+      if (phase === "work") {
+        completeStation();
+      } else {
+        advanceToNext();
+      }
+      quietRef.current = false;
+    },
+  });
+  const remaining = timer.seconds;
+
+  React.useEffect(() => {
+    onProgress?.({
+      round,
+      stationIndex,
+      phase,
+      remaining,
+      entries: [...entriesRef.current],
+      entryRounds: { ...roundsRef.current },
+      stationReps,
+      finished,
+      reviewEntries: editableEntries,
+    });
+  }, [round, stationIndex, phase, remaining, stationReps, finished, editableEntries]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const station = circuit.stations[stationIndex];
+  // A rep station waits for the tap instead of counting down
+  const waitingForReps = phase === "work" && !!station && !isTimedStation(station);
+
+  // Rest after the last station is the round rest
   const stationSeconds = phase === "work"
-    ? (circuit.stations[stationIndex]?.seconds ?? 45)
-    : (stationIndex === totalStations ? (circuit.roundRestSec ?? 0) : circuit.stationRestSec);
+    ? (station?.seconds ?? 0)
+    : (stationIndex === totalStations - 1 ? (circuit.roundRestSec ?? 0) : circuit.stationRestSec);
+
+  const last5 = remaining <= 5 && timer.running;
 
-  const last5 = remaining <= 5 && running;
+  // The clock runs while started, except at a rep station
+  const { start: startClock, pause: pauseClock } = timer;
+  React.useEffect(() => {
+    if (running && !waitingForReps) startClock();
+    else pauseClock();
+  }, [running, waitingForReps, startClock, pauseClock]);
 
   React.useEffect(() => {
-    if (!running) return;
-    const id = setInterval(() => {
-      setRemaining((r) => {
-        if (r <= 1) {
-          clearInterval(id);
-          beep();
-
-          if (phase === "work") {
-            const st = circuit.stations[stationIndex];
-            entriesRef.current.push({
-              id: uid(),
-              date: dateISO,
-              name: `${st.label} (sec)`,
-              sets: 1,
-              reps: st.seconds,
-            });
-
-            if (circuit.stationRestSec > 0 && stationIndex < totalStations - 1) {
-              setPhase("rest");
-              setRemaining(circuit.stationRestSec);
-            } else {
-              advanceToNext();
-            }
-          } else {
-            advanceToNext();
-          }
-          return 0;
-        }
-        return r - 1;
+    if (timer.running) cues.tick(remaining);
+  }, [remaining]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  function play(cue: Cue) {
+    if (!quietRef.current) cues.play(cue);
+  }
+
+  function say(text: string) {
+    if (!quietRef.current) cues.say(text);
+  }
+
+  /** Log this round of the current station, then rest or move on */
+  function completeStation() {
+    const st = circuit.stations[stationIndex];
+    const id = uid();
+    if (isTimedStation(st)) {
+      entriesRef.current.push({
+        id,
+        date: dateISO,
+        name: st.label,
+        kind: "duration",
+        sets: 1,
+        reps: 0,
+        durationSec: st.seconds,
+        weightKg: st.weightKg,
       });
-    }, 1000);
-    return () => clearInterval(id);
-  }, [running, phase, stationIndex, round]);
+    } else {
+      entriesRef.current.push({
+        id,
+        date: dateISO,
+        name: st.label,
+        kind: "reps",
+        sets: 1,
+        reps: stationReps === "" ? 0 : stationReps,
+        weightKg: st.weightKg,
+      });
+    }
+    roundsRef.current[id] = round;
+
+    if (circuit.stationRestSec > 0 && stationIndex < totalStations - 1) {
+      const next = circuit.stations[stationIndex + 1];
+      play("rest");
+      say(`Rest. ${nextCue(next.label, spokenStationTarget(next))}`);
+      setPhase("rest");
+      timer.next(circuit.stationRestSec, running);
+    } else {
+      advanceToNext();
+    }
+  }
+
+  /** Start work at a station; `announce` plays the work cue */
+  function startStation(index: number, announce = true) {
+    const st = circuit.stations[index];
+    if (announce) {
+      play("work");
+      // After a rest the station was already named
+      say(phase === "rest" ? "Go" : spokenStation(st));
+    }
+    setStationIndex(index);
+    setPhase("work");
+    timer.next(st.seconds ?? 0, running && isTimedStation(st));
+    setStationReps(defaultStationReps(st));
+  }
 
   function advanceToNext() {
     const isLastStation = stationIndex >= totalStations - 1;
     const isLastRound = round >= circuit.rounds;
 
     if (!isLastStation) {
-      const nextIdx = stationIndex + 1;
-      setStationIndex(nextIdx);
-      setPhase("work");
-      setRemaining(circuit.stations[nextIdx].seconds);
+      startStation(stationIndex + 1);
       return;
     }
 
     if (!isLastRound) {
       const nextRound = round + 1;
+      // Round rest is over (or skipped)
+      if (phase === "rest") {
+        setRound(nextRound);
+        startStation(0);
+        return;
+      }
+      play("roundComplete");
       if (circuit.roundRestSec && circuit.roundRestSec > 0) {
+        say(`Round ${round} done. Rest ${spokenSeconds(circuit.roundRestSec)}. ${nextCue(circuit.stations[0].label)}`);
         setPhase("rest");
-        setRemaining(circuit.roundRestSec);
-        setTimeout(() => {
-          setRound(nextRound);
-          setStationIndex(0);
-          setPhase("work");
-          setRemaining(circuit.stations[0].seconds);
-        }, circuit.roundRestSec * 1000);
+        timer.next(circuit.roundRestSec, running);
       } else {
+        say(`Round ${nextRound}. ${spokenStation(circuit.stations[0])}`);
         setRound(nextRound);
-        setStationIndex(0);
-        setPhase("work");
-        setRemaining(circuit.stations[0].seconds);
+        startStation(0, false);
       }
       return;
     }
 
-    // Final round complete
+    // Final round complete; this cue plays even when caught up late
+    cues.play("done");
+    cues.say("Circuit complete");
     setEditableEntries([...entriesRef.current]);
     setFinished(true);
     setRunning(false);
   }
 
-  const currentLabel = phase === "work" ? (circuit.stations[stationIndex]?.label ?? "—") : "Rest";
+  const currentLabel = phase === "work" ? (station?.label ?? "—") : "Rest";
   const stationProgress = stationSeconds > 0 ? (1 - remaining / stationSeconds) : 0;
   const roundProgress = (
     (round - 1) * totalStations +
@@ -161,11 +275,11 @@ export default function CircuitRunner({
         ? circuit.stations[0]?.label
         : null;
 
-  const nextStationSeconds =
+  const nextStation =
     phase === "rest" && stationIndex < totalStations - 1
-      ? circuit.stations[stationIndex + 1]?.seconds
+      ? circuit.stations[stationIndex + 1]
       : phase === "rest" && stationIndex >= totalStations - 1 && round < circuit.rounds
-        ? circuit.stations[0]?.seconds
+        ? circuit.stations[0]
         : null;
 
   return (
@@ -188,21 +302,48 @@ export default function CircuitRunner({
 
         <div className="text-sm">
           <Label>Current</Label>
-          <div className="text-base font-semibold">{currentLabel}</div>
+          <div className="text-base font-semibold">
+            {currentLabel}
+            {phase === "work" && station?.weightKg !== undefined && (
+              <span className="ml-2 text-sm font-normal">@ {displayWeight(station.weightKg, unit)} {unit}</span>
+            )}
+          </div>
         </div>
 
-        {/* Timer */}
-        <div className={[
-          "text-5xl font-mono text-center rounded-xl px-4 py-6 border",
-          phase === "work" ? "bg-emerald-50 border-emerald-200" : "bg-amber-50 border-amber-200",
-          last5 ? "animate-pulse" : ""
-        ].join(" ")}>
-          {fmt(remaining)}
-        </div>
+        {/* Timer, or the rep target at a rep station */}
+        {waitingForReps ? (
+          <div className="rounded-xl px-4 py-6 border bg-emerald-50 border-emerald-200 text-center space-y-3">
+            <div className="text-4xl font-semibold">{stationTarget(station)}</div>
+            <div className="flex items-center justify-center gap-2">
+              <Label className="text-xs">Reps done</Label>
+              <input
+                type="number"
+                min={0}
+                className="w-20 rounded border px-1 py-0.5 text-sm"
+                value={stationReps}
+                onChange={(e) => {
+                  const reps = parseInt(e.target.value);
+                  setStationReps(Number.isFinite(reps) && reps >= 0 ? reps : "");
+                }}
+              />
+              <Button className="rounded-xl" onClick={completeStation}>
+                Done ▶
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className={[
+            "text-5xl font-mono text-center rounded-xl px-4 py-6 border",
+            phase === "work" ? "bg-emerald-50 border-emerald-200" : "bg-amber-50 border-amber-200",
+            last5 ? "animate-pulse" : ""
+          ].join(" ")}>
+            {fmt(remaining)}
+          </div>
+        )}
 
-        {nextStationLabel && nextStationSeconds && (
+        {nextStationLabel && nextStation && (
           <div className="text-sm text-slate-600 text-center">
-            🔜 Up Next: <strong>{nextStationLabel}</strong> ({nextStationSeconds}s)
+            🔜 Up Next: <strong>{nextStationLabel}</strong> ({stationTarget(nextStation)})
           </div>
         )}
 
@@ -225,18 +366,18 @@ export default function CircuitRunner({
             onClick={() => {
               setRunning(false);
               setRound(1);
-              setStationIndex(0);
-              setPhase("work");
-              setRemaining(circuit.stations[0]?.seconds ?? 45);
+              startStation(0, false);
+              timer.set(circuit.stations[0]?.seconds ?? 0, false);
               entriesRef.current = [];
+              roundsRef.current = {};
               setFinished(false);
               setEditableEntries([]);
             }}
           >
             Reset
           </Button>
-          <Button variant="ghost" className="rounded-xl" onClick={() => setRemaining((r) => Math.max(0, r - 10))}>-10s</Button>
-          <Button variant="ghost" className="rounded-xl" onClick={() => setRemaining((r) => r + 10)}>+10s</Button>
+          <Button variant="ghost" className="rounded-xl" onClick={() => timer.adjust(-10)}>-10s</Button>
+          <Button variant="ghost" className="rounded-xl" onClick={() => timer.adjust(10)}>+10s</Button>
           <Button variant="outline" className="rounded-xl" onClick={advanceToNext}>Skip ▶</Button>
         </div>
 
@@ -245,7 +386,7 @@ export default function CircuitRunner({
           Stations:{" "}
           {circuit.stations.map((s, i) => (
             <span key={i}>
-              {i ? " • " : ""}{s.label} {s.seconds}s
+              {i ? " • " : ""}{s.label} {stationTarget(s)}
             </span>
           ))}
           {circuit.stationRestSec ? ` • Rest ${circuit.stationRestSec}s` : ""}
@@ -256,11 +397,19 @@ export default function CircuitRunner({
         {finished && (
           <div className="space-y-2 mt-6">
             <h3 className="text-base font-semibold">Finish Workout</h3>
-            <p className="text-sm text-slate-600">Review and edit any reps or weight:</p>
+            <p className="text-sm text-slate-600">Review and edit any reps or weight ({unit}), round by round:</p>
 
             {editableEntries.map((entry, i) => (
               <div key={entry.id} className="flex flex-wrap gap-2 items-center">
-                <div className="w-36 font-medium">{entry.name}</div>
+                <div className="w-44 font-medium">
+                  {roundsRef.current[entry.id] !== undefined && (
+                    <span className="mr-1 text-xs font-normal text-slate-500">R{roundsRef.current[entry.id]}</span>
+                  )}
+                  {entry.name}
+                  {entry.durationSec !== undefined && (
+                    <span className="ml-1 text-xs font-normal text-slate-500">{entry.durationSec}s</span>
+                  )}
+                </div>
                 <div className="flex gap-1 items-center">
                   <Label className="text-xs">Reps</Label>
                   <input
@@ -269,8 +418,11 @@ export default function CircuitRunner({
                     value={entry.reps}
                     onChange={(e) => {
                       const reps = parseInt(e.target.value) || 0;
+                      // Reps counted during a timed station are kept with its time
+                      const kind: EntryKind =
+                        entry.durationSec === undefined ? "reps" : reps > 0 ? "repsDuration" : "duration";
                       setEditableEntries((prev) =>
-                        prev.map((ent, idx) => idx === i ? { ...ent, reps } : ent)
+                        prev.map((ent, idx) => idx === i ? { ...ent, reps, kind } : ent)
                       );
                     }}
                   />
@@ -280,9 +432,10 @@ export default function CircuitRunner({
                   <input
                     type="number"
                     className="w-20 rounded border px-1 py-0.5 text-sm"
-                    value={entry.weightKg ?? ""}
+                    value={entry.weightKg !== undefined ? displayWeight(entry.weightKg, unit) : ""}
                     onChange={(e) => {
-                      const weightKg = parseFloat(e.target.value);
+                      const weight = parseFloat(e.target.value);
+                      const weightKg = Number.isFinite(weight) ? Math.round(toKg(weight, unit) * 100) / 100 : undefined;
                       setEditableEntries((prev) =>
                         prev.map((ent, idx) => idx === i ? { ...ent, weightKg } : ent)
                       );
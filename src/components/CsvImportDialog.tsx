@@ -0,0 +1,267 @@
+import React, { useMemo, useState } from "react";
+import { AlertTriangle, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  CSV_FIELDS,
+  DATE_FORMAT_LABELS,
+  detectDateFormat,
+  detectUnit,
+  dryRunCsvImport,
+  guessMapping,
+  parseCsv,
+  type ColumnMapping,
+  type CsvField,
+  type DateFormat,
+} from "@/lib/csv";
+import { analyzeLogMerge, resolveLogMerge } from "@/lib/logMerge";
+import type { WorkoutEntry } from "@/lib/pr";
+
+interface Props {
+  open: boolean;
+  workouts: WorkoutEntry[];
+  unit: "kg" | "lb";
+  onClose: () => void;
+  /** Receives the full merged log */
+  onImport: (next: WorkoutEntry[]) => void;
+}
+
+interface LoadedFile {
+  name: string;
+  header: string[];
+  rows: string[][];
+}
+
+const NONE = "none";
+const MAX_REJECTED_SHOWN = 50;
+
+/**
+ * CSV import in three steps: choose a file, map its columns, then review a
+ * dry run of what would be imported and rejected before confirming.
+ */
+export default function CsvImportDialog({ open, workouts, unit, onClose, onImport }: Props) {
+  const [file, setFile] = useState<LoadedFile | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [fileUnit, setFileUnit] = useState<"kg" | "lb">(unit);
+  const [dateFormat, setDateFormat] = useState<DateFormat>("YMD");
+  const [dateAmbiguous, setDateAmbiguous] = useState(false);
+
+  function reset() {
+    setFile(null);
+    setMapping({});
+    setDateAmbiguous(false);
+  }
+
+  function close() {
+    reset();
+    onClose();
+  }
+
+  function handleFile(e: React.ChangeEvent<HTMLInputElement>) {
+    const selected = e.target.files?.[0];
+    if (!selected) return;
+    const reader = new FileReader();
+    reader.onload = () => {
+      const [header = [], ...rows] = parseCsv(String(reader.result));
+      if (header.length === 0) {
+        alert("The file is empty.");
+        return;
+      }
+      const guessed = guessMapping(header);
+      const detectedDates = detectDateFormat(guessed.date === undefined ? [] : rows.map((r) => r[guessed.date!] ?? ""));
+      setFile({ name: selected.name, header, rows });
+      setMapping(guessed);
+      setFileUnit(detectUnit(header, rows, guessed, unit));
+      setDateFormat(detectedDates.format);
+      setDateAmbiguous(detectedDates.ambiguous);
+    };
+    reader.readAsText(selected);
+    e.target.value = "";
+  }
+
+  function mapField(field: CsvField, value: string) {
+    setMapping((prev) => {
+      const next = { ...prev };
+      if (value === NONE) delete next[field];
+      else next[field] = Number(value);
+      return next;
+    });
+  }
+
+  const missingRequired = CSV_FIELDS.filter((f) => f.required && mapping[f.field] === undefined);
+
+  const report = useMemo(
+    () => (file && missingRequired.length === 0 ? dryRunCsvImport(file.rows, { mapping, unit: fileUnit, dateFormat }) : null),
+    [file, mapping, fileUnit, dateFormat, missingRequired.length]
+  );
+
+  const analysis = useMemo(() => (report ? analyzeLogMerge(workouts, report.entries) : null), [report, workouts]);
+
+  return (
+    <Dialog open={open} onOpenChange={(o) => !o && close()}>
+      <DialogContent onClose={close} className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Import CSV</DialogTitle>
+          <DialogDescription>
+            {file ? `${file.name} · ${file.rows.length} rows` : "Pick a CSV exported from this app or a spreadsheet."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {!file ? (
+          <label className="flex flex-col items-center justify-center gap-2 rounded-xl border-2 border-dashed p-8 text-sm text-slate-500 cursor-pointer hover:bg-slate-50">
+            <Upload className="h-5 w-5" />
+            Choose a .csv file
+            <input type="file" accept=".csv,text/csv" className="hidden" onChange={handleFile} />
+          </label>
+        ) : (
+          <div className="space-y-4 text-sm">
+            <div className="grid grid-cols-2 gap-3">
+              {CSV_FIELDS.map((spec) => (
+                <div key={spec.field} className="space-y-1">
+                  <Label>
+                    {spec.label}
+                    {spec.required && <span className="text-red-600"> *</span>}
+                  </Label>
+                  <Select
+                    value={mapping[spec.field] === undefined ? NONE : String(mapping[spec.field])}
+                    onValueChange={(v) => mapField(spec.field, v)}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NONE}>— not in file —</SelectItem>
+                      {file.header.map((h, i) => (
+                        <SelectItem key={i} value={String(i)}>
+                          {h || `Column ${i + 1}`}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label>Weight unit</Label>
+                <Select value={fileUnit} onValueChange={(v) => setFileUnit(v as "kg" | "lb")}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="kg">kg</SelectItem>
+                    <SelectItem value="lb">lb</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>Date format</Label>
+                <Select value={dateFormat} onValueChange={(v) => setDateFormat(v as DateFormat)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(DATE_FORMAT_LABELS) as DateFormat[]).map((f) => (
+                      <SelectItem key={f} value={f}>
+                        {DATE_FORMAT_LABELS[f]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {dateAmbiguous && (
+                  <div className="text-xs text-amber-700">Days and months can't be told apart; check this.</div>
+                )}
+              </div>
+            </div>
+
+            {missingRequired.length > 0 ? (
+              <div className="text-xs text-red-600">Map {missingRequired.map((f) => f.label).join(" and ")} to continue.</div>
+            ) : (
+              report &&
+              analysis && (
+                <div className="space-y-2 rounded-xl border p-3">
+                  <div className="font-medium">Dry run</div>
+                  <ul className="text-xs text-slate-600 space-y-0.5">
+                    <li>{analysis.added.length} new log entries will be added</li>
+                    {analysis.identical > 0 && <li>{analysis.identical} already in the log (skipped)</li>}
+                    {analysis.conflicts.length > 0 && (
+                      <li>{analysis.conflicts.length} differ from sets already logged (your values are kept)</li>
+                    )}
+                    <li className={report.rejected.length > 0 ? "text-red-600" : ""}>
+                      {report.rejected.length} rows rejected
+                    </li>
+                  </ul>
+                  {report.rejected.length > 0 && (
+                    <div className="max-h-48 overflow-y-auto">
+                      <table className="w-full text-left text-xs">
+                        <thead className="text-slate-500">
+                          <tr>
+                            <th className="py-1 pr-2 font-medium">Line</th>
+                            <th className="py-1 pr-2 font-medium">Reason</th>
+                            <th className="py-1 font-medium">Row</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {report.rejected.slice(0, MAX_REJECTED_SHOWN).map((r) => (
+                            <tr key={r.line} className="border-t align-top">
+                              <td className="py-1 pr-2">{r.line}</td>
+                              <td className="py-1 pr-2 text-red-600">{r.reason}</td>
+                              <td className="py-1 text-slate-500 truncate max-w-[16rem]">{r.cells.join(", ")}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                      {report.rejected.length > MAX_REJECTED_SHOWN && (
+                        <div className="pt-1 text-xs text-slate-500">
+                          …and {report.rejected.length - MAX_REJECTED_SHOWN} more
+                        </div>
+                      )}
+                    </div>
+                  )}
+                </div>
+              )
+            )}
+            {report && report.rejected.length > 0 && (
+              <div className="flex items-start gap-2 text-xs text-amber-800">
+                <AlertTriangle className="h-4 w-4 shrink-0" />
+                Rejected rows are skipped; fix them in the file and import again to include them.
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {file && (
+            <Button variant="outline" onClick={reset} className="rounded-xl">
+              Choose another file
+            </Button>
+          )}
+          <Button variant="outline" onClick={close} className="rounded-xl">
+            Cancel
+          </Button>
+          <Button
+            disabled={!analysis || analysis.added.length === 0}
+            onClick={() => {
+              if (!analysis) return;
+              onImport(resolveLogMerge(workouts, analysis));
+              close();
+            }}
+            className="rounded-xl"
+          >
+            Import {analysis ? analysis.added.length : 0}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,72 @@
+import { TrendingDown } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  deloadKey,
+  describeStall,
+  isDeloadScheduled,
+  type DeloadChoice,
+  type DeloadMode,
+  type Stall,
+} from "@/lib/stalls";
+
+interface Props {
+  stalls: Stall[];
+  mode: DeloadMode;
+  choices?: Record<string, DeloadChoice>;
+  unit: "kg" | "lb";
+  onChoice: (stall: Stall, choice: DeloadChoice | undefined) => void;
+  onModeChange: (mode: DeloadMode) => void;
+}
+
+/**
+ * Lists stalled exercises of the active plan and whether their next
+ * session is a deload
+ */
+export default function DeloadBanner({ stalls, mode, choices, unit, onChoice, onModeChange }: Props) {
+  if (mode === "off" || stalls.length === 0) return null;
+
+  return (
+    <div className="rounded-xl border border-amber-300 bg-amber-50 p-3 text-sm text-amber-900 space-y-2">
+      <div className="flex items-center gap-2 font-medium">
+        <TrendingDown className="h-4 w-4 shrink-0" />
+        {stalls.length === 1 ? "1 exercise has stalled" : `${stalls.length} exercises have stalled`}
+      </div>
+      <ul className="space-y-2">
+        {stalls.map((stall) => {
+          const scheduled = isDeloadScheduled(stall, mode, choices);
+          return (
+            <li key={deloadKey(stall)} className="flex flex-wrap items-center justify-between gap-2">
+              <div>
+                <span className="font-medium">{stall.name}</span>
+                <span className="text-amber-800">: {describeStall(stall, unit)}.</span>
+                {scheduled && <span className="ml-1">Next session is a deload.</span>}
+              </div>
+              {scheduled ? (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="rounded-xl"
+                  onClick={() => onChoice(stall, mode === "auto" ? "skip" : undefined)}
+                >
+                  Skip deload
+                </Button>
+              ) : (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="rounded-xl"
+                  onClick={() => onChoice(stall, mode === "auto" ? undefined : "deload")}
+                >
+                  Deload next session
+                </Button>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+      <button type="button" className="text-xs underline text-amber-800" onClick={() => onModeChange("off")}>
+        Turn off stall detection
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,166 @@
+import { useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  KIND_DEFAULTS,
+  LOADING_KIND_LABELS,
+  setupFor,
+  type EquipmentLoading,
+  type LoadingKind,
+  type LoadingSetups,
+} from "@/lib/loading";
+
+interface Props {
+  /** Equipment named in the library */
+  equipment: string[];
+  unit: "kg" | "lb";
+  setups?: LoadingSetups;
+  onChange: (setups: LoadingSetups) => void;
+}
+
+const BASE_LABELS: Record<LoadingKind, string> = {
+  barbell: "Bar",
+  plates: "Sled",
+  dumbbell: "Lightest",
+  kettlebell: "Base",
+  stack: "First plate",
+};
+
+/** Parse "20, 10, 5" into weights; null when any item isn't a positive number */
+function parseWeights(text: string): number[] | null {
+  const items = text.split(/[,\s]+/).filter(Boolean);
+  const weights = items.map(Number);
+  return weights.every((w) => Number.isFinite(w) && w > 0) ? weights : null;
+}
+
+function numberOrUndefined(text: string): number | undefined {
+  const n = Number(text);
+  return text.trim() !== "" && Number.isFinite(n) && n >= 0 ? n : undefined;
+}
+
+/**
+ * Bar weights, plates, dumbbell steps and stack steps per piece of
+ * equipment, in the current unit
+ */
+export default function EquipmentLoadingEditor({ equipment, unit, setups, onChange }: Props) {
+  const [drafts, setDrafts] = useState<Record<string, string | undefined>>({});
+  const [invalid, setInvalid] = useState<Record<string, boolean>>({});
+
+  function update(name: string, loading: EquipmentLoading) {
+    onChange({ ...setups, [name]: loading });
+  }
+
+  function reset(name: string) {
+    const rest = { ...setups };
+    delete rest[name];
+    onChange(rest);
+  }
+
+  function commitWeights(name: string, loading: EquipmentLoading, field: "plates" | "weights") {
+    const key = `${name}:${field}`;
+    const text = drafts[key];
+    if (text === undefined) return;
+    const weights = parseWeights(text);
+    setInvalid((prev) => ({ ...prev, [key]: weights === null }));
+    if (weights === null) return;
+    update(name, { ...loading, [field]: weights });
+    setDrafts((prev) => ({ ...prev, [key]: undefined }));
+  }
+
+  if (equipment.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      <div className="text-sm font-medium">Equipment ({unit})</div>
+      <div className="space-y-3">
+        {equipment.map((name) => {
+          const loading = setupFor(name, unit, setups);
+          const list = loading?.kind === "kettlebell" ? "weights" : "plates";
+          const listKey = `${name}:${list}`;
+          return (
+            <div key={name} className="rounded-xl border p-2 space-y-2">
+              <div className="grid grid-cols-[1fr_auto_11rem] items-center gap-2">
+                <div className="text-sm truncate">{name}</div>
+                {setups?.[name] ? (
+                  <button type="button" className="text-xs underline text-slate-500" onClick={() => reset(name)}>
+                    Reset
+                  </button>
+                ) : (
+                  <span />
+                )}
+                <Select
+                  value={loading?.kind ?? "none"}
+                  onValueChange={(v) => v !== "none" && update(name, KIND_DEFAULTS[unit][v as LoadingKind])}
+                >
+                  <SelectTrigger className="h-8 text-xs"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {!loading && <SelectItem value="none">Not loaded</SelectItem>}
+                    {(Object.keys(LOADING_KIND_LABELS) as LoadingKind[]).map((kind) => (
+                      <SelectItem key={kind} value={kind}>{LOADING_KIND_LABELS[kind]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {loading && (
+                <div className="grid grid-cols-3 gap-2">
+                  {loading.kind !== "kettlebell" && (
+                    <div>
+                      <Label className="text-xs">{BASE_LABELS[loading.kind]}</Label>
+                      <Input
+                        type="number"
+                        min={0}
+                        value={loading.base}
+                        onChange={(e) => update(name, { ...loading, base: numberOrUndefined(e.target.value) ?? 0 })}
+                      />
+                    </div>
+                  )}
+                  {(loading.kind === "dumbbell" || loading.kind === "stack") && (
+                    <>
+                      <div>
+                        <Label className="text-xs">Step</Label>
+                        <Input
+                          type="number"
+                          min={0}
+                          value={loading.step ?? ""}
+                          onChange={(e) => update(name, { ...loading, step: numberOrUndefined(e.target.value) })}
+                        />
+                      </div>
+                      <div>
+                        <Label className="text-xs">Heaviest</Label>
+                        <Input
+                          type="number"
+                          min={0}
+                          value={loading.max ?? ""}
+                          placeholder="No limit"
+                          onChange={(e) => update(name, { ...loading, max: numberOrUndefined(e.target.value) })}
+                        />
+                      </div>
+                    </>
+                  )}
+                  {(loading.kind === "barbell" || loading.kind === "plates" || loading.kind === "kettlebell") && (
+                    <div className={loading.kind === "kettlebell" ? "col-span-3" : "col-span-2"}>
+                      <Label className="text-xs">{list === "weights" ? "Bells" : "Plates (per pair)"}</Label>
+                      <Input
+                        value={drafts[listKey] ?? (loading[list] ?? []).join(", ")}
+                        placeholder="e.g. 20, 10, 5, 2.5"
+                        className={invalid[listKey] ? "border-red-400" : undefined}
+                        onChange={(e) => setDrafts((prev) => ({ ...prev, [listKey]: e.target.value }))}
+                        onBlur={() => commitWeights(name, loading, list)}
+                      />
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+      <p className="text-xs text-slate-500">
+        Suggested and warm-up loads are rounded to what this equipment can make, and plate-loaded equipment shows
+        the plates per side in the tracker.
+      </p>
+    </div>
+  );
+}
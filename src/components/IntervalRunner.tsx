@@ -0,0 +1,332 @@
+import React from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import type { WorkoutEntry } from "@/lib/pr";
+import type { IntervalProgress } from "@/lib/sessions";
+import {
+  buildIntervals,
+  describeIntervalResult,
+  describeIntervalSpec,
+  emptyIntervalResult,
+  intervalEntries,
+  totalSeconds,
+  type Interval,
+  type IntervalResult,
+  type IntervalSpec,
+} from "@/lib/intervals";
+import { getCueEngine, nextCue, spokenSeconds, type Cue } from "@/lib/cues";
+import type { Clock } from "@/lib/timer";
+import { useTimer } from "@/lib/useTimer";
+
+function fmt(s: number) {
+  const m = Math.floor(s / 60);
+  const sec = s % 60;
+  return `${m}:${sec.toString().padStart(2, "0")}`;
+}
+
+const cues = getCueEngine();
+
+/** E.g. "Burpees, 10 reps" or "Plank, 30 seconds" */
+function spokenInterval(interval: Interval) {
+  const { label, reps } = interval.movement;
+  return `${label}, ${reps ? `${reps} reps` : spokenSeconds(interval.workSec)}`;
+}
+
+function parseCount(text: string): number | "" {
+  const n = parseInt(text);
+  return Number.isFinite(n) && n >= 0 ? n : "";
+}
+
+/**
+ * Clock for EMOM, AMRAP, Tabata and ladder workouts. Reps can be counted
+ * as the intervals go or filled in at the end; AMRAP rounds are tapped in
+ * and the reps into the last round entered when time is up.
+ */
+export default function IntervalRunner({
+  spec,
+  dateISO,
+  onFinish,
+  uid,
+  resume,
+  onProgress,
+  clock,
+}: {
+  spec: IntervalSpec;
+  dateISO: string;
+  onFinish: (entries: WorkoutEntry[]) => void;
+  uid: () => string;
+  /** Progress saved before a reload; the clock comes back paused */
+  resume?: IntervalProgress;
+  /** Called whenever the clock or the result changes */
+  onProgress?: (progress: IntervalProgress) => void;
+  /** Time source; the browser clock unless a test drives it */
+  clock?: Clock;
+}) {
+  const intervals = React.useMemo(() => buildIntervals(spec), [spec]);
+  const isAmrap = spec.mode === "amrap";
+
+  const [intervalIndex, setIntervalIndex] = React.useState(resume?.intervalIndex ?? 0);
+  const [phase, setPhase] = React.useState<"work" | "rest">(resume?.phase ?? "work");
+  const [result, setResult] = React.useState<IntervalResult>(resume?.result ?? emptyIntervalResult(spec));
+  const [finished, setFinished] = React.useState(resume?.finished ?? false);
+
+  // Set while catching up on intervals that ended in the background, which pass silently
+  const quietRef = React.useRef(false);
+  const timer = useTimer(resume?.remaining ?? intervals[0].workSec, {
+    clock,
+    onExpire: (lateMs) => {
+      quietRef.current = lateMs >= 1000;
+      advance();
+      quietRef.current = false;
+    },
+  });
+  const remaining = timer.seconds;
+  const running = timer.running;
+
+  React.useEffect(() => {
+    onProgress?.({ intervalIndex, phase, remaining, result, finished });
+  }, [intervalIndex, phase, remaining, result, finished]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  React.useEffect(() => {
+    if (running) cues.tick(remaining);
+  }, [remaining]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  function play(cue: Cue) {
+    if (!quietRef.current) cues.play(cue);
+  }
+
+  function say(text: string) {
+    if (!quietRef.current) cues.say(text);
+  }
+
+  const current = intervals[Math.min(intervalIndex, intervals.length - 1)];
+  const next = intervals[intervalIndex + 1];
+
+  function advance() {
+    if (phase === "work" && current.restSec > 0) {
+      play("rest");
+      if (next) say(`Rest. ${nextCue(spokenInterval(next))}`);
+      setPhase("rest");
+      timer.next(current.restSec);
+      return;
+    }
+    if (next) {
+      play("work");
+      // After a rest the movement was already named
+      say(phase === "rest" ? "Go" : spokenInterval(next));
+      setIntervalIndex(intervalIndex + 1);
+      setPhase("work");
+      timer.next(next.workSec);
+      return;
+    }
+    // The end plays even when caught up late
+    cues.play("done");
+    cues.say("Time");
+    timer.pause();
+    setFinished(true);
+  }
+
+  function reset() {
+    setIntervalIndex(0);
+    setPhase("work");
+    timer.set(intervals[0].workSec, false);
+    setResult(emptyIntervalResult(spec));
+    setFinished(false);
+  }
+
+  function setIntervalReps(index: number, reps: number | "") {
+    setResult((prev) => ({ ...prev, reps: prev.reps.map((r, i) => (i === index ? reps : r)) }));
+  }
+
+  const phaseSeconds = phase === "work" ? current.workSec : current.restSec;
+  const elapsed =
+    intervals.slice(0, intervalIndex).reduce((sum, iv) => sum + iv.workSec + iv.restSec, 0) +
+    (phase === "rest" ? current.workSec : 0) +
+    (phaseSeconds - remaining);
+  const overallProgress = elapsed / totalSeconds(spec);
+  const last5 = remaining <= 5 && running;
+
+  return (
+    <Card className="rounded-2xl shadow-sm">
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center justify-between">
+          <span>{spec.name} — {describeIntervalSpec(spec)}</span>
+          <span className="text-xs text-slate-500">
+            {isAmrap
+              ? `${result.rounds} ${result.rounds === 1 ? "round" : "rounds"}`
+              : `Interval ${intervalIndex + 1}/${intervals.length}`}
+          </span>
+        </CardTitle>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        {/* Overall progress */}
+        <div className="h-1.5 w-full rounded bg-slate-100 overflow-hidden">
+          <div
+            className="h-full bg-slate-400 transition-all"
+            style={{ width: `${Math.max(0, Math.min(100, overallProgress * 100))}%` }}
+          />
+        </div>
+
+        <div className="text-sm">
+          <Label>Current</Label>
+          {phase === "rest" ? (
+            <div className="text-base font-semibold">Rest</div>
+          ) : isAmrap ? (
+            <ul className="text-base font-semibold">
+              {spec.movements.map((m, i) => (
+                <li key={i}>
+                  {m.reps ? `${m.reps} ` : ""}{m.label}
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <div className="text-base font-semibold">
+              {current.movement.label}
+              {current.movement.reps ? <span className="ml-2 text-sm font-normal">{current.movement.reps} reps</span> : null}
+            </div>
+          )}
+        </div>
+
+        {/* Timer */}
+        <div className={[
+          "text-5xl font-mono text-center rounded-xl px-4 py-6 border",
+          phase === "work" ? "bg-emerald-50 border-emerald-200" : "bg-amber-50 border-amber-200",
+          last5 ? "animate-pulse" : ""
+        ].join(" ")}>
+          {fmt(remaining)}
+        </div>
+
+        {phase === "rest" && next && (
+          <div className="text-sm text-slate-600 text-center">
+            🔜 Up Next: <strong>{next.movement.label}</strong> ({next.workSec}s)
+          </div>
+        )}
+
+        {/* Interval progress bar */}
+        <div className="h-2 w-full rounded bg-slate-100 overflow-hidden">
+          <div
+            className={`h-full transition-all ${phase === "work" ? "bg-emerald-500" : "bg-amber-500"}`}
+            style={{ width: `${Math.max(0, Math.min(100, phaseSeconds > 0 ? (1 - remaining / phaseSeconds) * 100 : 0))}%` }}
+          />
+        </div>
+
+        {/* Counting as it goes */}
+        {!finished && isAmrap && (
+          <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              className="rounded-xl"
+              onClick={() => setResult((prev) => ({ ...prev, rounds: prev.rounds + 1 }))}
+            >
+              +1 Round
+            </Button>
+            <Button
+              variant="ghost"
+              className="rounded-xl"
+              disabled={result.rounds === 0}
+              onClick={() => setResult((prev) => ({ ...prev, rounds: Math.max(0, prev.rounds - 1) }))}
+            >
+              Undo
+            </Button>
+          </div>
+        )}
+        {!finished && !isAmrap && (
+          <div className="flex items-center gap-2">
+            <Label className="text-xs">Reps this interval</Label>
+            <input
+              type="number"
+              min={0}
+              className="w-20 rounded border px-1 py-0.5 text-sm"
+              placeholder={current.movement.reps ? String(current.movement.reps) : ""}
+              value={result.reps[intervalIndex] ?? ""}
+              onChange={(e) => setIntervalReps(intervalIndex, parseCount(e.target.value))}
+            />
+          </div>
+        )}
+
+        {/* Controls */}
+        <div className="flex flex-wrap items-center gap-2">
+          <Button className="rounded-xl" disabled={finished} onClick={() => (running ? timer.pause() : timer.start())}>
+            {running ? "Pause" : "Start"}
+          </Button>
+          <Button variant="outline" className="rounded-xl" onClick={reset}>
+            Reset
+          </Button>
+          <Button variant="ghost" className="rounded-xl" onClick={() => timer.adjust(-10)}>-10s</Button>
+          <Button variant="ghost" className="rounded-xl" onClick={() => timer.adjust(10)}>+10s</Button>
+          <Button variant="outline" className="rounded-xl" disabled={finished} onClick={advance}>Skip ▶</Button>
+        </div>
+
+        {/* Final review UI */}
+        {finished && (
+          <div className="space-y-2 mt-6">
+            <h3 className="text-base font-semibold">Finish Workout</h3>
+            {isAmrap ? (
+              <>
+                <p className="text-sm text-slate-600">Full rounds done, and reps into the next round:</p>
+                <div className="flex flex-wrap gap-4 items-center">
+                  <div className="flex gap-1 items-center">
+                    <Label className="text-xs">Rounds</Label>
+                    <input
+                      type="number"
+                      min={0}
+                      className="w-16 rounded border px-1 py-0.5 text-sm"
+                      value={result.rounds}
+                      onChange={(e) => setResult((prev) => ({ ...prev, rounds: parseCount(e.target.value) || 0 }))}
+                    />
+                  </div>
+                  <div className="flex gap-1 items-center">
+                    <Label className="text-xs">+ Reps</Label>
+                    <input
+                      type="number"
+                      min={0}
+                      className="w-16 rounded border px-1 py-0.5 text-sm"
+                      value={result.partialReps}
+                      onChange={(e) => setResult((prev) => ({ ...prev, partialReps: parseCount(e.target.value) }))}
+                    />
+                  </div>
+                </div>
+              </>
+            ) : (
+              <>
+                <p className="text-sm text-slate-600">Review the reps in each interval; blanks use the target:</p>
+                {intervals.map((iv, i) => (
+                  <div key={i} className="flex flex-wrap gap-2 items-center">
+                    <div className="w-44 font-medium">
+                      {i + 1}. {iv.movement.label}
+                      <span className="ml-1 text-xs font-normal text-slate-500">{iv.workSec}s</span>
+                    </div>
+                    <div className="flex gap-1 items-center">
+                      <Label className="text-xs">Reps</Label>
+                      <input
+                        type="number"
+                        min={0}
+                        className="w-16 rounded border px-1 py-0.5 text-sm"
+                        placeholder={iv.movement.reps ? String(iv.movement.reps) : ""}
+                        value={result.reps[i] ?? ""}
+                        onChange={(e) => setIntervalReps(i, parseCount(e.target.value))}
+                      />
+                    </div>
+                  </div>
+                ))}
+              </>
+            )}
+
+            <div className="text-sm text-slate-600">{describeIntervalResult(spec, result)}</div>
+
+            <div className="flex gap-3 mt-4">
+              <Button className="rounded-xl" onClick={() => onFinish(intervalEntries(spec, result, dateISO, uid))}>
+                Save Workout
+              </Button>
+              <Button variant="outline" className="rounded-xl" onClick={() => setFinished(false)}>
+                Back
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
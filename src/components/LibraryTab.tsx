@@ -38,6 +38,24 @@ import {
   WorkoutMode,
   generateId,
 } from "@/lib/workoutLibrary";
+import {
+  DEFAULT_DELOAD_PERCENT,
+  DEFAULT_INCREMENT_SEC,
+  LOAD_STEP_KG,
+  PROGRESSION_SCHEME_LABELS,
+  type ProgressionScheme,
+  type ProgressionSchemeKind,
+} from "@/lib/progression";
+import {
+  GROUP_KIND_LABELS,
+  groupKind,
+  groupLabels,
+  linkWithNext,
+  normalizeGroups,
+  runOf,
+  unlinkFromNext,
+} from "@/lib/supersets";
+import { INTERVAL_DEFAULTS, INTERVAL_MODE_LABELS, INTERVAL_MODES, isIntervalMode } from "@/lib/intervals";
 
 interface Props {
   exercises: Exercise[];
@@ -47,8 +65,11 @@ interface Props {
   onUpdateWorkouts: (workouts: Workout[]) => void;
   onUpdatePlans: (plans: WorkoutPlan[]) => void;
   onSelectPlan: (plan: WorkoutPlan | null) => void;
+  unit?: "kg" | "lb";
 }
 
+const KG_PER_LB = 0.45359237;
+
 export default function LibraryTab({
   exercises,
   workouts,
@@ -57,6 +78,7 @@ export default function LibraryTab({
   onUpdateWorkouts,
   onUpdatePlans,
   onSelectPlan,
+  unit = "kg",
 }: Props) {
   const [activeTab, setActiveTab] = useState<"exercises" | "workouts" | "plans">("exercises");
   const [editingExercise, setEditingExercise] = useState<Exercise | null>(null);
@@ -272,6 +294,7 @@ export default function LibraryTab({
                 <WorkoutEditor
                   workout={editingWorkout}
                   exercises={exercises}
+                  unit={unit}
                   onSave={(w) => handleSaveWorkout(w)}
                   onCancel={() => setEditingWorkout(null)}
                 />
@@ -288,7 +311,7 @@ export default function LibraryTab({
                             <div className="text-sm text-slate-600 mt-1">{w.description}</div>
                           )}
                           <div className="text-xs text-slate-500 mt-1">
-                            {w.mode} • {w.exercises.length} exercises
+                            {isIntervalMode(w.mode) ? INTERVAL_MODE_LABELS[w.mode] : w.mode} • {w.exercises.length} exercises
                             {w.mode === "circuit" && w.rounds && ` • ${w.rounds} rounds`}
                           </div>
                         </div>
@@ -545,6 +568,7 @@ function ExerciseCard({
             <div className="font-semibold">{exercise.name}</div>
             <div className="text-sm text-slate-600 mt-1">
               {exercise.category} • {exercise.muscleGroups.join(", ") || "No muscle groups"}
+              {exercise.isUnilateral && " • per side"}
             </div>
             {exercise.equipment && exercise.equipment.length > 0 && (
               <div className="text-xs text-slate-500 mt-1">
@@ -596,6 +620,7 @@ function ExerciseEditor({
   onCancel: () => void;
 }) {
   const [state, setState] = useState<Exercise>(exercise);
+  const [equipmentText, setEquipmentText] = useState((exercise.equipment ?? []).join(", "));
 
   const categories: ExerciseCategory[] = [
     "strength",
@@ -740,6 +765,19 @@ function ExerciseEditor({
           </div>
         )}
 
+        <div>
+          <Label>Equipment</Label>
+          <Input
+            value={equipmentText}
+            onChange={(e) => {
+              setEquipmentText(e.target.value);
+              const equipment = e.target.value.split(",").map((item) => item.trim()).filter(Boolean);
+              setState({ ...state, equipment: equipment.length > 0 ? equipment : undefined });
+            }}
+            placeholder="e.g., Barbell, Squat Rack"
+          />
+        </div>
+
         <div>
           <Label>Default Rest (seconds)</Label>
           <Input
@@ -783,6 +821,34 @@ function ExerciseEditor({
           </div>
         )}
 
+        {!state.isTimed && (
+          <div className="flex items-center gap-3 p-3 border rounded-lg bg-slate-50">
+            <input
+              type="checkbox"
+              id="warmup"
+              checked={state.warmup ?? false}
+              onChange={(e) => setState({ ...state, warmup: e.target.checked || undefined })}
+              className="w-4 h-4"
+            />
+            <Label htmlFor="warmup" className="cursor-pointer font-medium">
+              Warm-up sets before working sets
+            </Label>
+          </div>
+        )}
+
+        <div className="flex items-center gap-3 p-3 border rounded-lg bg-slate-50">
+          <input
+            type="checkbox"
+            id="isUnilateral"
+            checked={state.isUnilateral ?? false}
+            onChange={(e) => setState({ ...state, isUnilateral: e.target.checked || undefined })}
+            className="w-4 h-4"
+          />
+          <Label htmlFor="isUnilateral" className="cursor-pointer font-medium">
+            One side at a time (log left and right)
+          </Label>
+        </div>
+
         <DialogFooter>
           <Button variant="outline" onClick={onCancel} className="rounded-xl">
             Cancel
@@ -806,11 +872,13 @@ function ExerciseEditor({
 function WorkoutEditor({
   workout,
   exercises,
+  unit,
   onSave,
   onCancel,
 }: {
   workout: Workout;
   exercises: Exercise[];
+  unit: "kg" | "lb";
   onSave: (w: Workout) => void;
   onCancel: () => void;
 }) {
@@ -819,6 +887,10 @@ function WorkoutEditor({
   const [selectedExerciseId, setSelectedExerciseId] = useState<string>("");
   const [exerciseSearch, setExerciseSearch] = useState<string>("");
   const [exerciseGroupFilter, setExerciseGroupFilter] = useState<string>("all");
+  const labels = groupLabels(state.exercises);
+  const intervalMode = isIntervalMode(state.mode) ? state.mode : null;
+  // Supersets and progression only apply to exercises done in sets
+  const inSets = state.mode === "sets-reps" || state.mode === "timed";
 
   function addExercise() {
     if (!selectedExerciseId) return;
@@ -831,8 +903,14 @@ function WorkoutEditor({
     };
 
     // Set defaults based on exercise and workout mode
-    if (state.mode === "circuit") {
-      newWorkoutExercise.circuitSeconds = exercise.defaultSeconds ?? exercise.defaultRepRange?.[0] ?? 45;
+    if (intervalMode) {
+      newWorkoutExercise.reps = exercise.defaultRepRange?.[0];
+    } else if (state.mode === "circuit") {
+      if (exercise.defaultRepRange && !exercise.isTimed) {
+        newWorkoutExercise.repRange = exercise.defaultRepRange;
+      } else {
+        newWorkoutExercise.circuitSeconds = exercise.defaultSeconds ?? 45;
+      }
     } else if (state.mode === "timed") {
       newWorkoutExercise.seconds = exercise.defaultSeconds ?? 30;
       newWorkoutExercise.rounds = 1;
@@ -858,7 +936,15 @@ function WorkoutEditor({
   function removeExercise(index: number) {
     setState({
       ...state,
-      exercises: state.exercises.filter((_, i) => i !== index),
+      exercises: normalizeGroups(state.exercises.filter((_, i) => i !== index)),
+    });
+  }
+
+  function toggleLinkWithNext(index: number) {
+    const linked = runOf(state.exercises, index).includes(index + 1);
+    setState({
+      ...state,
+      exercises: linked ? unlinkFromNext(state.exercises, index) : linkWithNext(state.exercises, index),
     });
   }
 
@@ -875,7 +961,7 @@ function WorkoutEditor({
 
     const newExercises = [...state.exercises];
     [newExercises[index], newExercises[newIndex]] = [newExercises[newIndex], newExercises[index]];
-    setState({ ...state, exercises: newExercises });
+    setState({ ...state, exercises: normalizeGroups(newExercises) });
   }
 
   return (
@@ -904,12 +990,22 @@ function WorkoutEditor({
                 setState({
                   ...state,
                   mode,
+                  // Circuit and interval rounds mean different things
+                  rounds: mode === state.mode ? state.rounds : undefined,
                   exercises: state.exercises.map((ex) => {
                     const clean: import("@/lib/workoutLibrary").WorkoutExercise = {
                       exerciseId: ex.exerciseId,
+                      // Circuits and intervals have no supersets
+                      group: mode === "circuit" || isIntervalMode(mode) ? undefined : ex.group,
                     };
-                    if (mode === "circuit") {
-                      clean.circuitSeconds = ex.exercise?.defaultSeconds ?? 45;
+                    if (isIntervalMode(mode)) {
+                      clean.reps = ex.exercise?.defaultRepRange?.[0];
+                    } else if (mode === "circuit") {
+                      if (ex.exercise?.defaultRepRange && !ex.exercise.isTimed) {
+                        clean.repRange = ex.exercise.defaultRepRange;
+                      } else {
+                        clean.circuitSeconds = ex.exercise?.defaultSeconds ?? 45;
+                      }
                     } else if (mode === "timed") {
                       clean.seconds = ex.exercise?.defaultSeconds ?? 30;
                     } else {
@@ -931,6 +1027,9 @@ function WorkoutEditor({
                 <SelectItem value="sets-reps">Sets/Reps</SelectItem>
                 <SelectItem value="timed">Timed</SelectItem>
                 <SelectItem value="circuit">Circuit</SelectItem>
+                {INTERVAL_MODES.map((m) => (
+                  <SelectItem key={m} value={m}>{INTERVAL_MODE_LABELS[m]}</SelectItem>
+                ))}
               </SelectContent>
             </Select>
           </div>
@@ -986,6 +1085,94 @@ function WorkoutEditor({
           </div>
         )}
 
+        {intervalMode && (
+          <div className="grid grid-cols-3 gap-3 p-3 bg-slate-50 rounded-lg">
+            {intervalMode === "amrap" ? (
+              <div>
+                <Label>Time Cap (minutes)</Label>
+                <Input
+                  type="number"
+                  value={state.timeCapSec !== undefined ? state.timeCapSec / 60 : ""}
+                  placeholder={String(INTERVAL_DEFAULTS.amrap.workSec / 60)}
+                  onChange={(e) =>
+                    setState({ ...state, timeCapSec: e.target.value ? Math.round(Number(e.target.value) * 60) : undefined })
+                  }
+                />
+              </div>
+            ) : (
+              <>
+                <div>
+                  <Label>{intervalMode === "emom" ? "Intervals" : intervalMode === "ladder" ? "Rungs" : "Rounds"}</Label>
+                  <Input
+                    type="number"
+                    value={state.rounds ?? ""}
+                    placeholder={String(INTERVAL_DEFAULTS[intervalMode].rounds)}
+                    onChange={(e) =>
+                      setState({ ...state, rounds: e.target.value ? Number(e.target.value) : undefined })
+                    }
+                  />
+                </div>
+                <div>
+                  <Label>
+                    {intervalMode === "emom" ? "Every (seconds)" : intervalMode === "ladder" ? "First Rung (seconds)" : "Work (seconds)"}
+                  </Label>
+                  <Input
+                    type="number"
+                    value={state.intervalSec ?? ""}
+                    placeholder={String(INTERVAL_DEFAULTS[intervalMode].workSec)}
+                    onChange={(e) =>
+                      setState({ ...state, intervalSec: e.target.value ? Number(e.target.value) : undefined })
+                    }
+                  />
+                </div>
+                {intervalMode !== "emom" && (
+                  <div>
+                    <Label>Rest (seconds)</Label>
+                    <Input
+                      type="number"
+                      value={state.intervalRestSec ?? ""}
+                      placeholder={String(INTERVAL_DEFAULTS[intervalMode].restSec)}
+                      onChange={(e) =>
+                        setState({ ...state, intervalRestSec: e.target.value ? Number(e.target.value) : undefined })
+                      }
+                    />
+                  </div>
+                )}
+                {intervalMode === "ladder" && (
+                  <>
+                    <div>
+                      <Label>Step (seconds)</Label>
+                      <Input
+                        type="number"
+                        value={state.ladderStepSec ?? ""}
+                        placeholder={String(INTERVAL_DEFAULTS.ladder.stepSec)}
+                        onChange={(e) =>
+                          setState({ ...state, ladderStepSec: e.target.value ? Number(e.target.value) : undefined })
+                        }
+                      />
+                    </div>
+                    <label className="col-span-2 flex items-center gap-2 text-sm self-end pb-2">
+                      <input
+                        type="checkbox"
+                        checked={!!state.ladderPyramid}
+                        onChange={(e) => setState({ ...state, ladderPyramid: e.target.checked || undefined })}
+                      />
+                      Back down after the top rung
+                    </label>
+                  </>
+                )}
+              </>
+            )}
+            <p className="col-span-3 text-xs text-slate-500">
+              {intervalMode === "emom"
+                ? "The exercises take turns, one per interval; rest for whatever is left of it."
+                : intervalMode === "amrap"
+                  ? "Reps below are per round. Score is full rounds plus reps into the next one."
+                  : "The exercises take turns, one per work interval. Reps below are the target per interval."}
+            </p>
+          </div>
+        )}
+
         <div className="border-t pt-4">
           <div className="flex justify-between items-center mb-3">
             <Label className="text-base font-semibold">Exercises ({state.exercises.length})</Label>
@@ -1154,107 +1341,145 @@ function WorkoutEditor({
             {state.exercises.map((we, index) => {
               const exercise = exercises.find((e) => e.id === we.exerciseId);
               if (!exercise) return null;
+              const label = labels[index];
+              const linkedToNext = runOf(state.exercises, index).includes(index + 1);
 
               return (
-                <Card key={index} className="rounded-lg border">
-                  <CardContent className="p-4 space-y-3">
-                    <div className="flex justify-between items-start">
-                      <div className="flex-1">
-                        <div className="font-semibold">{exercise.name}</div>
-                        <div className="text-xs text-slate-500 mt-1">
-                          {exercise.category} • {exercise.muscleGroups.join(", ")}
+                <React.Fragment key={index}>
+                  <Card className={`rounded-lg border ${label ? "border-l-4 border-l-blue-400" : ""}`}>
+                    <CardContent className="p-4 space-y-3">
+                      <div className="flex justify-between items-start">
+                        <div className="flex-1">
+                          <div className="font-semibold">
+                            {label && <span className="mr-1 text-blue-700">{label}</span>}
+                            {exercise.name}
+                            {label && runOf(state.exercises, index)[0] === index && (
+                              <span className="ml-2 text-xs font-normal text-slate-500">
+                                {GROUP_KIND_LABELS[groupKind(runOf(state.exercises, index).length)]}
+                              </span>
+                            )}
+                          </div>
+                          <div className="text-xs text-slate-500 mt-1">
+                            {exercise.category} • {exercise.muscleGroups.join(", ")}
+                          </div>
+                        </div>
+                        <div className="flex gap-1">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => moveExercise(index, "up")}
+                            disabled={index === 0}
+                            className="rounded-lg"
+                          >
+                            ↑
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => moveExercise(index, "down")}
+                            disabled={index === state.exercises.length - 1}
+                            className="rounded-lg"
+                          >
+                            ↓
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => removeExercise(index)}
+                            className="rounded-lg text-red-600"
+                          >
+                            ×
+                          </Button>
                         </div>
                       </div>
-                      <div className="flex gap-1">
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          onClick={() => moveExercise(index, "up")}
-                          disabled={index === 0}
-                          className="rounded-lg"
-                        >
-                          ↑
-                        </Button>
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          onClick={() => moveExercise(index, "down")}
-                          disabled={index === state.exercises.length - 1}
-                          className="rounded-lg"
-                        >
-                          ↓
-                        </Button>
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          onClick={() => removeExercise(index)}
-                          className="rounded-lg text-red-600"
-                        >
-                          ×
-                        </Button>
-                      </div>
-                    </div>
-
-                    {state.mode === "circuit" && (
-                      <div>
-                        <Label>Circuit Duration (seconds)</Label>
-                        <Input
-                          type="number"
-                          value={we.circuitSeconds ?? ""}
-                          onChange={(e) =>
-                            updateWorkoutExercise(index, {
-                              circuitSeconds: e.target.value ? Number(e.target.value) : undefined,
-                            })
-                          }
-                        />
-                      </div>
-                    )}
 
-                    {state.mode === "timed" && (
-                      <div className="grid grid-cols-2 gap-3">
-                        <div>
-                          <Label>Duration (seconds)</Label>
-                          <Input
-                            type="number"
-                            value={we.seconds ?? ""}
-                            onChange={(e) =>
-                              updateWorkoutExercise(index, {
-                                seconds: e.target.value ? Number(e.target.value) : undefined,
-                              })
-                            }
-                          />
-                        </div>
-                        <div>
-                          <Label>Rounds</Label>
-                          <Input
-                            type="number"
-                            value={we.rounds ?? ""}
-                            onChange={(e) =>
-                              updateWorkoutExercise(index, {
-                                rounds: e.target.value ? Number(e.target.value) : undefined,
-                              })
-                            }
-                          />
+                      {state.mode === "circuit" && (
+                        <div className="grid grid-cols-4 gap-3">
+                          <div>
+                            <Label>Duration (seconds)</Label>
+                            <Input
+                              type="number"
+                              value={we.circuitSeconds ?? ""}
+                              placeholder="Reps"
+                              onChange={(e) =>
+                                updateWorkoutExercise(index, {
+                                  circuitSeconds: e.target.value ? Number(e.target.value) : undefined,
+                                })
+                              }
+                            />
+                          </div>
+                          <div>
+                            <Label>Rep Min</Label>
+                            <Input
+                              type="number"
+                              value={we.repRange?.[0] ?? ""}
+                              disabled={we.circuitSeconds !== undefined}
+                              onChange={(e) => {
+                                const val = e.target.value ? Number(e.target.value) : undefined;
+                                updateWorkoutExercise(index, {
+                                  repRange: val === undefined ? undefined : [val, Math.max(val, we.repRange?.[1] ?? val)],
+                                });
+                              }}
+                            />
+                          </div>
+                          <div>
+                            <Label>Rep Max</Label>
+                            <Input
+                              type="number"
+                              value={we.repRange?.[1] ?? ""}
+                              disabled={we.circuitSeconds !== undefined || we.repRange === undefined}
+                              onChange={(e) => {
+                                const val = e.target.value ? Number(e.target.value) : undefined;
+                                if (val !== undefined && we.repRange) {
+                                  updateWorkoutExercise(index, { repRange: [we.repRange[0], val] });
+                                }
+                              }}
+                            />
+                          </div>
+                          <div>
+                            <Label>Load ({unit})</Label>
+                            <Input
+                              type="number"
+                              value={
+                                we.circuitWeightKg !== undefined
+                                  ? Math.round((unit === "lb" ? we.circuitWeightKg / KG_PER_LB : we.circuitWeightKg) * 10) / 10
+                                  : ""
+                              }
+                              placeholder="None"
+                              onChange={(e) =>
+                                updateWorkoutExercise(index, {
+                                  circuitWeightKg: e.target.value
+                                    ? Math.round(Number(e.target.value) * (unit === "lb" ? KG_PER_LB : 1) * 100) / 100
+                                    : undefined,
+                                })
+                              }
+                            />
+                          </div>
+                          <p className="col-span-4 text-xs text-slate-500">
+                            Leave the duration blank for a rep station, which moves on when tapped done.
+                          </p>
                         </div>
-                      </div>
-                    )}
+                      )}
 
-                    {state.mode === "sets-reps" && (
-                      <div className="grid grid-cols-4 gap-3">
+                      {intervalMode && (
                         <div>
-                          <Label>Sets</Label>
+                          <Label>{intervalMode === "amrap" ? "Reps per Round" : "Reps per Interval"}</Label>
                           <Input
                             type="number"
-                            value={we.sets ?? ""}
+                            value={we.reps ?? ""}
+                            placeholder={exercise.isTimed ? "Timed" : ""}
                             onChange={(e) =>
                               updateWorkoutExercise(index, {
-                                sets: e.target.value ? Number(e.target.value) : undefined,
+                                reps: e.target.value ? Number(e.target.value) : undefined,
                               })
                             }
                           />
                         </div>
-                        {exercise.isTimed ? (
-                          <div className="col-span-3">
+                      )}
+
+                      {state.mode === "timed" && (
+                        <div className="grid grid-cols-2 gap-3">
+                          <div>
                             <Label>Duration (seconds)</Label>
                             <Input
                               type="number"
@@ -1266,57 +1491,121 @@ function WorkoutEditor({
                               }
                             />
                           </div>
-                        ) : (
-                          <>
-                            <div>
-                              <Label>Rep Min</Label>
-                              <Input
-                                type="number"
-                                value={we.repRange?.[0] ?? we.reps ?? ""}
-                                onChange={(e) => {
-                                  const val = e.target.value ? Number(e.target.value) : undefined;
-                                  if (val !== undefined) {
-                                    updateWorkoutExercise(index, {
-                                      repRange: [val, we.repRange?.[1] ?? val],
-                                      reps: undefined,
-                                    });
-                                  }
-                                }}
-                              />
-                            </div>
-                            <div>
-                              <Label>Rep Max</Label>
-                              <Input
-                                type="number"
-                                value={we.repRange?.[1] ?? ""}
-                                onChange={(e) => {
-                                  const val = e.target.value ? Number(e.target.value) : undefined;
-                                  if (val !== undefined && we.repRange?.[0] !== undefined) {
-                                    updateWorkoutExercise(index, {
-                                      repRange: [we.repRange[0], val],
-                                    });
-                                  }
-                                }}
-                              />
-                            </div>
-                            <div>
-                              <Label>Rest (sec)</Label>
+                          <div>
+                            <Label>Rounds</Label>
+                            <Input
+                              type="number"
+                              value={we.rounds ?? ""}
+                              onChange={(e) =>
+                                updateWorkoutExercise(index, {
+                                  rounds: e.target.value ? Number(e.target.value) : undefined,
+                                })
+                              }
+                            />
+                          </div>
+                        </div>
+                      )}
+
+                      {state.mode === "sets-reps" && (
+                        <div className="grid grid-cols-4 gap-3">
+                          <div>
+                            <Label>Sets</Label>
+                            <Input
+                              type="number"
+                              value={we.sets ?? ""}
+                              onChange={(e) =>
+                                updateWorkoutExercise(index, {
+                                  sets: e.target.value ? Number(e.target.value) : undefined,
+                                })
+                              }
+                            />
+                          </div>
+                          {exercise.isTimed ? (
+                            <div className="col-span-3">
+                              <Label>Duration (seconds)</Label>
                               <Input
                                 type="number"
-                                value={we.restSec ?? ""}
+                                value={we.seconds ?? ""}
                                 onChange={(e) =>
                                   updateWorkoutExercise(index, {
-                                    restSec: e.target.value ? Number(e.target.value) : undefined,
+                                    seconds: e.target.value ? Number(e.target.value) : undefined,
                                   })
                                 }
                               />
                             </div>
-                          </>
-                        )}
-                      </div>
-                    )}
-                  </CardContent>
-                </Card>
+                          ) : (
+                            <>
+                              <div>
+                                <Label>Rep Min</Label>
+                                <Input
+                                  type="number"
+                                  value={we.repRange?.[0] ?? we.reps ?? ""}
+                                  onChange={(e) => {
+                                    const val = e.target.value ? Number(e.target.value) : undefined;
+                                    if (val !== undefined) {
+                                      updateWorkoutExercise(index, {
+                                        repRange: [val, we.repRange?.[1] ?? val],
+                                        reps: undefined,
+                                      });
+                                    }
+                                  }}
+                                />
+                              </div>
+                              <div>
+                                <Label>Rep Max</Label>
+                                <Input
+                                  type="number"
+                                  value={we.repRange?.[1] ?? ""}
+                                  onChange={(e) => {
+                                    const val = e.target.value ? Number(e.target.value) : undefined;
+                                    if (val !== undefined && we.repRange?.[0] !== undefined) {
+                                      updateWorkoutExercise(index, {
+                                        repRange: [we.repRange[0], val],
+                                      });
+                                    }
+                                  }}
+                                />
+                              </div>
+                              <div>
+                                <Label>Rest (sec)</Label>
+                                <Input
+                                  type="number"
+                                  value={we.restSec ?? ""}
+                                  onChange={(e) =>
+                                    updateWorkoutExercise(index, {
+                                      restSec: e.target.value ? Number(e.target.value) : undefined,
+                                    })
+                                  }
+                                />
+                              </div>
+                            </>
+                          )}
+                        </div>
+                      )}
+
+                      {inSets && (
+                        <ProgressionEditor
+                          scheme={we.progression}
+                          timed={state.mode === "timed" || !!exercise.isTimed}
+                          unit={unit}
+                          onChange={(progression) => updateWorkoutExercise(index, { progression })}
+                        />
+                      )}
+                    </CardContent>
+                  </Card>
+                  {inSets && index < state.exercises.length - 1 && (
+                    <div className="flex justify-center">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => toggleLinkWithNext(index)}
+                        className="rounded-lg text-xs text-slate-500"
+                      >
+                        {linkedToNext ? "Unlink from next" : "Superset with next"}
+                      </Button>
+                    </div>
+                  )}
+                </React.Fragment>
               );
             })}
 
@@ -1347,6 +1636,104 @@ function WorkoutEditor({
   );
 }
 
+// Progression scheme of one exercise in a workout
+function ProgressionEditor({
+  scheme,
+  timed,
+  unit,
+  onChange,
+}: {
+  scheme?: ProgressionScheme;
+  timed: boolean;
+  unit: "kg" | "lb";
+  onChange: (scheme: ProgressionScheme | undefined) => void;
+}) {
+  const kinds: ProgressionSchemeKind[] = timed ? ["time"] : ["double", "linear", "wave", "fixed"];
+  const perUnit = unit === "lb" ? KG_PER_LB : 1;
+  const numberOrUndefined = (v: string) => (v === "" ? undefined : Number(v));
+
+  return (
+    <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+      <div className="col-span-2">
+        <Label>Progression</Label>
+        <Select
+          value={scheme?.kind ?? "none"}
+          onValueChange={(v) =>
+            onChange(
+              v === "none"
+                ? undefined
+                : { ...scheme, kind: v as ProgressionSchemeKind, since: new Date().toISOString().slice(0, 10) }
+            )
+          }
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="none">{timed ? "None" : "Default (double progression)"}</SelectItem>
+            {kinds.map((kind) => (
+              <SelectItem key={kind} value={kind}>
+                {PROGRESSION_SCHEME_LABELS[kind]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      {scheme?.kind === "time" && (
+        <div>
+          <Label>Step (sec)</Label>
+          <Input
+            type="number"
+            value={scheme.incrementSec ?? ""}
+            placeholder={String(DEFAULT_INCREMENT_SEC)}
+            onChange={(e) => onChange({ ...scheme, incrementSec: numberOrUndefined(e.target.value) })}
+          />
+        </div>
+      )}
+      {scheme && scheme.kind !== "time" && scheme.kind !== "fixed" && (
+        <div>
+          <Label>Step ({unit})</Label>
+          <Input
+            type="number"
+            value={scheme.incrementKg === undefined ? "" : Math.round((scheme.incrementKg / perUnit) * 100) / 100}
+            placeholder={String(Math.round((LOAD_STEP_KG[unit] / perUnit) * 100) / 100)}
+            onChange={(e) => {
+              const step = numberOrUndefined(e.target.value);
+              onChange({ ...scheme, incrementKg: step === undefined ? undefined : step * perUnit });
+            }}
+          />
+        </div>
+      )}
+      {scheme && scheme.kind !== "wave" && (
+        <div>
+          <Label>Deload after misses</Label>
+          <Input
+            type="number"
+            min={1}
+            value={scheme.deloadAfterFailures ?? ""}
+            placeholder="Never"
+            onChange={(e) => onChange({ ...scheme, deloadAfterFailures: numberOrUndefined(e.target.value) })}
+          />
+        </div>
+      )}
+      {scheme?.deloadAfterFailures !== undefined && scheme.kind !== "wave" && (
+        <div>
+          <Label>Deload by (%)</Label>
+          <Input
+            type="number"
+            value={scheme.deloadPercent === undefined ? "" : Math.round(scheme.deloadPercent * 100)}
+            placeholder={String(DEFAULT_DELOAD_PERCENT * 100)}
+            onChange={(e) => {
+              const percent = numberOrUndefined(e.target.value);
+              onChange({ ...scheme, deloadPercent: percent === undefined ? undefined : percent / 100 });
+            }}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
+
 // Plan Editor Component (simplified)
 function PlanEditor({
   plan,
@@ -21,7 +21,9 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import PlanCalendar from "@/components/PlanCalendar";
+import DeloadBanner from "@/components/DeloadBanner";
 import { WorkoutPlan } from "@/lib/workoutLibrary";
+import type { DeloadChoice, DeloadMode, Stall } from "@/lib/stalls";
 
 export interface PlanDay {
   day: number;
@@ -47,6 +49,14 @@ interface Props {
   availablePlans: WorkoutPlan[];
   onCancelPlan: () => void;
   onStartNewPlan: (planId: string) => void;
+
+  // stall detection
+  stalls: Stall[];
+  deloadMode: DeloadMode;
+  deloadChoices?: Record<string, DeloadChoice>;
+  unit: "kg" | "lb";
+  onDeloadChoice: (stall: Stall, choice: DeloadChoice | undefined) => void;
+  onDeloadModeChange: (mode: DeloadMode) => void;
 }
 
 export default function PlanTab({
@@ -63,6 +73,12 @@ export default function PlanTab({
   availablePlans,
   onCancelPlan,
   onStartNewPlan,
+  stalls,
+  deloadMode,
+  deloadChoices,
+  unit,
+  onDeloadChoice,
+  onDeloadModeChange,
 }: Props) {
   const [month, setMonth] = React.useState(new Date());
   const [showPlanSelector, setShowPlanSelector] = React.useState(false);
@@ -70,6 +86,15 @@ export default function PlanTab({
 
   return (
     <div className="space-y-6">
+      <DeloadBanner
+        stalls={stalls}
+        mode={deloadMode}
+        choices={deloadChoices}
+        unit={unit}
+        onChoice={onDeloadChoice}
+        onModeChange={onDeloadModeChange}
+      />
+
       {/* Active Plan Management */}
       <Card className="rounded-2xl shadow-sm">
         <CardHeader>
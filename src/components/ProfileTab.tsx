@@ -6,9 +6,30 @@ import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Upload, Download, User } from "lucide-react";
 import { WorkoutPlan } from "@/lib/workoutLibrary";
+import type { E1RMFormula, WorkoutEntry } from "@/lib/pr";
+import {
+  DEFAULT_TARGET_RPE,
+  EFFORT_SCALE_LABELS,
+  PROGRESSION_MODE_LABELS,
+  type EffortScale,
+  type ProgressionMode,
+} from "@/lib/progression";
+import { DEFAULT_STALL_SESSIONS, DELOAD_MODE_LABELS, type DeloadChoice, type DeloadMode } from "@/lib/stalls";
+import { DEFAULT_IMBALANCE_THRESHOLD } from "@/lib/asymmetry";
+import type { WarmupTemplates } from "@/lib/warmups";
+import WarmupTemplatesEditor from "@/components/WarmupTemplatesEditor";
+import type { LoadingSetups } from "@/lib/loading";
+import EquipmentLoadingEditor from "@/components/EquipmentLoadingEditor";
+import QuarantinePanel from "@/components/QuarantinePanel";
+import { DEFAULT_CUE_SETTINGS, getCueEngine, type CueSettings } from "@/lib/cues";
+import { notificationAccess, requestNotificationAccess } from "@/lib/notifications";
+import { wakeLockSupported } from "@/lib/wakeLock";
 
 type Goal = "strength" | "hypertrophy" | "endurance" | "general" | "";
 
+/** Seconds of countdown beeps to choose from; 0 turns them off */
+const COUNTDOWN_OPTIONS = [0, 3, 5, 10];
+
 export interface ProfileShape {
   name: string;
   age?: number | "";
@@ -21,6 +42,19 @@ export interface ProfileShape {
   daysPerWeek?: number | "";
   preferredDays?: string[];
   programStartDate?: string; // YYYY-MM-DD
+  e1rmFormula?: E1RMFormula;
+  progressionMode?: ProgressionMode;
+  targetRpe?: number;
+  effortScale?: EffortScale;
+  deloadMode?: DeloadMode;
+  stallSessions?: number;
+  deloadChoices?: Record<string, DeloadChoice>;
+  warmupTemplates?: WarmupTemplates;
+  loadingSetups?: Partial<Record<"kg" | "lb", LoadingSetups>>;
+  imbalanceThreshold?: number;
+  cues?: CueSettings;
+  keepScreenAwake?: boolean;
+  restNotifications?: boolean;
 }
 
 interface Props {
@@ -37,6 +71,8 @@ interface Props {
   onImportClick: () => void;
   fileInputRef: React.RefObject<HTMLInputElement>;
   onImportFile: (e: React.ChangeEvent<HTMLInputElement>) => void;
+  onImportFromApp: () => void;
+  onRestoreQuarantined: (entries: WorkoutEntry[]) => void;
 
   // unit conversion helpers
   fromKg: (kg: number, unit: "kg" | "lb") => number;
@@ -46,8 +82,13 @@ interface Props {
   activePlan: WorkoutPlan | null;
   availablePlans: WorkoutPlan[];
   onSelectPlan: (planId: string) => void;
+
+  // equipment named in the library, for loading setups
+  equipmentNames: string[];
 }
 
+const TARGET_RPE_OPTIONS = [6, 6.5, 7, 7.5, 8, 8.5, 9, 9.5, 10];
+
 export default function ProfileTab({
   profile,
   unit,
@@ -58,12 +99,28 @@ export default function ProfileTab({
   onImportClick,
   fileInputRef,
   onImportFile,
+  onImportFromApp,
+  onRestoreQuarantined,
   fromKg,
   toKg,
   activePlan,
   availablePlans,
   onSelectPlan,
+  equipmentNames,
 }: Props) {
+  const cues = { ...DEFAULT_CUE_SETTINGS, ...profile.cues };
+  const [access, setAccess] = React.useState(notificationAccess);
+
+  async function setRestNotifications(on: boolean) {
+    if (!on) {
+      onChange("restNotifications", false);
+      return;
+    }
+    const granted = await requestNotificationAccess();
+    setAccess(granted);
+    onChange("restNotifications", granted === "granted");
+  }
+
   return (
     <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
       <Card className="rounded-2xl shadow-sm">
@@ -255,15 +312,250 @@ export default function ProfileTab({
             </div>
           </div>
 
-          <div className="flex items-center gap-2 pt-2">
+          <div className="grid grid-cols-3 gap-3">
+            <div className="col-span-3 sm:col-span-1">
+              <Label htmlFor="progressionMode">Progression</Label>
+              <Select
+                value={profile.progressionMode ?? "linear"}
+                onValueChange={(v) => onChange("progressionMode", v as ProgressionMode)}
+              >
+                <SelectTrigger id="progressionMode"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(PROGRESSION_MODE_LABELS) as ProgressionMode[]).map((mode) => (
+                    <SelectItem key={mode} value={mode}>{PROGRESSION_MODE_LABELS[mode]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="targetRpe">Target RPE</Label>
+              <Select
+                value={String(profile.targetRpe ?? DEFAULT_TARGET_RPE)}
+                onValueChange={(v) => onChange("targetRpe", Number(v))}
+                disabled={profile.progressionMode !== "rpe"}
+              >
+                <SelectTrigger id="targetRpe"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {TARGET_RPE_OPTIONS.map((rpe) => (
+                    <SelectItem key={rpe} value={String(rpe)}>{rpe}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="effortScale">Log effort as</Label>
+              <Select
+                value={profile.effortScale ?? "rpe"}
+                onValueChange={(v) => onChange("effortScale", v as EffortScale)}
+              >
+                <SelectTrigger id="effortScale"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(EFFORT_SCALE_LABELS) as EffortScale[]).map((scale) => (
+                    <SelectItem key={scale} value={scale}>{EFFORT_SCALE_LABELS[scale]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          {profile.progressionMode === "rpe" && (
+            <p className="text-xs text-slate-500">
+              Next loads follow last session's top set: easier than the target adds load, harder takes some off.
+              Sets without an effort rating follow the exercise's progression scheme.
+            </p>
+          )}
+
+          <div className="grid grid-cols-3 gap-3">
+            <div className="col-span-3 sm:col-span-1">
+              <Label htmlFor="deloadMode">Stall deloads</Label>
+              <Select
+                value={profile.deloadMode ?? "auto"}
+                onValueChange={(v) => onChange("deloadMode", v as DeloadMode)}
+              >
+                <SelectTrigger id="deloadMode"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(DELOAD_MODE_LABELS) as DeloadMode[]).map((mode) => (
+                    <SelectItem key={mode} value={mode}>{DELOAD_MODE_LABELS[mode]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="stallSessions">Stalled after (sessions)</Label>
+              <Input
+                id="stallSessions"
+                type="number"
+                min={2}
+                value={profile.stallSessions ?? DEFAULT_STALL_SESSIONS}
+                onChange={(e) => onChange("stallSessions", e.target.value ? Math.max(2, Number(e.target.value)) : undefined)}
+                disabled={profile.deloadMode === "off"}
+              />
+            </div>
+            <div>
+              <Label htmlFor="imbalanceThreshold">Left/right alert (%)</Label>
+              <Input
+                id="imbalanceThreshold"
+                type="number"
+                min={1}
+                max={100}
+                value={Math.round((profile.imbalanceThreshold ?? DEFAULT_IMBALANCE_THRESHOLD) * 100)}
+                onChange={(e) =>
+                  onChange(
+                    "imbalanceThreshold",
+                    e.target.value ? Math.min(100, Math.max(1, Number(e.target.value))) / 100 : undefined
+                  )
+                }
+              />
+            </div>
+          </div>
+
+          <WarmupTemplatesEditor
+            templates={profile.warmupTemplates}
+            onChange={(templates) => onChange("warmupTemplates", templates)}
+          />
+
+          <EquipmentLoadingEditor
+            equipment={equipmentNames}
+            unit={unit}
+            setups={profile.loadingSetups?.[unit]}
+            onChange={(setups) => onChange("loadingSetups", { ...profile.loadingSetups, [unit]: setups })}
+          />
+
+          <div className="space-y-2">
+            <div className="text-sm font-medium">Timer sounds</div>
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+              <div>
+                <Label htmlFor="cueSound">Sound</Label>
+                <Select
+                  value={cues.muted ? "muted" : "on"}
+                  onValueChange={(v) => onChange("cues", { ...profile.cues, muted: v === "muted" })}
+                >
+                  <SelectTrigger id="cueSound"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="on">On</SelectItem>
+                    <SelectItem value="muted">Muted</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="cueVolume">Volume (%)</Label>
+                <Input
+                  id="cueVolume"
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={Math.round(cues.volume * 100)}
+                  onChange={(e) =>
+                    onChange("cues", {
+                      ...profile.cues,
+                      volume: e.target.value ? Math.min(100, Math.max(0, Number(e.target.value))) / 100 : undefined,
+                    })
+                  }
+                />
+              </div>
+              <div>
+                <Label htmlFor="cueCountdown">Countdown beeps</Label>
+                <Select
+                  value={String(cues.countdownSec)}
+                  onValueChange={(v) => onChange("cues", { ...profile.cues, countdownSec: Number(v) })}
+                >
+                  <SelectTrigger id="cueCountdown"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {COUNTDOWN_OPTIONS.map((sec) => (
+                      <SelectItem key={sec} value={String(sec)}>{sec === 0 ? "Off" : `Last ${sec}s`}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="cueVoice">Voice cues</Label>
+                <Select
+                  value={cues.voice ? "on" : "off"}
+                  onValueChange={(v) => onChange("cues", { ...profile.cues, voice: v === "on" })}
+                >
+                  <SelectTrigger id="cueVoice"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="off">Off</SelectItem>
+                    <SelectItem value="on">Spoken</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                className="rounded-xl"
+                onClick={() => {
+                  const engine = getCueEngine();
+                  engine.configure(profile.cues);
+                  engine.play("roundComplete");
+                  engine.say("Next: Box Jumps, 45 seconds");
+                }}
+              >
+                Test sounds
+              </Button>
+              <span className="text-xs text-slate-500">
+                Beeps count down the end of each work and rest period; voice cues name what's next.
+              </span>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <div className="text-sm font-medium">During sessions</div>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label htmlFor="keepScreenAwake">Screen</Label>
+                <Select
+                  value={profile.keepScreenAwake === false ? "off" : "on"}
+                  onValueChange={(v) => onChange("keepScreenAwake", v === "on")}
+                  disabled={!wakeLockSupported()}
+                >
+                  <SelectTrigger id="keepScreenAwake"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="on">Keep on</SelectItem>
+                    <SelectItem value="off">Let it dim</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="restNotifications">Rest alerts</Label>
+                <Select
+                  value={profile.restNotifications ? "on" : "off"}
+                  onValueChange={(v) => void setRestNotifications(v === "on")}
+                  disabled={access === "unsupported"}
+                >
+                  <SelectTrigger id="restNotifications"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="off">Off</SelectItem>
+                    <SelectItem value="on">Notify in background</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <p className="text-xs text-slate-500">
+              {!wakeLockSupported() && "This browser can't keep the screen on. "}
+              {access === "unsupported"
+                ? "This browser can't show notifications."
+                : access === "denied"
+                  ? "Notifications are blocked for this app in the browser's settings."
+                  : "Rest alerts notify you when rest or a timed hold is over while you're in another app."}
+            </p>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2 pt-2">
             <Button variant="outline" className="rounded-xl" onClick={onExport}>
-              <Download className="h-4 w-4 mr-1" /> Export JSON
+              <Download className="h-4 w-4 mr-1" /> Export Backup
             </Button>
             <input type="file" accept="application/json" className="hidden" ref={fileInputRef} onChange={onImportFile} />
             <Button variant="outline" className="rounded-xl" onClick={onImportClick}>
               <Upload className="h-4 w-4 mr-1" /> Import
             </Button>
+            <Button variant="outline" className="rounded-xl" onClick={onImportFromApp}>
+              <Upload className="h-4 w-4 mr-1" /> Import from Strong / Hevy / FitNotes
+            </Button>
           </div>
+
+          <QuarantinePanel onRestore={onRestoreQuarantined} />
         </CardContent>
       </Card>
     </div>
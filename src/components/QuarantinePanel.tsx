@@ -0,0 +1,100 @@
+import React from "react";
+import { ShieldAlert } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import type { WorkoutEntry } from "@/lib/pr";
+import {
+  clearQuarantine,
+  loadQuarantine,
+  recoverLogEntry,
+  removeFromQuarantine,
+  type QuarantinedRecord,
+} from "@/lib/storage";
+import { downloadFile } from "@/lib/utils";
+
+interface Props {
+  /** Put repaired log rows back into the log */
+  onRestore: (entries: WorkoutEntry[]) => void;
+}
+
+/**
+ * Shows the records set aside because they couldn't be read, and puts the
+ * log rows among them that can be repaired back into the log
+ */
+export default function QuarantinePanel({ onRestore }: Props) {
+  const [records, setRecords] = React.useState<QuarantinedRecord[]>(loadQuarantine);
+  const [open, setOpen] = React.useState(false);
+
+  const recoverable = React.useMemo(
+    () =>
+      records.flatMap((record) => {
+        const entry = recoverLogEntry(record);
+        return entry ? [{ record, entry }] : [];
+      }),
+    [records]
+  );
+
+  if (records.length === 0) return null;
+
+  function restore() {
+    onRestore(recoverable.map((r) => r.entry));
+    removeFromQuarantine(recoverable.map((r) => r.record));
+    setRecords(loadQuarantine());
+  }
+
+  function clear() {
+    if (!confirm(`Delete ${records.length} unreadable record${records.length === 1 ? "" : "s"} for good?`)) return;
+    clearQuarantine();
+    setRecords([]);
+  }
+
+  return (
+    <div className="rounded-xl border border-amber-300 bg-amber-50 p-3 text-sm text-amber-900 space-y-2">
+      <div className="flex items-center gap-2 font-medium">
+        <ShieldAlert className="h-4 w-4 shrink-0" />
+        {records.length === 1 ? "1 record couldn't be read" : `${records.length} records couldn't be read`}
+      </div>
+      <p className="text-xs text-amber-800">
+        They were set aside instead of deleted.
+        {recoverable.length > 0 &&
+          ` ${recoverable.length} log row${recoverable.length === 1 ? "" : "s"} can be repaired and put back.`}
+      </p>
+
+      {open && (
+        <ul className="max-h-64 overflow-auto space-y-1 text-xs">
+          {records.map((record) => (
+            <li key={`${record.key}|${record.raw}`} className="rounded-lg border border-amber-200 bg-white p-2">
+              <div className="flex flex-wrap justify-between gap-2">
+                <span className="font-medium">{record.key}</span>
+                <span className="text-slate-500">{record.quarantinedAt.slice(0, 10)}</span>
+              </div>
+              <div>{record.reason}</div>
+              <div className="font-mono truncate text-slate-500" title={record.raw}>{record.raw}</div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        {recoverable.length > 0 && (
+          <Button size="sm" className="rounded-xl" onClick={restore}>
+            Restore {recoverable.length} log row{recoverable.length === 1 ? "" : "s"}
+          </Button>
+        )}
+        <Button size="sm" variant="outline" className="rounded-xl" onClick={() => setOpen((o) => !o)}>
+          {open ? "Hide" : "Show"} records
+        </Button>
+        <Button
+          size="sm"
+          variant="outline"
+          className="rounded-xl"
+          onClick={() => downloadFile("quarantine.json", JSON.stringify(records, null, 2), "application/json")}
+        >
+          Download
+        </Button>
+        <Button size="sm" variant="ghost" className="rounded-xl" onClick={clear}>
+          Delete all
+        </Button>
+      </div>
+    </div>
+  );
+}
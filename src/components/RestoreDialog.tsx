@@ -0,0 +1,244 @@
+import { useMemo, useState } from "react";
+import { AlertTriangle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  BACKUP_STORES,
+  planRestore,
+  type BackupData,
+  type BackupStore,
+  type ParsedBackup,
+  type RestoreMode,
+  type RestorePlan,
+} from "@/lib/backup";
+import { keepNewest, newestSide, type ConflictChoice, type LogConflict } from "@/lib/logMerge";
+import type { WorkoutEntry } from "@/lib/pr";
+import { describeSet } from "@/lib/metrics";
+import { fromKg } from "@/lib/utils";
+
+interface Props {
+  /** The parsed file; the dialog is open while this is set */
+  backup: ParsedBackup | null;
+  current: BackupData;
+  unit: "kg" | "lb";
+  onCancel: () => void;
+  onConfirm: (plan: RestorePlan) => void;
+}
+
+const STORE_LABELS: Record<BackupStore, string> = {
+  exercises: "Exercises",
+  workouts: "Workouts",
+  plans: "Plans",
+  log: "Log entries",
+  sessions: "Sessions",
+};
+
+function describeEntry(entry: WorkoutEntry, unit: "kg" | "lb"): string {
+  const load = entry.weightKg === undefined ? "" : ` @ ${Math.round(fromKg(entry.weightKg, unit) * 10) / 10} ${unit}`;
+  const notes = entry.notes ? ` · ${entry.notes}` : "";
+  return `${entry.sets}× ${describeSet(entry)}${load}${notes}`;
+}
+
+function ConflictRow({
+  conflict,
+  choice,
+  unit,
+  onChoose,
+}: {
+  conflict: LogConflict;
+  choice: ConflictChoice;
+  unit: "kg" | "lb";
+  onChoose: (choice: ConflictChoice) => void;
+}) {
+  const newest = newestSide(conflict);
+  const cell = (side: ConflictChoice, entry: WorkoutEntry) => (
+    <td className="py-1 pr-2">
+      <label className="flex items-start gap-1 cursor-pointer">
+        <input type="radio" className="mt-1" checked={choice === side} onChange={() => onChoose(side)} />
+        <span className={choice === side ? "font-medium" : "text-slate-500"}>
+          {describeEntry(entry, unit)}
+          {newest === side && entry.updated && <span className="ml-1 text-[10px] text-emerald-700">newest</span>}
+        </span>
+      </label>
+    </td>
+  );
+  return (
+    <tr className="border-t align-top">
+      <td className="py-1 pr-2 whitespace-nowrap">{conflict.existing.date}</td>
+      <td className="py-1 pr-2">{conflict.existing.name}</td>
+      {cell("existing", conflict.existing)}
+      {cell("incoming", conflict.incoming)}
+    </tr>
+  );
+}
+
+/**
+ * Shows what a backup contains and what restoring it would change, then
+ * commits the chosen merge/replace on confirm.
+ */
+export default function RestoreDialog({ backup, current, unit, onCancel, onConfirm }: Props) {
+  const [mode, setMode] = useState<RestoreMode>("merge");
+  const [choices, setChoices] = useState<Record<string, ConflictChoice>>({});
+
+  const plan = useMemo(
+    () => (backup ? planRestore(current, backup.archive.data, mode, backup.present, choices) : null),
+    [backup, current, mode, choices]
+  );
+
+  if (!backup || !plan) return null;
+
+  const { manifest } = backup.archive;
+  const rejectedTotal = BACKUP_STORES.reduce((sum, store) => sum + backup.rejected[store], 0);
+  const removedTotal = BACKUP_STORES.reduce((sum, store) => sum + plan.changes[store].removed, 0);
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent onClose={onCancel} className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Restore Backup</DialogTitle>
+          <DialogDescription>
+            {backup.legacy
+              ? "Older export (profile and log only). Library stores are left untouched."
+              : `Created ${new Date(manifest.createdAt).toLocaleString()} · app v${manifest.appVersion} · schema v${manifest.schemaVersion}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 text-sm">
+          {!backup.checksumOk && (
+            <div className="flex items-start gap-2 rounded-xl border border-amber-300 bg-amber-50 p-3 text-amber-800">
+              <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+              Checksum mismatch: the file was edited or is incomplete. Review the counts before restoring.
+            </div>
+          )}
+          {rejectedTotal > 0 && (
+            <div className="flex items-start gap-2 rounded-xl border border-amber-300 bg-amber-50 p-3 text-amber-800">
+              <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+              {rejectedTotal} invalid row{rejectedTotal === 1 ? "" : "s"} will be skipped (
+              {BACKUP_STORES.filter((s) => backup.rejected[s] > 0)
+                .map((s) => `${backup.rejected[s]} ${STORE_LABELS[s].toLowerCase()}`)
+                .join(", ")}
+              ).
+            </div>
+          )}
+
+          <div className="flex gap-2">
+            <Button
+              variant={mode === "merge" ? "default" : "outline"}
+              className="rounded-xl flex-1"
+              onClick={() => setMode("merge")}
+            >
+              Merge
+            </Button>
+            <Button
+              variant={mode === "replace" ? "default" : "outline"}
+              className="rounded-xl flex-1"
+              onClick={() => setMode("replace")}
+            >
+              Replace
+            </Button>
+          </div>
+          <p className="text-xs text-slate-500">
+            {mode === "merge"
+              ? "Adds new records and updates existing ones; log sets also match by date and set order. Nothing is deleted; your profile is kept."
+              : "Makes each store in the backup match it exactly, including the profile."}
+          </p>
+
+          <table className="w-full text-left">
+            <thead className="text-xs text-slate-500">
+              <tr>
+                <th className="py-1 font-medium">Store</th>
+                <th className="py-1 font-medium text-right">In file</th>
+                <th className="py-1 font-medium text-right">Added</th>
+                <th className="py-1 font-medium text-right">Updated</th>
+                <th className="py-1 font-medium text-right">Unchanged</th>
+                <th className="py-1 font-medium text-right">Removed</th>
+              </tr>
+            </thead>
+            <tbody>
+              {BACKUP_STORES.map((store) => {
+                const change = plan.changes[store];
+                const inFile = backup.present.includes(store);
+                return (
+                  <tr key={store} className="border-t">
+                    <td className="py-1">{STORE_LABELS[store]}</td>
+                    <td className="py-1 text-right">{inFile ? backup.archive.data[store].length : "—"}</td>
+                    <td className="py-1 text-right">{change.added}</td>
+                    <td className="py-1 text-right">{change.updated}</td>
+                    <td className="py-1 text-right">{change.unchanged}</td>
+                    <td className={`py-1 text-right ${change.removed > 0 ? "text-red-600 font-medium" : ""}`}>
+                      {change.removed}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          {plan.profileChanged && <p className="text-xs text-slate-500">The profile will be replaced.</p>}
+
+          {plan.logConflicts.length > 0 && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between gap-2">
+                <div className="font-medium">
+                  {plan.logConflicts.length} conflicting log entr{plan.logConflicts.length === 1 ? "y" : "ies"}
+                </div>
+                <div className="flex gap-1">
+                  <Button size="sm" variant="outline" className="rounded-xl" onClick={() => setChoices(keepNewest(plan.logConflicts))}>
+                    Keep newest
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="rounded-xl"
+                    onClick={() => setChoices(Object.fromEntries(plan.logConflicts.map((c) => [c.id, "existing"])))}
+                  >
+                    Keep all mine
+                  </Button>
+                </div>
+              </div>
+              <div className="max-h-64 overflow-y-auto rounded-xl border p-2">
+                <table className="w-full text-left text-xs">
+                  <thead className="text-slate-500">
+                    <tr>
+                      <th className="py-1 font-medium">Date</th>
+                      <th className="py-1 font-medium">Exercise</th>
+                      <th className="py-1 font-medium">This device</th>
+                      <th className="py-1 font-medium">Backup</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {plan.logConflicts.map((conflict) => (
+                      <ConflictRow
+                        key={conflict.id}
+                        conflict={conflict}
+                        unit={unit}
+                        choice={choices[conflict.id] ?? newestSide(conflict)}
+                        onChoose={(choice) => setChoices((prev) => ({ ...prev, [conflict.id]: choice }))}
+                      />
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <p className="text-xs text-slate-500">PR flags are recalculated over the merged log after restoring.</p>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel} className="rounded-xl">
+            Cancel
+          </Button>
+          <Button onClick={() => onConfirm(plan)} className="rounded-xl">
+            {removedTotal > 0 ? `Restore (deletes ${removedTotal})` : "Restore"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
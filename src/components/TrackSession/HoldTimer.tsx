@@ -0,0 +1,53 @@
+import React from "react";
+import { Button } from "@/components/ui/button";
+import { getCueEngine } from "@/lib/cues";
+import type { Clock } from "@/lib/timer";
+import { useBackgroundAlert, useTimer } from "@/lib/useTimer";
+
+const cues = getCueEngine();
+
+interface HoldTimerProps {
+  seconds: number;
+  /** Exercise being held, for the notification */
+  label?: string;
+  /** Notify when the hold ends while the app is in the background */
+  notify?: boolean;
+  /** Time source; the browser clock unless a test drives it */
+  clock?: Clock;
+}
+
+/**
+ * Countdown for a timed exercise: a start button, then the time left
+ */
+export default function HoldTimer({ seconds, label, notify = false, clock }: HoldTimerProps) {
+  const timer = useTimer(seconds, {
+    clock,
+    onExpire: () => {
+      timer.pause();
+      cues.play("rest");
+    },
+  });
+  useBackgroundAlert(timer, notify ? { title: "Time is up", body: label, tag: "hold-timer" } : null);
+
+  React.useEffect(() => {
+    if (timer.running) cues.tick(timer.seconds);
+  }, [timer.seconds]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  if (!timer.running) {
+    return (
+      <Button variant="outline" className="rounded-xl text-sm" onClick={() => timer.set(seconds, true)}>
+        ▶ Start Timer
+      </Button>
+    );
+  }
+
+  return (
+    <div
+      className={`text-lg font-mono px-3 py-1 rounded border ${
+        timer.seconds <= 5 ? "bg-yellow-100 animate-pulse" : "bg-slate-100"
+      }`}
+    >
+      {Math.floor(timer.seconds / 60)}:{(timer.seconds % 60).toString().padStart(2, "0")}
+    </div>
+  );
+}
@@ -0,0 +1,25 @@
+import { Volume2, VolumeX } from "lucide-react";
+import { Button } from "@/components/ui/button";
+
+interface Props {
+  muted: boolean;
+  onChange: (muted: boolean) => void;
+}
+
+/**
+ * Silences the timers' beeps and voice cues
+ */
+export default function MuteToggle({ muted, onChange }: Props) {
+  return (
+    <Button
+      variant="ghost"
+      size="sm"
+      className="rounded-lg"
+      onClick={() => onChange(!muted)}
+      aria-label={muted ? "Unmute cues" : "Mute cues"}
+      title={muted ? "Unmute cues" : "Mute cues"}
+    >
+      {muted ? <VolumeX className="h-4 w-4" /> : <Volume2 className="h-4 w-4" />}
+    </Button>
+  );
+}
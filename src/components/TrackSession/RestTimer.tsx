@@ -1,69 +1,64 @@
 import React from "react";
 import { Button } from "@/components/ui/button";
+import { getCueEngine } from "@/lib/cues";
+import type { Clock } from "@/lib/timer";
+import { useBackgroundAlert, useTimer } from "@/lib/useTimer";
+
+const cues = getCueEngine();
 
 interface RestTimerProps {
   seconds?: number;
   startSignal?: number;
   onDone?: () => void;
+  /** Notify when rest ends while the app is in the background */
+  notify?: boolean;
+  /** What comes after the rest, for the notification */
+  nextLabel?: string;
+  /** Time source; the browser clock unless a test drives it */
+  clock?: Clock;
 }
 
 export default function RestTimer({
   seconds = 90,
   startSignal = 0,
   onDone,
+  notify = false,
+  nextLabel,
+  clock,
 }: RestTimerProps) {
-  const [remaining, setRemaining] = React.useState<number>(seconds);
-  const [running, setRunning] = React.useState<boolean>(false);
+  const timer = useTimer(seconds, {
+    clock,
+    onExpire: () => {
+      timer.pause();
 
-  React.useEffect(() => {
-    setRemaining(seconds);
-    setRunning(true);
-  }, [startSignal, seconds]);
+      // --- HAPTIC (mobile-safe no-op on desktop)
+      try {
+        if (typeof navigator !== "undefined" && "vibrate" in navigator) {
+          // light buzz
+          (navigator as any).vibrate?.(150);
+        }
+      } catch {}
 
-  React.useEffect(() => {
-    if (!running) return;
-    const id = setInterval(() => {
-      setRemaining((prev) => {
-        if (prev <= 1) {
-          clearInterval(id);
-          setRunning(false);
+      // --- BEEP: rest is over
+      cues.play("work");
 
-          // --- HAPTIC (mobile-safe no-op on desktop)
-          try {
-            if (typeof navigator !== "undefined" && "vibrate" in navigator) {
-              // light buzz
-              (navigator as any).vibrate?.(150);
-            }
-          } catch {}
+      onDone?.();          // advance your flow
+    },
+  });
+  const { set } = timer;
 
-          // --- BEEP (very short)
-          try {
-            const AudioCtx =
-              (window as any).AudioContext || (window as any).webkitAudioContext;
-            if (AudioCtx) {
-              const ctx = new AudioCtx();
-              const osc = ctx.createOscillator();
-              const gain = ctx.createGain();
-              osc.connect(gain);
-              gain.connect(ctx.destination);
-              osc.frequency.value = 880;   // A5-ish
-              gain.gain.value = 0.04;      // quiet
-              osc.start();
-              setTimeout(() => {
-                osc.stop();
-                ctx.close?.();
-              }, 180);
-            }
-          } catch {}
+  React.useEffect(() => {
+    set(seconds, true);
+  }, [startSignal, seconds, set]);
 
-          onDone?.();          // advance your flow
-          return 0;
-        }
-        return prev - 1;
-      });
-    }, 1000);
-    return () => clearInterval(id);
-  }, [running, onDone]);
+  useBackgroundAlert(
+    timer,
+    notify ? { title: "Rest is over", body: nextLabel ? `Next: ${nextLabel}` : undefined, tag: "rest-timer" } : null
+  );
+
+  React.useEffect(() => {
+    if (timer.running) cues.tick(timer.seconds);
+  }, [timer.seconds]); // eslint-disable-line react-hooks/exhaustive-deps
 
   function fmt(s: number) {
     const m = Math.floor(s / 60);
@@ -73,17 +68,21 @@ export default function RestTimer({
 
   return (
     <div className="flex items-center gap-2 text-sm">
-      <div className="font-mono">{fmt(remaining)}</div>
-      <Button size="sm" variant="outline" className="rounded-xl" onClick={() => setRunning((r) => !r)}>
-        {running ? "Pause" : "Start"}
+      <div className="font-mono">{fmt(timer.seconds)}</div>
+      <Button
+        size="sm"
+        variant="outline"
+        className="rounded-xl"
+        onClick={() => (timer.running ? timer.pause() : timer.start())}
+      >
+        {timer.running ? "Pause" : "Start"}
       </Button>
       <Button
         size="sm"
         variant="ghost"
         className="rounded-xl"
         onClick={() => {
-          setRunning(false);
-          setRemaining(seconds);
+          timer.set(seconds, false);
         }}
       >
         Reset
@@ -0,0 +1,66 @@
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { describeDraftProgress, type SessionDraft } from "@/lib/sessions";
+
+interface Props {
+  draft: SessionDraft;
+  onResume: () => void;
+  onDiscard: () => void;
+}
+
+function savedAtLabel(iso: string): string {
+  const saved = new Date(iso);
+  const sameDay = saved.toDateString() === new Date().toDateString();
+  return sameDay
+    ? saved.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })
+    : saved.toLocaleString([], { dateStyle: "medium", timeStyle: "short" });
+}
+
+/**
+ * Offered on load when a session was still running when the app was closed
+ */
+export default function ResumeSessionDialog({ draft, onResume, onDiscard }: Props) {
+  const title =
+    draft.session?.title ??
+    (draft.mode === "circuit" ? draft.circuitSpec?.name : draft.mode === "intervals" ? draft.intervalSpec?.name : undefined);
+  const clockPaused =
+    (draft.mode === "circuit" && !draft.circuit?.finished) || (draft.mode === "intervals" && !draft.intervals?.finished);
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onDiscard()}>
+      <DialogContent onClose={onDiscard} className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Unfinished workout</DialogTitle>
+          <DialogDescription>Resume workout from {savedAtLabel(draft.savedAt)}?</DialogDescription>
+        </DialogHeader>
+
+        <div className="rounded-xl border p-3 text-sm">
+          <div className="font-medium">
+            {title || `Day ${draft.day}`}
+            <span className="ml-2 text-xs font-normal text-slate-500">{draft.date}</span>
+          </div>
+          <div className="text-xs text-slate-600">{describeDraftProgress(draft)}</div>
+          {clockPaused && (
+            <div className="text-xs text-slate-500">The timer resumes paused.</div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onDiscard} className="rounded-xl">
+            Discard
+          </Button>
+          <Button onClick={onResume} className="rounded-xl">
+            Resume
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
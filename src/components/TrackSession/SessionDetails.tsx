@@ -0,0 +1,49 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { Session } from "@/lib/sessions";
+
+interface Props {
+  session: Session;
+  onChange: (patch: Pick<Session, "notes" | "rpe">) => void;
+}
+
+const RPE_VALUES = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10];
+
+/**
+ * Whole-session RPE and notes, saved with the session when it's finished
+ */
+export default function SessionDetails({ session, onChange }: Props) {
+  return (
+    <div className="grid grid-cols-[6rem_1fr] gap-2">
+      <div>
+        <Label>Session RPE</Label>
+        <Select
+          value={session.rpe === undefined ? "none" : String(session.rpe)}
+          onValueChange={(v) => onChange({ rpe: v === "none" ? undefined : Number(v) })}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="none">—</SelectItem>
+            {RPE_VALUES.map((n) => (
+              <SelectItem key={n} value={String(n)}>
+                {n}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div>
+        <Label htmlFor="session-notes">Session notes</Label>
+        <Input
+          id="session-notes"
+          value={session.notes ?? ""}
+          placeholder="How did it go?"
+          onChange={(e) => onChange({ notes: e.target.value || undefined })}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,268 @@
+import React, { useMemo, useState } from "react";
+import { AlertTriangle, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AUTO_MATCH_SCORE,
+  IMPORT_SOURCE_LABELS,
+  buildTrackerImport,
+  defaultResolution,
+  matchExercises,
+  parseTrackerExport,
+  type ExerciseMatch,
+  type ExerciseResolution,
+} from "@/lib/importers";
+import { analyzeLogMerge, resolveLogMerge } from "@/lib/logMerge";
+import type { WorkoutEntry } from "@/lib/pr";
+import type { Exercise } from "@/lib/workoutLibrary";
+
+interface Props {
+  open: boolean;
+  exercises: Exercise[];
+  workouts: WorkoutEntry[];
+  unit: "kg" | "lb";
+  onClose: () => void;
+  /** Receives the full exercise library and the full merged log */
+  onImport: (next: { exercises: Exercise[]; workouts: WorkoutEntry[] }) => void;
+}
+
+const MAX_REJECTED_SHOWN = 20;
+
+function encodeResolution(resolution: ExerciseResolution): string {
+  return resolution.kind === "match" ? `match:${resolution.exerciseId}` : resolution.kind;
+}
+
+function decodeResolution(value: string): ExerciseResolution {
+  if (value.startsWith("match:")) return { kind: "match", exerciseId: value.slice("match:".length) };
+  return value === "skip" ? { kind: "skip" } : { kind: "create" };
+}
+
+function MatchRow({
+  match,
+  exercises,
+  resolution,
+  onResolve,
+}: {
+  match: ExerciseMatch;
+  exercises: Exercise[];
+  resolution: ExerciseResolution;
+  onResolve: (resolution: ExerciseResolution) => void;
+}) {
+  const best = match.candidates[0];
+  const confident = !!best && best.score >= AUTO_MATCH_SCORE;
+  const candidateIds = new Set(match.candidates.map((c) => c.exercise.id));
+  const others = exercises.filter((e) => !candidateIds.has(e.id)).sort((a, b) => a.name.localeCompare(b.name));
+
+  return (
+    <tr className={`border-t align-middle ${confident ? "" : "bg-amber-50"}`}>
+      <td className="py-1 pr-2">
+        <div className="font-medium">{match.name}</div>
+        <div className="text-[10px] text-slate-500">
+          {match.setCount} sets{!confident && " · needs review"}
+        </div>
+      </td>
+      <td className="py-1">
+        <Select value={encodeResolution(resolution)} onValueChange={(v) => onResolve(decodeResolution(v))}>
+          <SelectTrigger className="h-8 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="create">Create new exercise</SelectItem>
+            <SelectItem value="skip">Don't import</SelectItem>
+            {match.candidates.map((c) => (
+              <SelectItem key={c.exercise.id} value={`match:${c.exercise.id}`}>
+                {c.exercise.name} ({Math.round(c.score * 100)}%)
+              </SelectItem>
+            ))}
+            {others.map((e) => (
+              <SelectItem key={e.id} value={`match:${e.id}`}>
+                {e.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </td>
+    </tr>
+  );
+}
+
+/**
+ * Imports history from Strong, Hevy or FitNotes: read the file, confirm how
+ * each exercise maps onto the library, then merge the sets into the log.
+ */
+export default function TrackerImportDialog({ open, exercises, workouts, unit, onClose, onImport }: Props) {
+  const [file, setFile] = useState<{ name: string; text: string } | null>(null);
+  const [fileUnit, setFileUnit] = useState<"kg" | "lb">(unit);
+  const [includeWarmups, setIncludeWarmups] = useState(false);
+  const [overrides, setOverrides] = useState<Record<string, ExerciseResolution>>({});
+
+  function close() {
+    setFile(null);
+    setOverrides({});
+    onClose();
+  }
+
+  function handleFile(e: React.ChangeEvent<HTMLInputElement>) {
+    const selected = e.target.files?.[0];
+    if (!selected) return;
+    const reader = new FileReader();
+    reader.onload = () => {
+      setFile({ name: selected.name, text: String(reader.result) });
+      setOverrides({});
+    };
+    reader.readAsText(selected);
+    e.target.value = "";
+  }
+
+  const parsed = useMemo(() => {
+    if (!file) return null;
+    try {
+      return { ok: true as const, value: parseTrackerExport(file.text, fileUnit) };
+    } catch (err) {
+      return { ok: false as const, error: (err as Error).message };
+    }
+  }, [file, fileUnit]);
+
+  const tracker = parsed && parsed.ok ? parsed.value : null;
+  const matches = useMemo(() => (tracker ? matchExercises(tracker.sets, exercises) : []), [tracker, exercises]);
+  const resolutions = useMemo(
+    () => Object.fromEntries(matches.map((m) => [m.name, overrides[m.name] ?? defaultResolution(m)])),
+    [matches, overrides]
+  );
+
+  const preview = useMemo(() => {
+    if (!tracker) return null;
+    const built = buildTrackerImport(tracker.sets, resolutions, exercises, { includeWarmups });
+    return { built, analysis: analyzeLogMerge(workouts, built.entries) };
+  }, [tracker, resolutions, exercises, includeWarmups, workouts]);
+
+  const reviewCount = matches.filter((m) => !overrides[m.name] && defaultResolution(m).kind === "create" && m.candidates.length > 0).length;
+
+  return (
+    <Dialog open={open} onOpenChange={(o) => !o && close()}>
+      <DialogContent onClose={close} className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Import from another app</DialogTitle>
+          <DialogDescription>
+            {tracker
+              ? `${IMPORT_SOURCE_LABELS[tracker.source]} export · ${tracker.sets.length} sets · ${matches.length} exercises`
+              : "Strong, Hevy and FitNotes CSV exports are supported."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {!file || (parsed && !parsed.ok) ? (
+          <div className="space-y-2">
+            <label className="flex flex-col items-center justify-center gap-2 rounded-xl border-2 border-dashed p-8 text-sm text-slate-500 cursor-pointer hover:bg-slate-50">
+              <Upload className="h-5 w-5" />
+              Choose a .csv export
+              <input type="file" accept=".csv,text/csv" className="hidden" onChange={handleFile} />
+            </label>
+            {parsed && parsed.ok === false && <div className="text-xs text-red-600">{parsed.error}</div>}
+          </div>
+        ) : (
+          tracker &&
+          preview && (
+            <div className="space-y-4 text-sm">
+              <div className="flex flex-wrap items-end gap-4">
+                {!tracker.unitKnown && (
+                  <div className="space-y-1">
+                    <Label>Weights in this file are in</Label>
+                    <Select value={fileUnit} onValueChange={(v) => setFileUnit(v as "kg" | "lb")}>
+                      <SelectTrigger className="w-24">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="kg">kg</SelectItem>
+                        <SelectItem value="lb">lb</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+                <label className="flex items-center gap-2 text-xs">
+                  <input type="checkbox" checked={includeWarmups} onChange={(e) => setIncludeWarmups(e.target.checked)} />
+                  Include warm-up sets
+                </label>
+              </div>
+
+              <div>
+                <div className="font-medium mb-1">Match exercises</div>
+                {reviewCount > 0 && (
+                  <div className="flex items-start gap-2 text-xs text-amber-800 mb-1">
+                    <AlertTriangle className="h-4 w-4 shrink-0" />
+                    {reviewCount} exercise{reviewCount === 1 ? " has" : "s have"} only loose matches and will be created
+                    as new unless you pick one.
+                  </div>
+                )}
+                <div className="max-h-72 overflow-y-auto rounded-xl border p-2">
+                  <table className="w-full text-left text-xs">
+                    <tbody>
+                      {matches.map((match) => (
+                        <MatchRow
+                          key={match.name}
+                          match={match}
+                          exercises={exercises}
+                          resolution={resolutions[match.name]}
+                          onResolve={(r) => setOverrides((prev) => ({ ...prev, [match.name]: r }))}
+                        />
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+
+              <ul className="text-xs text-slate-600 space-y-0.5 rounded-xl border p-3">
+                <li>{preview.analysis.added.length} log entries will be added</li>
+                {preview.built.newExercises.length > 0 && (
+                  <li>{preview.built.newExercises.length} new exercises will be added to the library</li>
+                )}
+                {preview.analysis.identical > 0 && <li>{preview.analysis.identical} already in the log (skipped)</li>}
+                {preview.built.skippedWarmups > 0 && <li>{preview.built.skippedWarmups} warm-up sets left out</li>}
+                {preview.built.skippedExercises > 0 && <li>{preview.built.skippedExercises} sets of skipped exercises</li>}
+                {tracker.rejected.length > 0 && (
+                  <li className="text-red-600">
+                    {tracker.rejected.length} rows rejected:{" "}
+                    {tracker.rejected
+                      .slice(0, MAX_REJECTED_SHOWN)
+                      .map((r) => `line ${r.line} (${r.reason})`)
+                      .join("; ")}
+                    {tracker.rejected.length > MAX_REJECTED_SHOWN && "; …"}
+                  </li>
+                )}
+                <li>PR flags are recalculated in date order across your whole log.</li>
+              </ul>
+            </div>
+          )
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={close} className="rounded-xl">
+            Cancel
+          </Button>
+          <Button
+            disabled={!preview || preview.analysis.added.length === 0}
+            onClick={() => {
+              if (!preview) return;
+              onImport({
+                exercises: [...exercises, ...preview.built.newExercises],
+                workouts: resolveLogMerge(workouts, preview.analysis),
+              });
+              close();
+            }}
+            className="rounded-xl"
+          >
+            Import {preview ? preview.analysis.added.length : 0} entries
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
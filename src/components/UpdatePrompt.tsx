@@ -0,0 +1,28 @@
+import React from "react";
+import { RefreshCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { applyUpdate, useUpdateAvailable } from "@/lib/pwa";
+
+/**
+ * Offers to reload into a new version once it has been downloaded. A
+ * session in progress is saved as a draft, so reloading resumes it.
+ */
+export default function UpdatePrompt() {
+  const available = useUpdateAvailable();
+  const [dismissed, setDismissed] = React.useState(false);
+
+  if (!available || dismissed) return null;
+
+  return (
+    <div className="fixed inset-x-4 bottom-4 z-50 mx-auto max-w-md rounded-2xl border bg-white p-3 shadow-lg flex items-center gap-3">
+      <RefreshCw className="h-4 w-4 shrink-0 text-slate-500" />
+      <div className="flex-1 text-sm">A new version is ready.</div>
+      <Button size="sm" variant="ghost" className="rounded-xl" onClick={() => setDismissed(true)}>
+        Later
+      </Button>
+      <Button size="sm" className="rounded-xl" onClick={applyUpdate}>
+        Reload
+      </Button>
+    </div>
+  );
+}
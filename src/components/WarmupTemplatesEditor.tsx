@@ -0,0 +1,71 @@
+import { useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import type { ExerciseCategory } from "@/lib/workoutLibrary";
+import {
+  formatWarmupTemplate,
+  parseWarmupTemplate,
+  warmupTemplateFor,
+  type WarmupTemplates,
+} from "@/lib/warmups";
+
+interface Props {
+  templates?: WarmupTemplates;
+  onChange: (templates: WarmupTemplates) => void;
+}
+
+const CATEGORIES: ExerciseCategory[] = [
+  "strength",
+  "plyometric",
+  "core",
+  "dance-specific",
+  "cardio",
+  "mobility",
+  "other",
+];
+
+/**
+ * Warm-up ramp per exercise category, typed as "40x8, 60x5, 80x3"
+ * (percent of the working load × reps)
+ */
+export default function WarmupTemplatesEditor({ templates, onChange }: Props) {
+  const [drafts, setDrafts] = useState<Partial<Record<ExerciseCategory, string>>>({});
+  const [invalid, setInvalid] = useState<Partial<Record<ExerciseCategory, boolean>>>({});
+
+  function commit(category: ExerciseCategory) {
+    const text = drafts[category];
+    if (text === undefined) return;
+    const steps = parseWarmupTemplate(text);
+    setInvalid((prev) => ({ ...prev, [category]: steps === null }));
+    if (steps === null) return;
+    onChange({ ...templates, [category]: steps });
+    setDrafts((prev) => ({ ...prev, [category]: undefined }));
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="text-sm font-medium">Warm-up ramps</div>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+        {CATEGORIES.map((category) => (
+          <div key={category} className="grid grid-cols-[7rem_1fr] items-center gap-2">
+            <Label htmlFor={`warmup-${category}`} className="text-xs">
+              {category}
+            </Label>
+            <Input
+              id={`warmup-${category}`}
+              value={drafts[category] ?? formatWarmupTemplate(warmupTemplateFor(category, templates))}
+              placeholder="No warm-ups"
+              className={invalid[category] ? "border-red-400" : undefined}
+              onChange={(e) => setDrafts((prev) => ({ ...prev, [category]: e.target.value }))}
+              onBlur={() => commit(category)}
+            />
+          </div>
+        ))}
+      </div>
+      <p className="text-xs text-slate-500">
+        Percent of the working load × reps, e.g. 40x8, 60x5, 80x3. Used for exercises marked for warm-ups in the
+        library; leave empty for none.
+      </p>
+    </div>
+  );
+}
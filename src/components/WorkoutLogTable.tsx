@@ -4,8 +4,21 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
-import { Edit3, Save, X, Trash2 } from "lucide-react";
-import { markPRsBeforeInsert } from "@/lib/pr";
+import { Download, Edit3, Save, X, Trash2, Upload } from "lucide-react";
+import { stampUpdated } from "@/lib/logMerge";
+import { logToCsv } from "@/lib/csv";
+import { downloadFile } from "@/lib/utils";
+import {
+  VOLUME_METRIC_UNITS,
+  bestSetLabel,
+  describeSet,
+  entryKind,
+  entryVolume,
+  primaryField,
+  setMetrics,
+} from "@/lib/metrics";
+import CsvImportDialog from "@/components/CsvImportDialog";
+import type { EntryKind } from "@/lib/pr";
 
 const Badge = ({ children }: { children: React.ReactNode }) => (
   <span className="inline-flex items-center rounded-md border px-2 py-0.5 text-[10px] font-medium text-emerald-700 border-emerald-200 bg-emerald-50">
@@ -17,10 +30,20 @@ export interface WorkoutEntry {
   id: string;
   date: string;      // YYYY-MM-DD
   name: string;      // exercise name
+  kind?: EntryKind;  // missing on rows saved before kinds existed: "reps"
   sets: number;      // per-set logs may be 1; manual logs can be >1
-  reps: number;      // per-set reps or seconds if timed entry "(sec)"
+  reps: number;      // per-set reps; 0 for duration and distance rows
+  durationSec?: number; // seconds per set
+  distanceM?: number;   // meters per set
   weightKg?: number; // always stored in kg
+  rpe?: number;      // effort of the set, 1-10
+  rir?: number;      // or reps left in reserve
+  warmup?: boolean; // warm-up set: no PRs, volume or progression
+  side?: "left" | "right"; // one side of a unilateral exercise
   notes?: string;
+  sessionId?: string; // the workout session the row was saved from
+  setIndex?: number;  // order logged within its date, from 1
+  updated?: string;  // ISO timestamp of the last edit
   isPRMaxWeight?: boolean;
   isPRVolume?: boolean;
 }
@@ -37,13 +60,15 @@ function toKg(value: number, unit: "kg" | "lb") {
 interface Props {
   workouts: WorkoutEntry[];
   unit: "kg" | "lb";
-  onChange: (next: WorkoutEntry[]) => void; // usually setWorkouts
+  onChange: (next: WorkoutEntry[]) => void; // usually setLog, which replays PR flags
+  bodyweightKg?: number; // profile body weight, for the volume of unloaded sets
 }
 
-export default function WorkoutLogTable({ workouts, unit, onChange }: Props) {
+export default function WorkoutLogTable({ workouts, unit, onChange, bodyweightKg }: Props) {
   const [sortBy, setSortBy] = useState<SortBy>("date");
   const [editingId, setEditingId] = useState<string | null>(null);
   const [editDrafts, setEditDrafts] = useState<Record<string, WorkoutEntry>>({});
+  const [csvImportOpen, setCsvImportOpen] = useState(false);
 
   const sorted = useMemo(() => {
     const copy = [...workouts];
@@ -52,15 +77,13 @@ export default function WorkoutLogTable({ workouts, unit, onChange }: Props) {
         copy.sort((a, b) => a.name.localeCompare(b.name));
         break;
       case "volume":
-        copy.sort((a, b) =>
-          (b.sets * b.reps * (b.weightKg ?? 1)) - (a.sets * a.reps * (a.weightKg ?? 1))
-        );
+        copy.sort((a, b) => entryVolume(b, { bodyweightKg }) - entryVolume(a, { bodyweightKg }));
         break;
       default:
         copy.sort((a, b) => (a.date < b.date ? 1 : -1)); // newest first
     }
     return copy;
-  }, [workouts, sortBy]);
+  }, [workouts, sortBy, bodyweightKg]);
 
   function startEdit(id: string) {
     setEditingId(id);
@@ -81,14 +104,11 @@ export default function WorkoutLogTable({ workouts, unit, onChange }: Props) {
     const patch = editDrafts[id];
     if (!patch) return setEditingId(null);
     
-    // Remove the entry being edited from workouts to recalculate PRs correctly
-    const workoutsWithoutEdited = workouts.filter(w => w.id !== id);
-    
-    // Recalculate PRs for the edited entry based on all other workouts
-    const withPR = markPRsBeforeInsert(workoutsWithoutEdited, [patch]);
-    
-    // Replace the old entry with the new one (with updated PR flags)
-    const updated = workouts.map(w => w.id === id ? withPR[0] : w);
+    // Replace the old entry; the owner replays PR flags over the whole log.
+    // A row moved to another date goes after that date's sets.
+    const moved = workouts.find(w => w.id === id)?.date !== patch.date;
+    const [edited] = stampUpdated([moved ? { ...patch, setIndex: undefined } : patch]);
+    const updated = workouts.map(w => w.id === id ? edited : w);
     
     onChange(updated);
     setEditDrafts(d => {
@@ -116,8 +136,27 @@ export default function WorkoutLogTable({ workouts, unit, onChange }: Props) {
               <SelectItem value="volume">Volume</SelectItem>
             </SelectContent>
           </Select>
+          <Button
+            variant="outline"
+            size="sm"
+            className="rounded-xl"
+            disabled={workouts.length === 0}
+            onClick={() => downloadFile(`workout-log-${new Date().toISOString().slice(0, 10)}.csv`, logToCsv(workouts, unit), "text/csv")}
+          >
+            <Download className="h-4 w-4 mr-1" /> CSV
+          </Button>
+          <Button variant="outline" size="sm" className="rounded-xl" onClick={() => setCsvImportOpen(true)}>
+            <Upload className="h-4 w-4 mr-1" /> Import CSV
+          </Button>
         </div>
       </CardHeader>
+      <CsvImportDialog
+        open={csvImportOpen}
+        workouts={workouts}
+        unit={unit}
+        onClose={() => setCsvImportOpen(false)}
+        onImport={onChange}
+      />
 
       <CardContent>
         {sorted.length === 0 ? (
@@ -130,7 +169,7 @@ export default function WorkoutLogTable({ workouts, unit, onChange }: Props) {
                   <th className="py-2 pr-4">Date</th>
                   <th className="py-2 pr-4">Exercise</th>
                   <th className="py-2 pr-4">Sets</th>
-                  <th className="py-2 pr-4">Reps</th>
+                  <th className="py-2 pr-4">Reps / time</th>
                   <th className="py-2 pr-4">Weight ({unit})</th>
                   <th className="py-2 pr-4">Volume</th>
                   <th className="py-2 pr-4">Notes</th>
@@ -141,7 +180,8 @@ export default function WorkoutLogTable({ workouts, unit, onChange }: Props) {
                 {sorted.map((w) => {
                   const isEditing = editingId === w.id;
                   const draft = editDrafts[w.id] ?? w;
-                  const volumeKg = draft.sets * draft.reps * (draft.weightKg ?? 1);
+                  const { volume, metric } = setMetrics(draft, { bodyweightKg });
+                  const volumeUnit = VOLUME_METRIC_UNITS[metric] === "kg" ? unit : VOLUME_METRIC_UNITS[metric];
                   const weightDisplay = draft.weightKg === undefined
                     ? "—"
                     : (Math.round(fromKg(draft.weightKg, unit) * 10) / 10).toString();
@@ -179,9 +219,11 @@ export default function WorkoutLogTable({ workouts, unit, onChange }: Props) {
                       </td>
                       <td className="py-2 pr-4">
                         {w.name}
+                        {w.warmup && <span className="ml-2 text-xs text-slate-500">warm-up</span>}
+                        {w.side && <span className="ml-2 text-xs text-slate-500">{w.side}</span>}
                         <span className="ml-2 space-x-1">
                           {w.isPRMaxWeight && <Badge>PR (Max Wt)</Badge>}
-                          {w.isPRVolume && <Badge>PR (Volume)</Badge>}
+                          {w.isPRVolume && <Badge>PR ({bestSetLabel(w)})</Badge>}
                         </span>
                       </td>
                       <td className="py-2 pr-4">
@@ -201,13 +243,18 @@ export default function WorkoutLogTable({ workouts, unit, onChange }: Props) {
                         {isEditing ? (
                           <Input
                             inputMode="numeric"
-                            value={String(draft.reps)}
+                            value={String(draft[primaryField(draft)] ?? 0)}
                             onChange={(e) =>
-                              setEditDrafts(d => ({ ...d, [w.id]: { ...draft, reps: Number(e.target.value) || 0 } }))
+                              setEditDrafts(d => ({
+                                ...d,
+                                [w.id]: { ...draft, [primaryField(draft)]: Number(e.target.value) || 0 },
+                              }))
                             }
                           />
-                        ) : (
+                        ) : entryKind(w) === "reps" ? (
                           w.reps
+                        ) : (
+                          describeSet(w)
                         )}
                       </td>
                       <td className="py-2 pr-4">
@@ -233,7 +280,8 @@ export default function WorkoutLogTable({ workouts, unit, onChange }: Props) {
                         )}
                       </td>
                       <td className="py-2 pr-4">
-                        {unit === "kg" ? Math.round(volumeKg) : Math.round(fromKg(volumeKg, unit))}
+                        {Math.round(volumeUnit === unit ? fromKg(volume, unit) : volume)}{" "}
+                        <span className="text-xs text-slate-500">{volumeUnit}</span>
                       </td>
                       <td className="py-2 pr-4 max-w-[260px] truncate" title={draft.notes ?? ""}>
                         {isEditing ? (
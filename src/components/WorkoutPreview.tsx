@@ -11,6 +11,10 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Workout, Exercise, WorkoutPlan, WorkoutDay } from "@/lib/workoutLibrary";
 import { CircuitSpec } from "@/components/CircuitRunner";
+import { stationTarget } from "@/lib/circuits";
+import { buildIntervals, describeIntervalSpec, totalSeconds, type IntervalSpec } from "@/lib/intervals";
+import type { Prescription } from "@/lib/progression";
+import { GROUP_KIND_LABELS, groupKind, groupLabels, normalizeGroups, runOf } from "@/lib/supersets";
 import {
   Select,
   SelectContent,
@@ -18,7 +22,16 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { WorkoutEntry } from "@/lib/pr";
+
+/** A progression target in the display unit, with the reason it was picked */
+export interface SuggestedTarget {
+  reps: number;
+  weight: number | "";
+  seconds?: number;
+  /** Per-set targets when the sets differ */
+  sets?: { reps: number; weight: number | "" }[];
+  reason: string;
+}
 
 interface Props {
   day: number;
@@ -27,17 +40,21 @@ interface Props {
   builtSession: {
     workout: Workout;
     planDay: WorkoutDay;
-    mode: "circuit" | "sets";
+    mode: "circuit" | "sets" | "intervals";
     circuitSpec?: CircuitSpec | null;
+    intervalSpec?: IntervalSpec | null;
     plan?: Array<{
       name: string;
-      sets: Array<{ reps: number | ""; weight: number | "" }>;
+      sets: Array<{ reps: number | ""; weight: number | ""; warmup?: boolean }>;
       timed?: boolean;
       seconds?: number | "";
+      unilateral?: boolean;
+      group?: string;
       restSec?: number;
       rounds?: number;
       reps?: number | "";
       weight?: number | "";
+      reason?: string;
     }>;
   } | null;
   exercises: Exercise[];
@@ -46,11 +63,8 @@ interface Props {
   onCancel: () => void;
   onEditExercise: (index: number) => void;
   editingIndex: number | null;
-  unit: "kg" | "lb";
-  workouts: WorkoutEntry[];
-  lastEntryFor: (workouts: WorkoutEntry[], name: string) => WorkoutEntry | undefined;
-  fromKg: (kg: number, unit: "kg" | "lb") => number;
-  roundDisplayUnit: (n: number, unit: "kg" | "lb") => number;
+  /** Reps and load (in the display unit) the progression suggests for an exercise */
+  suggestTarget: (name: string, rx: Prescription) => SuggestedTarget;
 }
 
 export default function WorkoutPreview({
@@ -64,17 +78,11 @@ export default function WorkoutPreview({
   onCancel,
   onEditExercise,
   editingIndex,
-  unit,
-  workouts,
-  lastEntryFor,
-  fromKg,
-  roundDisplayUnit,
+  suggestTarget,
 }: Props) {
   const [editedPlan, setEditedPlan] = useState(builtSession?.plan ? [...builtSession.plan] : []);
   const [addingExercise, setAddingExercise] = useState(false);
   const [selectedExerciseId, setSelectedExerciseId] = useState<string>("");
-  const KG_PER_LB = 0.45359237;
-  const PO_INCR = { kg: 2.5, lb: 5 };
 
   useEffect(() => {
     if (builtSession?.plan) {
@@ -93,6 +101,7 @@ export default function WorkoutPreview({
   }
 
   const { workout, planDay } = builtSession;
+  const labels = groupLabels(editedPlan);
 
   function addExercise() {
     if (!selectedExerciseId) return;
@@ -109,6 +118,7 @@ export default function WorkoutPreview({
           name: exercise.name,
           timed: true,
           seconds,
+          unilateral: exercise.isUnilateral,
           restSec,
           sets: [{ reps: "", weight: "" }],
         },
@@ -119,34 +129,11 @@ export default function WorkoutPreview({
       const repLow = repRange ? repRange[0] : 10;
       const repHigh = repRange ? repRange[1] : 12;
 
-      let nextReps = repLow;
-      let nextWeightUnit: number | "" = "";
-
-      const prev = lastEntryFor(workouts, exercise.name);
-      if (prev) {
-        const prevReps = prev.reps ?? repLow;
-        const prevWeightKg = prev.weightKg;
-
-        if (repHigh && prevReps >= repHigh) {
-          if (typeof prevWeightKg === "number") {
-            const incKg = PO_INCR[unit] === 5 ? 5 * KG_PER_LB : 2.5;
-            const suggestedKg = prevWeightKg + incKg;
-            const asUnit = fromKg(suggestedKg, unit);
-            nextWeightUnit = roundDisplayUnit(asUnit, unit);
-          }
-          nextReps = repLow;
-        } else {
-          nextReps = prevReps + 1;
-          if (typeof prevWeightKg === "number") {
-            const asUnit = fromKg(prevWeightKg, unit);
-            nextWeightUnit = roundDisplayUnit(asUnit, unit);
-          }
-        }
-      }
+      const target = suggestTarget(exercise.name, { repRange: [repLow, repHigh] });
 
       const setsArr = Array.from({ length: sets }, () => ({
-        reps: nextReps,
-        weight: nextWeightUnit,
+        reps: target.reps,
+        weight: target.weight,
       }));
 
       setEditedPlan([
@@ -154,7 +141,9 @@ export default function WorkoutPreview({
         {
           name: exercise.name,
           sets: setsArr,
+          unilateral: exercise.isUnilateral,
           restSec,
+          reason: target.reason,
         },
       ]);
     }
@@ -164,7 +153,7 @@ export default function WorkoutPreview({
   }
 
   function removeExercise(index: number) {
-    setEditedPlan(editedPlan.filter((_, i) => i !== index));
+    setEditedPlan(normalizeGroups(editedPlan.filter((_, i) => i !== index)));
     if (editingIndex === index) {
       onEditExercise(-1);
     } else if (editingIndex !== null && editingIndex > index) {
@@ -182,7 +171,7 @@ export default function WorkoutPreview({
 
     const newPlan = [...editedPlan];
     [newPlan[index], newPlan[newIndex]] = [newPlan[newIndex], newPlan[index]];
-    setEditedPlan(newPlan);
+    setEditedPlan(normalizeGroups(newPlan));
   }
 
   if (builtSession.mode === "circuit" && builtSession.circuitSpec) {
@@ -210,7 +199,56 @@ export default function WorkoutPreview({
             <ul className="list-disc list-inside mt-3 space-y-1 text-sm">
               {builtSession.circuitSpec.stations.map((st, i) => (
                 <li key={i}>
-                  {st.label}: {st.seconds}s
+                  {st.label}: {stationTarget(st)}
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={onCancel} className="rounded-xl">
+              Cancel
+            </Button>
+            <Button onClick={() => onStart()} className="rounded-xl">
+              Start Workout
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (builtSession.mode === "intervals" && builtSession.intervalSpec) {
+    const spec = builtSession.intervalSpec;
+    const minutes = Math.round((totalSeconds(spec) / 60) * 10) / 10;
+    return (
+      <Card className="rounded-2xl shadow-sm border-2 border-blue-200">
+        <CardHeader>
+          <CardTitle className="text-lg">
+            Preview: Day {day} — {planDay.title}
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div>
+            <Label>Session Date</Label>
+            <Input type="date" value={date} onChange={(e) => onDateChange(e.target.value)} />
+          </div>
+
+          <div className="p-4 bg-slate-50 rounded-lg">
+            <div className="font-semibold mb-2">{describeIntervalSpec(spec)}: {workout.name}</div>
+            {workout.description && (
+              <div className="text-sm text-slate-600 mb-2">{workout.description}</div>
+            )}
+            <div className="text-sm text-slate-600">
+              {spec.mode === "amrap"
+                ? `${minutes} min cap • as many rounds as possible`
+                : `${buildIntervals(spec).length} intervals • ${minutes} min`}
+            </div>
+            <ul className="list-disc list-inside mt-3 space-y-1 text-sm">
+              {spec.movements.map((m, i) => (
+                <li key={i}>
+                  {m.label}
+                  {m.reps ? `: ${m.reps} reps` : ""}
                 </li>
               ))}
             </ul>
@@ -283,97 +321,66 @@ export default function WorkoutPreview({
             )}
           </div>
 
-          {editedPlan.map((ex, index) => (
-            <Card key={index} className="rounded-lg border">
-              <CardContent className="p-4 space-y-2">
-                <div className="flex justify-between items-start">
-                  <div className="font-semibold flex-1">{ex.name}</div>
-                  <div className="flex gap-1">
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => moveExercise(index, "up")}
-                      disabled={index === 0}
-                      className="rounded-lg"
-                    >
-                      ↑
-                    </Button>
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => moveExercise(index, "down")}
-                      disabled={index === editedPlan.length - 1}
-                      className="rounded-lg"
-                    >
-                      ↓
-                    </Button>
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => removeExercise(index)}
-                      className="rounded-lg text-red-600"
-                    >
-                      ×
-                    </Button>
+          {editedPlan.map((ex, index) => {
+            // Warm-ups are generated; edits apply to the working sets
+            const warmups = ex.sets.filter((s) => s.warmup);
+            const working = ex.sets.filter((s) => !s.warmup);
+            const label = labels[index];
+            return (
+              <Card key={index} className={`rounded-lg border ${label ? "border-l-4 border-l-blue-400" : ""}`}>
+                <CardContent className="p-4 space-y-2">
+                  <div className="flex justify-between items-start">
+                    <div className="font-semibold flex-1">
+                      {label && <span className="mr-1 text-blue-700">{label}</span>}
+                      {ex.name}
+                      {label && runOf(editedPlan, index)[0] === index && (
+                        <span className="ml-2 text-xs font-normal text-slate-500">
+                          {GROUP_KIND_LABELS[groupKind(runOf(editedPlan, index).length)]}, rest after the round
+                        </span>
+                      )}
+                    </div>
+                    <div className="flex gap-1">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => moveExercise(index, "up")}
+                        disabled={index === 0}
+                        className="rounded-lg"
+                      >
+                        ↑
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => moveExercise(index, "down")}
+                        disabled={index === editedPlan.length - 1}
+                        className="rounded-lg"
+                      >
+                        ↓
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => removeExercise(index)}
+                        className="rounded-lg text-red-600"
+                      >
+                        ×
+                      </Button>
+                    </div>
                   </div>
-                </div>
 
-                {editingIndex === index ? (
-                  <div className="space-y-2 mt-2 p-3 bg-slate-50 rounded">
-                    {ex.timed ? (
-                      <div className="grid grid-cols-2 gap-2">
-                        <div>
-                          <Label>Duration (seconds)</Label>
-                          <Input
-                            type="number"
-                            value={ex.seconds ?? ""}
-                            onChange={(e) =>
-                              updateExercise(index, { seconds: e.target.value ? Number(e.target.value) : "" })
-                            }
-                          />
-                        </div>
-                        <div>
-                          <Label>Rest (seconds)</Label>
-                          <Input
-                            type="number"
-                            value={ex.restSec ?? ""}
-                            onChange={(e) =>
-                              updateExercise(index, { restSec: e.target.value ? Number(e.target.value) : undefined })
-                            }
-                          />
-                        </div>
-                      </div>
-                    ) : (
-                      <>
-                        <div className="grid grid-cols-3 gap-2">
+                  {editingIndex === index ? (
+                    <div className="space-y-2 mt-2 p-3 bg-slate-50 rounded">
+                      {ex.timed ? (
+                        <div className="grid grid-cols-2 gap-2">
                           <div>
-                            <Label>Sets</Label>
+                            <Label>Duration (seconds)</Label>
                             <Input
                               type="number"
-                              value={ex.sets.length}
-                              onChange={(e) => {
-                                const sets = Number(e.target.value) || 1;
-                                const currentSet = ex.sets[0];
-                                updateExercise(index, {
-                                  sets: Array.from({ length: sets }, () => ({
-                                    reps: currentSet?.reps ?? "",
-                                    weight: currentSet?.weight ?? "",
-                                  })),
-                                });
-                              }}
-                            />
-                          </div>
-                          <div>
-                            <Label>Reps</Label>
-                            <Input
-                              type="number"
-                              value={typeof ex.sets[0]?.reps === "number" ? ex.sets[0].reps : ""}
-                              onChange={(e) => {
-                                const reps = e.target.value ? Number(e.target.value) : "";
-                                updateExercise(index, {
-                                  sets: ex.sets.map(() => ({ ...ex.sets[0], reps })),
-                                });
-                              }}
+                              value={ex.seconds ?? ""}
+                              onChange={(e) =>
+                                updateExercise(index, { seconds: e.target.value ? Number(e.target.value) : "" })
+                              }
                             />
                           </div>
                           <div>
@@ -387,35 +394,85 @@ export default function WorkoutPreview({
                             />
                           </div>
                         </div>
-                      </>
-                    )}
-                    <Button
-                      size="sm"
-                      variant="outline"
-                      onClick={() => onEditExercise(-1)}
-                      className="rounded-lg w-full"
-                    >
-                      Done Editing
-                    </Button>
-                  </div>
-                ) : (
-                  <div className="text-sm text-slate-600">
-                    {ex.timed
-                      ? `${ex.seconds}s × ${ex.sets.length} sets @ ${ex.restSec ?? 90}s rest`
-                      : `${ex.sets.length} sets × ${typeof ex.sets[0]?.reps === "number" ? ex.sets[0].reps : "?"} reps @ ${ex.restSec ?? 90}s rest`}
-                    <Button
-                      size="sm"
-                      variant="ghost"
-                      onClick={() => onEditExercise(index)}
-                      className="ml-2 rounded-lg"
-                    >
-                      Edit
-                    </Button>
-                  </div>
-                )}
-              </CardContent>
-            </Card>
-          ))}
+                      ) : (
+                        <>
+                          <div className="grid grid-cols-3 gap-2">
+                            <div>
+                              <Label>Sets</Label>
+                              <Input
+                                type="number"
+                                value={working.length}
+                                onChange={(e) => {
+                                  const sets = Number(e.target.value) || 1;
+                                  const currentSet = working[0];
+                                  updateExercise(index, {
+                                    sets: [
+                                      ...warmups,
+                                      ...Array.from({ length: sets }, () => ({
+                                        reps: currentSet?.reps ?? "",
+                                        weight: currentSet?.weight ?? "",
+                                      })),
+                                    ],
+                                  });
+                                }}
+                              />
+                            </div>
+                            <div>
+                              <Label>Reps</Label>
+                              <Input
+                                type="number"
+                                value={typeof working[0]?.reps === "number" ? working[0].reps : ""}
+                                onChange={(e) => {
+                                  const reps = e.target.value ? Number(e.target.value) : "";
+                                  updateExercise(index, {
+                                    sets: [...warmups, ...working.map(() => ({ ...working[0], reps }))],
+                                  });
+                                }}
+                              />
+                            </div>
+                            <div>
+                              <Label>Rest (seconds)</Label>
+                              <Input
+                                type="number"
+                                value={ex.restSec ?? ""}
+                                onChange={(e) =>
+                                  updateExercise(index, { restSec: e.target.value ? Number(e.target.value) : undefined })
+                                }
+                              />
+                            </div>
+                          </div>
+                        </>
+                      )}
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => onEditExercise(-1)}
+                        className="rounded-lg w-full"
+                      >
+                        Done Editing
+                      </Button>
+                    </div>
+                  ) : (
+                    <div className="text-sm text-slate-600">
+                      {ex.timed
+                        ? `${ex.seconds}s${ex.unilateral ? " per side" : ""} × ${ex.sets.length} sets @ ${ex.restSec ?? 90}s rest`
+                        : `${working.length} sets × ${typeof working[0]?.reps === "number" ? working[0].reps : "?"} reps${ex.unilateral ? " per side" : ""} @ ${ex.restSec ?? 90}s rest`}
+                      {warmups.length > 0 && ` + ${warmups.length} warm-up${warmups.length === 1 ? "" : "s"}`}
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => onEditExercise(index)}
+                        className="ml-2 rounded-lg"
+                      >
+                        Edit
+                      </Button>
+                      {ex.reason && <div className="text-xs text-slate-500">Target: {ex.reason}</div>}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            );
+          })}
 
           {editedPlan.length === 0 && (
             <div className="text-center py-4 text-slate-500 text-sm">
@@ -0,0 +1,125 @@
+/**
+ * Left/Right Asymmetry
+ *
+ * Unilateral exercises are logged one side per row (`side` on the log
+ * row). Each session's sides are compared on the volume they moved, as
+ * measured in lib/metrics, so loaded sets, bodyweight reps and holds are
+ * all compared like with like.
+ * - A session counts once both sides were logged in it
+ * - The imbalance is how far the weaker side falls short of the stronger,
+ *   as a fraction of the stronger side
+ * - Warm-up sets have no volume, so they don't count
+ */
+
+import { setMetrics, type MetricOptions, type VolumeMetric } from "./metrics";
+import type { Side, WorkoutEntry } from "./pr";
+
+export const SIDES: Side[] = ["left", "right"];
+
+export const SIDE_LABELS: Record<Side, string> = {
+  left: "Left",
+  right: "Right",
+};
+
+/** Short label for a set's side, e.g. in the tracker's set column */
+export const SIDE_SHORT_LABELS: Record<Side, string> = {
+  left: "L",
+  right: "R",
+};
+
+/** Default lag, as a fraction of the stronger side, that raises an alert */
+export const DEFAULT_IMBALANCE_THRESHOLD = 0.1;
+
+/**
+ * One session's sides, compared
+ */
+export interface SideComparison {
+  date: string;
+  sessionId?: string;
+  metric: VolumeMetric;
+  left: number;
+  right: number;
+  /** 0 when even, up to 1 when one side did nothing */
+  imbalance: number;
+  /** Undefined when both sides are even */
+  weaker?: Side;
+}
+
+/**
+ * Per-session comparisons of an exercise's sides, oldest first
+ */
+export function compareSides(log: WorkoutEntry[], name: string, options: MetricOptions = {}): SideComparison[] {
+  const sessions = new Map<string, { date: string; sessionId?: string; metric?: VolumeMetric; totals: Record<Side, number> }>();
+  for (const entry of log) {
+    if (entry.name !== name || !entry.side || entry.warmup) continue;
+    const key = entry.sessionId ?? `date:${entry.date}`;
+    let session = sessions.get(key);
+    if (!session) {
+      session = { date: entry.date, sessionId: entry.sessionId, totals: { left: 0, right: 0 } };
+      sessions.set(key, session);
+    }
+    const metrics = setMetrics(entry, options);
+    if (!session.metric) session.metric = metrics.metric;
+    session.totals[entry.side] += metrics.volume;
+  }
+
+  const comparisons: SideComparison[] = [];
+  for (const { date, sessionId, metric, totals } of sessions.values()) {
+    if (totals.left <= 0 || totals.right <= 0) continue;
+    const stronger = Math.max(totals.left, totals.right);
+    const imbalance = (stronger - Math.min(totals.left, totals.right)) / stronger;
+    comparisons.push({
+      date,
+      sessionId,
+      metric: metric ?? "reps",
+      left: totals.left,
+      right: totals.right,
+      imbalance,
+      weaker: totals.left === totals.right ? undefined : totals.left < totals.right ? "left" : "right",
+    });
+  }
+  return comparisons.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * An exercise whose latest session had one side lagging past the threshold
+ */
+export interface Imbalance extends SideComparison {
+  name: string;
+  weaker: Side;
+}
+
+/**
+ * Exercises whose weaker side lagged by more than `threshold` in their
+ * latest session with both sides logged
+ */
+export function findImbalances(
+  log: WorkoutEntry[],
+  threshold = DEFAULT_IMBALANCE_THRESHOLD,
+  options: MetricOptions = {}
+): Imbalance[] {
+  const imbalances: Imbalance[] = [];
+  for (const name of unilateralNames(log)) {
+    const comparisons = compareSides(log, name, options);
+    const latest = comparisons[comparisons.length - 1];
+    if (latest?.weaker && latest.imbalance > threshold) {
+      imbalances.push({ ...latest, name, weaker: latest.weaker });
+    }
+  }
+  return imbalances.sort((a, b) => b.imbalance - a.imbalance);
+}
+
+/**
+ * Names of exercises with rows logged per side
+ */
+export function unilateralNames(log: WorkoutEntry[]): string[] {
+  return Array.from(new Set(log.filter((entry) => entry.side).map((entry) => entry.name))).sort();
+}
+
+/**
+ * E.g. "Left 18% behind right"
+ */
+export function describeImbalance(imbalance: Imbalance): string {
+  const stronger: Side = imbalance.weaker === "left" ? "right" : "left";
+  return `${SIDE_LABELS[imbalance.weaker]} ${Math.round(imbalance.imbalance * 100)}% behind ${stronger}`;
+}
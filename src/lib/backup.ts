@@ -0,0 +1,360 @@
+/**
+ * Backup & Restore
+ *
+ * Builds a complete archive of every store (profile, exercises, workouts,
+ * plans, the workout log and sessions) with a manifest, and plans a restore as either
+ * a merge (dedupe by id; the log also matches by date and set order, see
+ * logMerge) or a full replace so the user can preview it first.
+ */
+
+import { version as APP_VERSION } from "../../package.json";
+import type { WorkoutEntry } from "./pr";
+import type { Session } from "./sessions";
+import {
+  analyzeLogMerge,
+  newestSide,
+  resolveLogMerge,
+  type ConflictChoice,
+  type LogConflict,
+  type LogMergeAnalysis,
+} from "./logMerge";
+import type { Exercise, Workout, WorkoutPlan } from "./workoutLibrary";
+import type { ProfileShape } from "@/components/ProfileTab";
+import {
+  SCHEMA_VERSION,
+  repairLogEntry,
+  upgradeLogEntry,
+  validateExercise,
+  validateLogEntry,
+  validatePlan,
+  validateProfile,
+  validateSession,
+  validateWorkout,
+  type Validator,
+} from "./storage";
+
+export const BACKUP_FORMAT = "dancers-split-backup";
+
+/**
+ * Everything the app persists
+ */
+export interface BackupData {
+  profile: ProfileShape | null;
+  exercises: Exercise[];
+  workouts: Workout[];
+  plans: WorkoutPlan[];
+  log: WorkoutEntry[];
+  sessions: Session[];
+}
+
+export type BackupStore = Exclude<keyof BackupData, "profile">;
+
+export const BACKUP_STORES: BackupStore[] = ["exercises", "workouts", "plans", "log", "sessions"];
+
+export interface BackupManifest {
+  format: typeof BACKUP_FORMAT;
+  appVersion: string;
+  schemaVersion: number;
+  createdAt: string; // ISO timestamp
+  counts: Record<BackupStore, number>;
+  checksum: string; // FNV-1a over the serialized data
+}
+
+export interface BackupArchive {
+  manifest: BackupManifest;
+  data: BackupData;
+}
+
+/**
+ * Thrown when a file cannot be read as a backup
+ */
+export class BackupError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BackupError";
+  }
+}
+
+/**
+ * 32-bit FNV-1a hash as 8 hex digits. Enough to catch truncated or
+ * hand-edited files; this is not a security boundary.
+ */
+export function checksum(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `fnv1a:${(hash >>> 0).toString(16).padStart(8, "0")}`;
+}
+
+function countStores(data: BackupData): Record<BackupStore, number> {
+  return {
+    exercises: data.exercises.length,
+    workouts: data.workouts.length,
+    plans: data.plans.length,
+    log: data.log.length,
+    sessions: data.sessions.length,
+  };
+}
+
+/**
+ * Build a backup archive of the current data
+ */
+export function createBackup(data: BackupData): BackupArchive {
+  return {
+    manifest: {
+      format: BACKUP_FORMAT,
+      appVersion: APP_VERSION,
+      schemaVersion: SCHEMA_VERSION,
+      createdAt: new Date().toISOString(),
+      counts: countStores(data),
+      checksum: checksum(JSON.stringify(data)),
+    },
+    data,
+  };
+}
+
+/**
+ * Result of reading a backup file
+ */
+export interface ParsedBackup {
+  archive: BackupArchive;
+  /** Rows dropped because they failed validation, per store */
+  rejected: Record<BackupStore, number>;
+  /** Stores the file actually contains; missing ones are left untouched on restore */
+  present: BackupStore[];
+  /** True for the old `{ profile, workouts }` export */
+  legacy: boolean;
+  /** False when the stored checksum does not match the data */
+  checksumOk: boolean;
+}
+
+function keepValid<T>(rows: unknown, validate: Validator<T>): { valid: T[]; rejected: number } {
+  if (!Array.isArray(rows)) return { valid: [], rejected: 0 };
+  const valid: T[] = [];
+  let rejected = 0;
+  for (const row of rows) {
+    const result = validate(row);
+    if (result.ok === false) {
+      rejected++;
+      continue;
+    }
+    valid.push(result.value);
+  }
+  return { valid, rejected };
+}
+
+/**
+ * Parse and validate a backup file. Accepts both the full archive and the
+ * legacy `{ profile, workouts }` export (where `workouts` is the log).
+ */
+export function parseBackup(text: string): ParsedBackup {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    throw new BackupError(`File is not valid JSON: ${(error as Error).message}`);
+  }
+  if (typeof parsed !== "object" || parsed === null) {
+    throw new BackupError("File does not contain a backup");
+  }
+
+  const raw = parsed as Record<string, unknown>;
+  const isArchive =
+    typeof raw.manifest === "object" &&
+    raw.manifest !== null &&
+    (raw.manifest as Record<string, unknown>).format === BACKUP_FORMAT;
+
+  if (!isArchive && !Array.isArray(raw.workouts) && !raw.profile) {
+    throw new BackupError("File does not contain a backup");
+  }
+
+  const source = (isArchive ? raw.data : { profile: raw.profile, log: raw.workouts }) as
+    | Record<string, unknown>
+    | undefined;
+  if (!source || typeof source !== "object") {
+    throw new BackupError("Backup has no data section");
+  }
+
+  if (isArchive) {
+    const manifest = raw.manifest as BackupManifest;
+    if (manifest.schemaVersion > SCHEMA_VERSION) {
+      throw new BackupError(
+        `Backup was made with a newer app (schema v${manifest.schemaVersion}, this app reads up to v${SCHEMA_VERSION})`
+      );
+    }
+  }
+
+  const exercises = keepValid(source.exercises, validateExercise);
+  const workouts = keepValid(source.workouts, validateWorkout);
+  const plans = keepValid(source.plans, validatePlan);
+  const log = keepValid(Array.isArray(source.log) ? source.log.map(repairLogEntry) : source.log, validateLogEntry);
+  const sessions = keepValid(source.sessions, validateSession);
+  const profileResult = source.profile === undefined ? null : validateProfile(source.profile);
+
+  const data: BackupData = {
+    profile: profileResult && profileResult.ok ? profileResult.value : null,
+    exercises: exercises.valid,
+    workouts: workouts.valid,
+    plans: plans.valid,
+    // Older backups store timed sets as "Name (sec)" rows
+    log: log.valid.map(upgradeLogEntry),
+    sessions: sessions.valid,
+  };
+
+  const manifest: BackupManifest = isArchive
+    ? (raw.manifest as BackupManifest)
+    : {
+        format: BACKUP_FORMAT,
+        appVersion: "legacy",
+        schemaVersion: SCHEMA_VERSION,
+        createdAt: new Date().toISOString(),
+        counts: countStores(data),
+        checksum: checksum(JSON.stringify(data)),
+      };
+
+  return {
+    archive: { manifest, data },
+    rejected: {
+      exercises: exercises.rejected,
+      workouts: workouts.rejected,
+      plans: plans.rejected,
+      log: log.rejected,
+      sessions: sessions.rejected,
+    },
+    present: BACKUP_STORES.filter((store) => Array.isArray(source[store])),
+    legacy: !isArchive,
+    checksumOk: !isArchive || checksum(JSON.stringify(source)) === manifest.checksum,
+  };
+}
+
+/**
+ * How a restore changes one store
+ */
+export interface StoreChange {
+  added: number;
+  updated: number;
+  unchanged: number;
+  removed: number;
+}
+
+export type RestoreMode = "merge" | "replace";
+
+export interface RestorePlan {
+  mode: RestoreMode;
+  changes: Record<BackupStore, StoreChange>;
+  profileChanged: boolean;
+  /** Log rows that differ between the backup and local data (merge only) */
+  logConflicts: LogConflict[];
+  /** The data to commit if the user confirms */
+  result: BackupData;
+}
+
+function sameRecord(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * For library records, keep whichever copy was edited last
+ */
+function isNewer(incoming: { updated?: string }, existing: { updated?: string }): boolean {
+  if (!incoming.updated || !existing.updated) return true;
+  return incoming.updated >= existing.updated;
+}
+
+function mergeStore<T extends { id: string; updated?: string }>(
+  current: T[],
+  incoming: T[],
+  mode: RestoreMode
+): { rows: T[]; change: StoreChange } {
+  const change: StoreChange = { added: 0, updated: 0, unchanged: 0, removed: 0 };
+  const currentById = new Map(current.map((row) => [row.id, row]));
+  const incomingById = new Map(incoming.map((row) => [row.id, row]));
+
+  for (const row of incomingById.values()) {
+    const existing = currentById.get(row.id);
+    if (!existing) change.added++;
+    else if (sameRecord(existing, row)) change.unchanged++;
+    else if (mode === "replace" || isNewer(row, existing)) change.updated++;
+    else change.unchanged++;
+  }
+
+  if (mode === "replace") {
+    change.removed = current.filter((row) => !incomingById.has(row.id)).length;
+    return { rows: [...incomingById.values()], change };
+  }
+
+  // Merge: keep every current row, swapping in incoming copies where they win
+  const rows = current.map((row) => {
+    const other = incomingById.get(row.id);
+    return other && !sameRecord(other, row) && isNewer(other, row) ? other : row;
+  });
+  for (const row of incomingById.values()) {
+    if (!currentById.has(row.id)) rows.push(row);
+  }
+  return { rows, change };
+}
+
+function logMergeChange(
+  analysis: LogMergeAnalysis,
+  choices: Record<string, ConflictChoice>
+): StoreChange {
+  const updated = analysis.conflicts.filter((c) => (choices[c.id] ?? newestSide(c)) === "incoming").length;
+  return {
+    added: analysis.added.length,
+    updated,
+    unchanged: analysis.identical + analysis.conflicts.length - updated,
+    removed: 0,
+  };
+}
+
+/**
+ * Work out what restoring `incoming` over `current` would do, without
+ * touching anything
+ */
+export function planRestore(
+  current: BackupData,
+  incoming: BackupData,
+  mode: RestoreMode,
+  present: BackupStore[] = BACKUP_STORES,
+  logChoices: Record<string, ConflictChoice> = {}
+): RestorePlan {
+  function restoreStore<T extends { id: string; updated?: string }>(store: BackupStore, cur: T[], inc: T[]) {
+    if (present.includes(store)) return mergeStore(cur, inc, mode);
+    return { rows: cur, change: { added: 0, updated: 0, unchanged: cur.length, removed: 0 } };
+  }
+  const exercises = restoreStore("exercises", current.exercises, incoming.exercises);
+  const workouts = restoreStore("workouts", current.workouts, incoming.workouts);
+  const plans = restoreStore("plans", current.plans, incoming.plans);
+  const mergeLog = mode === "merge" && present.includes("log");
+  const logAnalysis = mergeLog ? analyzeLogMerge(current.log, incoming.log) : null;
+  const log = logAnalysis
+    ? { rows: resolveLogMerge(current.log, logAnalysis, logChoices), change: logMergeChange(logAnalysis, logChoices) }
+    : restoreStore("log", current.log, incoming.log);
+  const sessions = restoreStore("sessions", current.sessions, incoming.sessions);
+
+  // Merge keeps the current profile; replace takes the backup's if it has one
+  const profile = mode === "replace" && incoming.profile ? incoming.profile : current.profile;
+
+  return {
+    mode,
+    changes: {
+      exercises: exercises.change,
+      workouts: workouts.change,
+      plans: plans.change,
+      log: log.change,
+      sessions: sessions.change,
+    },
+    profileChanged: !sameRecord(profile, current.profile),
+    logConflicts: logAnalysis?.conflicts ?? [],
+    result: {
+      profile,
+      exercises: exercises.rows,
+      workouts: workouts.rows,
+      plans: plans.rows,
+      log: [...log.rows].sort((a, b) => b.date.localeCompare(a.date)),
+      sessions: [...sessions.rows].sort((a, b) => b.date.localeCompare(a.date)),
+    },
+  };
+}
@@ -0,0 +1,41 @@
+/**
+ * Circuit Stations
+ *
+ * A station is either timed (work until the clock runs out) or rep-based
+ * (do the reps, then tap done). Either kind can carry a load. Each round
+ * of each station is logged as its own row.
+ */
+
+import type { CircuitStation } from "@/components/CircuitRunner";
+import { spokenSeconds } from "./cues";
+
+export function isTimedStation(station: CircuitStation): boolean {
+  return station.seconds !== undefined;
+}
+
+/**
+ * What a station asks for, e.g. "45s", "10-12 reps" or "Reps"
+ */
+export function stationTarget(station: CircuitStation): string {
+  if (station.seconds !== undefined) return `${station.seconds}s`;
+  const range = station.repRange;
+  if (!range) return "Reps";
+  return range[0] === range[1] ? `${range[0]} reps` : `${range[0]}-${range[1]} reps`;
+}
+
+/**
+ * The target read out by voice cues, e.g. "45 seconds" or "10 to 12 reps"
+ */
+export function spokenStationTarget(station: CircuitStation): string | undefined {
+  if (station.seconds !== undefined) return spokenSeconds(station.seconds);
+  const range = station.repRange;
+  if (!range) return undefined;
+  return range[0] === range[1] ? `${range[0]} reps` : `${range[0]} to ${range[1]} reps`;
+}
+
+/**
+ * Reps prefilled for a rep station: the bottom of its range
+ */
+export function defaultStationReps(station: CircuitStation): number | "" {
+  return station.repRange?.[0] ?? "";
+}
@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import { dryRunCsvImport, guessMapping, parseCsv } from "./csv";
+
+describe("dryRunCsvImport", () => {
+  it("numbers each date's rows in file order", () => {
+    const [header, ...rows] = parseCsv(
+      [
+        "Date,Exercise,Reps,Weight (kg)",
+        "2026-03-02,Bench Press,8,60",
+        "2026-03-01,Squat,5,100",
+        "2026-03-02,Bench Press,7,60",
+        "not a date,Bench Press,6,60",
+        "2026-03-02,Bench Press,6,60",
+      ].join("\n")
+    );
+    let next = 9;
+    const { entries, rejected } = dryRunCsvImport(rows, {
+      mapping: guessMapping(header),
+      unit: "kg",
+      dateFormat: "YMD",
+      makeId: () => `id${next--}`,
+    });
+    expect(rejected).toHaveLength(1);
+    expect(entries.map((row) => [row.date, row.reps, row.setIndex])).toEqual([
+      ["2026-03-02", 8, 1],
+      ["2026-03-01", 5, 1],
+      ["2026-03-02", 7, 2],
+      ["2026-03-02", 6, 3],
+    ]);
+  });
+});
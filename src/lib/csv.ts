@@ -0,0 +1,455 @@
+/**
+ * Workout Log CSV
+ *
+ * Spreadsheet-friendly export and import of the per-set log.
+ * - Export writes one row per log entry, weights in the user's unit, with
+ *   seconds, meters, set effort (RPE / RIR) and the warm-up flag in their
+ *   own columns
+ * - Import maps arbitrary columns onto log fields, detects the weight unit
+ *   and date format, and reports rejected rows before anything is saved
+ */
+
+import type { Side, WorkoutEntry } from "./pr";
+import { assignSetIndexes, compareLogged, setNumbers } from "./logOrder";
+import { entryKind } from "./metrics";
+
+type Unit = "kg" | "lb";
+
+const KG_PER_LB = 0.45359237;
+
+/* --------------------------------------------
+   Reading & writing CSV text
+---------------------------------------------*/
+
+const DELIMITERS = [",", ";", "\t"];
+
+/**
+ * Pick the delimiter that splits the header line into the most columns
+ */
+function detectDelimiter(text: string): string {
+  const firstLine = text.slice(0, text.indexOf("\n") === -1 ? undefined : text.indexOf("\n"));
+  let best = ",";
+  let bestCount = 0;
+  for (const delimiter of DELIMITERS) {
+    const count = firstLine.split(delimiter).length - 1;
+    if (count > bestCount) {
+      best = delimiter;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+/**
+ * Parse CSV text (RFC 4180 quoting, CRLF or LF, optional BOM) into rows of
+ * cells. Blank lines are dropped.
+ */
+export function parseCsv(text: string): string[][] {
+  const source = text.replace(/^\uFEFF/, "");
+  const delimiter = detectDelimiter(source);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < source.length; i++) {
+    const ch = source[i];
+    if (inQuotes) {
+      if (ch === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        inQuotes = false;
+      } else {
+        cell += ch;
+      }
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === delimiter) {
+      row.push(cell);
+      cell = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && source[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += ch;
+    }
+  }
+  row.push(cell);
+  rows.push(row);
+
+  return rows.filter((r) => r.some((c) => c.trim() !== ""));
+}
+
+function escapeCell(value: string): string {
+  // Keep spreadsheets from evaluating free text as a formula
+  const safe = /^[=+\-@]/.test(value) ? `'${value}` : value;
+  return /[",\n\r]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+/**
+ * Serialize rows of cells as CSV with CRLF line endings
+ */
+export function toCsv(rows: string[][]): string {
+  return rows.map((row) => row.map(escapeCell).join(",")).join("\r\n");
+}
+
+/* --------------------------------------------
+   Export
+---------------------------------------------*/
+
+function formatNumber(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
+
+/**
+ * Log entries as CSV rows (header first), oldest first. Set numbers count
+ * each exercise's sets within a day in the order they were logged.
+ */
+export function logToCsvRows(entries: WorkoutEntry[], unit: Unit): string[][] {
+  const header = [
+    "Date",
+    "Exercise",
+    "Set",
+    "Sets",
+    "Reps",
+    `Weight (${unit})`,
+    "Seconds",
+    "Distance (m)",
+    "RPE",
+    "RIR",
+    "Warm-up",
+    "Side",
+    "Notes",
+    "PR Weight",
+    "PR Volume",
+  ];
+  const ordered = [...entries].sort(compareLogged);
+  const numbers = setNumbers(entries);
+
+  const rows = ordered.map((entry) => {
+    const kind = entryKind(entry);
+    const weight = entry.weightKg === undefined ? "" : formatNumber(unit === "lb" ? entry.weightKg / KG_PER_LB : entry.weightKg);
+    return [
+      entry.date,
+      entry.name,
+      String(numbers.get(entry.id) ?? ""),
+      String(entry.sets),
+      kind === "reps" || kind === "repsDuration" ? String(entry.reps) : "",
+      weight,
+      entry.durationSec === undefined ? "" : String(entry.durationSec),
+      entry.distanceM === undefined ? "" : formatNumber(entry.distanceM),
+      entry.rpe === undefined ? "" : formatNumber(entry.rpe),
+      entry.rir === undefined ? "" : formatNumber(entry.rir),
+      entry.warmup ? "yes" : "",
+      entry.side ?? "",
+      entry.notes ?? "",
+      entry.isPRMaxWeight ? "yes" : "",
+      entry.isPRVolume ? "yes" : "",
+    ];
+  });
+  return [header, ...rows];
+}
+
+/**
+ * The whole log as a CSV document
+ */
+export function logToCsv(entries: WorkoutEntry[], unit: Unit): string {
+  return toCsv(logToCsvRows(entries, unit));
+}
+
+/* --------------------------------------------
+   Import: column mapping
+---------------------------------------------*/
+
+export type CsvField =
+  | "date"
+  | "exercise"
+  | "sets"
+  | "reps"
+  | "weight"
+  | "seconds"
+  | "distance"
+  | "rpe"
+  | "rir"
+  | "warmup"
+  | "side"
+  | "unit"
+  | "notes";
+
+export interface CsvFieldSpec {
+  field: CsvField;
+  label: string;
+  required: boolean;
+  /** Lower-case header fragments that suggest this field */
+  hints: string[];
+}
+
+export const CSV_FIELDS: CsvFieldSpec[] = [
+  { field: "date", label: "Date", required: true, hints: ["date", "day"] },
+  { field: "exercise", label: "Exercise", required: true, hints: ["exercise", "movement", "name", "lift"] },
+  { field: "sets", label: "Sets", required: false, hints: ["sets"] },
+  { field: "reps", label: "Reps", required: false, hints: ["reps", "repetitions"] },
+  { field: "weight", label: "Weight", required: false, hints: ["weight", "load", "kg", "lb"] },
+  { field: "seconds", label: "Seconds", required: false, hints: ["seconds", "duration", "sec", "time (s)"] },
+  { field: "distance", label: "Distance (m)", required: false, hints: ["distance", "meters", "metres"] },
+  { field: "rpe", label: "RPE", required: false, hints: ["rpe"] },
+  { field: "rir", label: "RIR", required: false, hints: ["rir", "reps in reserve"] },
+  { field: "warmup", label: "Warm-up", required: false, hints: ["warm-up", "warmup", "warm up"] },
+  { field: "side", label: "Side", required: false, hints: ["side", "limb"] },
+  { field: "unit", label: "Unit column", required: false, hints: ["unit"] },
+  { field: "notes", label: "Notes", required: false, hints: ["notes", "note", "comment"] },
+];
+
+/** Column index per field; missing fields are not imported */
+export type ColumnMapping = Partial<Record<CsvField, number>>;
+
+/**
+ * Guess the column for each field from the header row. Exact matches win
+ * over partial ones and each column is used at most once.
+ */
+export function guessMapping(header: string[]): ColumnMapping {
+  const normalized = header.map((h) => h.trim().toLowerCase());
+  const mapping: ColumnMapping = {};
+  const used = new Set<number>();
+
+  for (const exact of [true, false]) {
+    for (const spec of CSV_FIELDS) {
+      if (mapping[spec.field] !== undefined) continue;
+      const index = normalized.findIndex(
+        (h, i) =>
+          !used.has(i) &&
+          spec.hints.some((hint) => (exact ? h === hint || h.startsWith(`${hint} (`) : h.includes(hint)))
+      );
+      if (index !== -1) {
+        mapping[spec.field] = index;
+        used.add(index);
+      }
+    }
+  }
+  return mapping;
+}
+
+/**
+ * Unit named in a cell such as "Weight (lb)", "lbs" or "KG"
+ */
+export function unitFromText(text: string): Unit | null {
+  const t = text.toLowerCase();
+  if (/\b(lb|lbs|pounds?)\b/.test(t)) return "lb";
+  if (/\b(kg|kgs|kilos?|kilograms?)\b/.test(t)) return "kg";
+  return null;
+}
+
+/**
+ * Side named in a cell such as "Left", "R" or "right leg"
+ */
+export function sideFromText(text: string): Side | undefined {
+  const t = text.trim().toLowerCase();
+  if (/^(l|left)\b/.test(t)) return "left";
+  if (/^(r|right)\b/.test(t)) return "right";
+  return undefined;
+}
+
+/**
+ * Weight unit for the file: from the weight column's header, then from a
+ * unit column, then the caller's fallback
+ */
+export function detectUnit(header: string[], rows: string[][], mapping: ColumnMapping, fallback: Unit): Unit {
+  if (mapping.weight !== undefined) {
+    const fromHeader = unitFromText(header[mapping.weight] ?? "");
+    if (fromHeader) return fromHeader;
+  }
+  if (mapping.unit !== undefined) {
+    for (const row of rows) {
+      const fromCell = unitFromText(row[mapping.unit] ?? "");
+      if (fromCell) return fromCell;
+    }
+  }
+  return fallback;
+}
+
+/* --------------------------------------------
+   Import: dates
+---------------------------------------------*/
+
+/** Year-month-day, month/day/year, or day/month/year */
+export type DateFormat = "YMD" | "MDY" | "DMY";
+
+export const DATE_FORMAT_LABELS: Record<DateFormat, string> = {
+  YMD: "YYYY-MM-DD",
+  MDY: "MM/DD/YYYY",
+  DMY: "DD/MM/YYYY",
+};
+
+const YMD_PATTERN = /^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})/;
+const DAY_FIRST_OR_MONTH_FIRST = /^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2}|\d{4})\b/;
+
+export interface DateDetection {
+  format: DateFormat;
+  /** True when every value reads validly as both MDY and DMY */
+  ambiguous: boolean;
+}
+
+/**
+ * Work out the date format from a column's values
+ */
+export function detectDateFormat(values: string[]): DateDetection {
+  const samples = values.map((v) => v.trim()).filter(Boolean);
+  if (samples.length > 0 && samples.every((v) => YMD_PATTERN.test(v))) {
+    return { format: "YMD", ambiguous: false };
+  }
+  let firstOver12 = false;
+  let secondOver12 = false;
+  for (const value of samples) {
+    const match = value.match(DAY_FIRST_OR_MONTH_FIRST);
+    if (!match) continue;
+    if (Number(match[1]) > 12) firstOver12 = true;
+    if (Number(match[2]) > 12) secondOver12 = true;
+  }
+  if (firstOver12 && !secondOver12) return { format: "DMY", ambiguous: false };
+  if (secondOver12 && !firstOver12) return { format: "MDY", ambiguous: false };
+  return { format: "MDY", ambiguous: !firstOver12 && !secondOver12 && samples.length > 0 };
+}
+
+/**
+ * Parse a date cell to YYYY-MM-DD, or null when it doesn't fit the format
+ */
+export function parseDate(value: string, format: DateFormat): string | null {
+  const text = value.trim();
+  let year: number;
+  let month: number;
+  let day: number;
+
+  if (format === "YMD") {
+    const match = text.match(YMD_PATTERN);
+    if (!match) return null;
+    [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  } else {
+    const match = text.match(DAY_FIRST_OR_MONTH_FIRST);
+    if (!match) return null;
+    const [a, b] = [Number(match[1]), Number(match[2])];
+    [month, day] = format === "MDY" ? [a, b] : [b, a];
+    year = match[3].length === 2 ? 2000 + Number(match[3]) : Number(match[3]);
+  }
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return date.toISOString().slice(0, 10);
+}
+
+/* --------------------------------------------
+   Import: dry run
+---------------------------------------------*/
+
+export interface CsvImportOptions {
+  mapping: ColumnMapping;
+  unit: Unit;
+  dateFormat: DateFormat;
+  makeId?: () => string;
+}
+
+export interface RejectedCsvRow {
+  /** 1-based line number in the file, counting the header */
+  line: number;
+  reason: string;
+  cells: string[];
+}
+
+export interface CsvImportReport {
+  entries: WorkoutEntry[];
+  rejected: RejectedCsvRow[];
+}
+
+function defaultId(): string {
+  return Math.random().toString(36).slice(2, 8) + Date.now().toString(36);
+}
+
+/**
+ * Parse a number cell, accepting a decimal comma ("82,5")
+ */
+export function parseNumber(value: string | undefined): number | null {
+  const text = (value ?? "").trim();
+  if (text === "") return null;
+  const n = Number(text.includes(".") ? text : text.replace(",", "."));
+  return Number.isFinite(n) ? n : null;
+}
+
+function unquoteFormula(value: string): string {
+  return /^'[=+\-@]/.test(value) ? value.slice(1) : value;
+}
+
+/**
+ * Convert data rows (header excluded) to log entries without saving
+ * anything, collecting the reason each rejected row would be skipped.
+ * Each date's entries are numbered in file order.
+ */
+export function dryRunCsvImport(rows: string[][], options: CsvImportOptions): CsvImportReport {
+  const { mapping, dateFormat, makeId = defaultId } = options;
+  const cell = (row: string[], field: CsvField) =>
+    mapping[field] === undefined ? undefined : unquoteFormula((row[mapping[field]!] ?? "").trim());
+  const report: CsvImportReport = { entries: [], rejected: [] };
+
+  rows.forEach((row, index) => {
+    const reject = (reason: string) => report.rejected.push({ line: index + 2, reason, cells: row });
+
+    const rawDate = cell(row, "date") ?? "";
+    const date = parseDate(rawDate, dateFormat);
+    if (!date) return reject(rawDate ? `Unreadable date "${rawDate}"` : "Missing date");
+
+    const name = cell(row, "exercise") ?? "";
+    if (!name) return reject("Missing exercise");
+
+    const seconds = parseNumber(cell(row, "seconds"));
+    const distance = parseNumber(cell(row, "distance"));
+    const reps = parseNumber(cell(row, "reps"));
+    const weight = parseNumber(cell(row, "weight"));
+    const sets = parseNumber(cell(row, "sets"));
+    const rpe = parseNumber(cell(row, "rpe"));
+    const rir = parseNumber(cell(row, "rir"));
+    const notes = cell(row, "notes") || undefined;
+    const warmup = /^(yes|y|true|1|w)$/i.test(cell(row, "warmup") ?? "") || undefined;
+    const side = sideFromText(cell(row, "side") ?? "");
+
+    if (cell(row, "seconds") && seconds === null) return reject(`Invalid seconds "${cell(row, "seconds")}"`);
+    if (cell(row, "distance") && distance === null) return reject(`Invalid distance "${cell(row, "distance")}"`);
+    if (cell(row, "reps") && reps === null) return reject(`Invalid reps "${cell(row, "reps")}"`);
+    if (cell(row, "weight") && weight === null) return reject(`Invalid weight "${cell(row, "weight")}"`);
+    if (cell(row, "rpe") && (rpe === null || rpe < 0 || rpe > 10)) return reject(`Invalid RPE "${cell(row, "rpe")}"`);
+    if (cell(row, "rir") && (rir === null || rir < 0)) return reject(`Invalid RIR "${cell(row, "rir")}"`);
+    if ((seconds ?? 0) < 0 || (distance ?? 0) < 0 || (reps ?? 0) < 0 || (weight ?? 0) < 0) return reject("Negative value");
+    if (!seconds && !distance && reps === null) return reject("No reps, seconds or distance");
+
+    const rowUnit = unitFromText(cell(row, "unit") ?? "") ?? options.unit;
+    const weightKg = weight === null ? undefined : Math.round((rowUnit === "lb" ? weight * KG_PER_LB : weight) * 100) / 100;
+    const entry = {
+      id: makeId(),
+      date,
+      name,
+      sets: sets && sets > 0 ? Math.round(sets) : 1,
+      weightKg,
+      rpe: rpe ?? undefined,
+      rir: rir ?? undefined,
+      warmup,
+      side,
+      notes,
+    };
+
+    if (distance) {
+      report.entries.push({ ...entry, kind: "distance", reps: 0, distanceM: distance, durationSec: seconds || undefined });
+    } else if (seconds) {
+      report.entries.push(
+        reps
+          ? { ...entry, kind: "repsDuration", reps, durationSec: seconds }
+          : { ...entry, kind: "duration", reps: 0, durationSec: seconds }
+      );
+    } else {
+      report.entries.push({ ...entry, kind: "reps", reps: reps ?? 0 });
+    }
+  });
+
+  report.entries = assignSetIndexes(report.entries);
+  return report;
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { CUE_TONES, createCueEngine, type CueBackend, type Tone } from "./cues";
+
+// Records what would have played
+function fakeBackend() {
+  const tones: { tone: Tone; volume: number }[] = [];
+  const spoken: { text: string; volume: number }[] = [];
+  const backend: CueBackend = {
+    tone: (tone, volume) => tones.push({ tone, volume }),
+    speak: (text, volume) => spoken.push({ text, volume }),
+    canSpeak: () => true,
+  };
+  return { backend, tones, spoken };
+}
+
+describe("createCueEngine", () => {
+  it("plays a cue's tones at the set volume", () => {
+    const { backend, tones } = fakeBackend();
+    createCueEngine(backend, { volume: 0.5 }).play("roundComplete");
+    expect(tones).toEqual(CUE_TONES.roundComplete.map((tone) => ({ tone, volume: 0.5 })));
+  });
+
+  it("beeps only on the last countdown seconds", () => {
+    const { backend, tones } = fakeBackend();
+    const cues = createCueEngine(backend, { countdownSec: 3 });
+    for (const remaining of [5, 4, 3, 2, 1, 0]) cues.tick(remaining);
+    expect(tones).toHaveLength(3);
+    expect(tones.every(({ tone }) => tone === CUE_TONES.countdown[0])).toBe(true);
+  });
+
+  it("doesn't count down when the countdown is off", () => {
+    const { backend, tones } = fakeBackend();
+    const cues = createCueEngine(backend, { countdownSec: 0 });
+    for (const remaining of [3, 2, 1]) cues.tick(remaining);
+    expect(tones).toHaveLength(0);
+  });
+
+  it("speaks only with voice on", () => {
+    const { backend, spoken } = fakeBackend();
+    const cues = createCueEngine(backend, { volume: 0.8 });
+    cues.say("Next: Box Jumps");
+    expect(spoken).toHaveLength(0);
+
+    cues.configure({ volume: 0.8, voice: true });
+    cues.say("Next: Box Jumps");
+    expect(spoken).toEqual([{ text: "Next: Box Jumps", volume: 0.8 }]);
+  });
+
+  it("plays and says nothing while muted", () => {
+    const { backend, tones, spoken } = fakeBackend();
+    const cues = createCueEngine(backend, { muted: true, voice: true });
+    cues.play("work");
+    cues.tick(1);
+    cues.say("Rest");
+    expect(tones).toHaveLength(0);
+    expect(spoken).toHaveLength(0);
+
+    cues.configure({ voice: true });
+    cues.play("work");
+    cues.say("Rest");
+    expect(tones).toHaveLength(CUE_TONES.work.length);
+    expect(spoken).toHaveLength(1);
+  });
+
+  it("treats zero volume as muted", () => {
+    const { backend, tones, spoken } = fakeBackend();
+    const cues = createCueEngine(backend, { volume: 0, voice: true });
+    cues.play("done");
+    cues.say("Done");
+    expect(tones).toHaveLength(0);
+    expect(spoken).toHaveLength(0);
+  });
+});
@@ -0,0 +1,199 @@
+/**
+ * Audio Cues
+ *
+ * One engine for the beeps and spoken cues of the circuit, interval and
+ * rest timers, so they share their tones, volume and mute switch.
+ * - Sound goes through a backend: the browser one plays tones on a single
+ *   shared AudioContext and speaks with the Web Speech API; a fake backend
+ *   can record what would have played
+ * - Countdown beeps play on the last few seconds of a phase
+ * - Nothing plays while muted; speech also needs `voice` turned on
+ */
+
+export type Cue = "countdown" | "work" | "rest" | "roundComplete" | "done";
+
+export interface Tone {
+  frequency: number;
+  durationMs: number;
+  /** Delay from the start of the cue */
+  offsetMs?: number;
+}
+
+/** Each cue's tones: short ticks count down, rising chimes close a round */
+export const CUE_TONES: Record<Cue, Tone[]> = {
+  countdown: [{ frequency: 660, durationMs: 100 }],
+  work: [{ frequency: 880, durationMs: 300 }],
+  rest: [
+    { frequency: 660, durationMs: 150 },
+    { frequency: 440, durationMs: 250, offsetMs: 170 },
+  ],
+  roundComplete: [
+    { frequency: 660, durationMs: 120 },
+    { frequency: 880, durationMs: 120, offsetMs: 140 },
+    { frequency: 1100, durationMs: 200, offsetMs: 280 },
+  ],
+  done: [
+    { frequency: 880, durationMs: 150 },
+    { frequency: 1100, durationMs: 150, offsetMs: 170 },
+    { frequency: 1320, durationMs: 450, offsetMs: 340 },
+  ],
+};
+
+export interface CueSettings {
+  muted?: boolean;
+  /** 0 to 1 */
+  volume?: number;
+  /** Speak what's next, e.g. "Next: Box Jumps, 45 seconds" */
+  voice?: boolean;
+  /** Seconds beeped down before a phase ends; 0 for none */
+  countdownSec?: number;
+}
+
+export const DEFAULT_CUE_SETTINGS: Required<CueSettings> = {
+  muted: false,
+  volume: 0.6,
+  voice: false,
+  countdownSec: 3,
+};
+
+/**
+ * Where sound ends up
+ */
+export interface CueBackend {
+  tone(tone: Tone, volume: number): void;
+  speak(text: string, volume: number): void;
+  /** Whether speech is available at all */
+  canSpeak(): boolean;
+}
+
+/** Peak gain of a tone at full volume; louder clips on phone speakers */
+const MAX_GAIN = 0.3;
+
+/**
+ * Tones on one shared AudioContext, opened on first use, and speech via
+ * speechSynthesis. Failures are logged, never thrown: a missing cue must
+ * never stop the clock.
+ */
+export function createBrowserBackend(): CueBackend {
+  let ctx: AudioContext | null = null;
+
+  function audio(): AudioContext | null {
+    if (ctx) return ctx;
+    const Ctx =
+      typeof window === "undefined"
+        ? undefined
+        : window.AudioContext ?? (window as unknown as { webkitAudioContext?: typeof AudioContext }).webkitAudioContext;
+    if (!Ctx) return null;
+    ctx = new Ctx();
+    return ctx;
+  }
+
+  function canSpeak() {
+    return typeof window !== "undefined" && "speechSynthesis" in window;
+  }
+
+  return {
+    canSpeak,
+    tone(tone, volume) {
+      try {
+        const ac = audio();
+        if (!ac) return;
+        // Browsers start the context suspended until a tap; the runners' buttons are taps
+        if (ac.state === "suspended") void ac.resume();
+        const start = ac.currentTime + (tone.offsetMs ?? 0) / 1000;
+        const end = start + tone.durationMs / 1000;
+        const o = ac.createOscillator();
+        const g = ac.createGain();
+        o.type = "sine";
+        o.frequency.value = tone.frequency;
+        o.connect(g);
+        g.connect(ac.destination);
+        g.gain.setValueAtTime(0.0001, start);
+        g.gain.exponentialRampToValueAtTime(Math.max(0.0001, MAX_GAIN * volume), start + 0.01);
+        g.gain.exponentialRampToValueAtTime(0.0001, end);
+        o.start(start);
+        o.stop(end + 0.01);
+      } catch (error) {
+        console.error("[cues] Failed to play tone:", error);
+      }
+    },
+    speak(text, volume) {
+      try {
+        if (!canSpeak()) return;
+        // A new cue replaces one still being spoken instead of queueing behind it
+        window.speechSynthesis.cancel();
+        const utterance = new SpeechSynthesisUtterance(text);
+        utterance.volume = volume;
+        window.speechSynthesis.speak(utterance);
+      } catch (error) {
+        console.error("[cues] Failed to speak:", error);
+      }
+    },
+  };
+}
+
+export interface CueEngine {
+  configure(settings: CueSettings | undefined): void;
+  settings(): Required<CueSettings>;
+  play(cue: Cue): void;
+  /** Countdown beep when `remaining` seconds is within the countdown */
+  tick(remaining: number): void;
+  say(text: string): void;
+}
+
+/**
+ * An engine on the given backend
+ */
+export function createCueEngine(backend: CueBackend, settings?: CueSettings): CueEngine {
+  let current: Required<CueSettings> = { ...DEFAULT_CUE_SETTINGS, ...settings };
+
+  function play(cue: Cue) {
+    if (current.muted || current.volume <= 0) return;
+    for (const tone of CUE_TONES[cue]) backend.tone(tone, current.volume);
+  }
+
+  return {
+    play,
+    configure(next) {
+      current = { ...DEFAULT_CUE_SETTINGS, ...next };
+    },
+    settings() {
+      return current;
+    },
+    tick(remaining) {
+      if (remaining > 0 && remaining <= current.countdownSec) play("countdown");
+    },
+    say(text) {
+      if (current.muted || !current.voice || current.volume <= 0) return;
+      backend.speak(text, current.volume);
+    },
+  };
+}
+
+let engine: CueEngine | null = null;
+
+/**
+ * The app's engine, on the browser backend
+ */
+export function getCueEngine(): CueEngine {
+  if (!engine) engine = createCueEngine(createBrowserBackend());
+  return engine;
+}
+
+/**
+ * Spoken length, e.g. "45 seconds" or "1 minute 30 seconds"
+ */
+export function spokenSeconds(sec: number): string {
+  const m = Math.floor(sec / 60);
+  const s = sec % 60;
+  const minutes = m > 0 ? `${m} ${m === 1 ? "minute" : "minutes"}` : "";
+  const seconds = s > 0 || m === 0 ? `${s} ${s === 1 ? "second" : "seconds"}` : "";
+  return [minutes, seconds].filter(Boolean).join(" ");
+}
+
+/**
+ * E.g. "Next: Box Jumps, 45 seconds"
+ */
+export function nextCue(label: string, target?: string): string {
+  return `Next: ${label}${target ? `, ${target}` : ""}`;
+}
@@ -0,0 +1,388 @@
+/**
+ * IndexedDB Repository
+ *
+ * Persists the profile, the workout library, the per-set log and workout
+ * sessions in IndexedDB so the log is no longer bound by the localStorage
+ * quota.
+ * - Log entries are indexed by date and by exercise name; sessions by date
+ * - Writes are incremental: only added, changed or removed rows are touched
+ * - Existing localStorage data is imported once, on first open
+ * - Schema upgrades rewrite stored rows inside the version change; a tab
+ *   still on the old version closes its connection and stops saving
+ * - Falls back to the localStorage storage layer when IndexedDB is missing,
+ *   or can't be opened before anything was imported into it. After the
+ *   import the localStorage copy is stale, so opening must succeed.
+ */
+
+import type { WorkoutEntry } from "./pr";
+import type { Session } from "./sessions";
+import {
+  loadExercises,
+  loadPlans,
+  loadWorkouts,
+  saveExercises,
+  savePlans,
+  saveWorkouts,
+  type Exercise,
+  type Workout,
+  type WorkoutPlan,
+} from "./workoutLibrary";
+import type { ProfileShape } from "@/components/ProfileTab";
+import {
+  loadIndexedDbImport,
+  loadLog as loadLogFromLocalStorage,
+  loadProfile as loadProfileFromLocalStorage,
+  loadSessions,
+  markIndexedDbImport,
+  saveLog as saveLogToLocalStorage,
+  saveProfile as saveProfileToLocalStorage,
+  saveSessions,
+  quarantine,
+  upgradeLogEntry,
+  validateExercise,
+  validateLogEntry,
+  validatePlan,
+  validateProfile,
+  validateSession,
+  validateWorkout,
+  type Validator,
+} from "./storage";
+
+export const DB_NAME = "dancers-split";
+export const DB_VERSION = 3;
+
+/**
+ * Record type held by each collection store
+ */
+export interface CollectionRecords {
+  exercises: Exercise;
+  workouts: Workout;
+  plans: WorkoutPlan;
+  log: WorkoutEntry;
+  sessions: Session;
+}
+
+export type CollectionName = keyof CollectionRecords;
+
+const COLLECTIONS: CollectionName[] = ["exercises", "workouts", "plans", "log", "sessions"];
+
+const VALIDATORS: { [K in CollectionName]: Validator<CollectionRecords[K]> } = {
+  exercises: validateExercise,
+  workouts: validateWorkout,
+  plans: validatePlan,
+  log: validateLogEntry,
+  sessions: validateSession,
+};
+
+/** localStorage readers/writers, used for the one-time import and as a fallback */
+const LOCAL_LOADERS: { [K in CollectionName]: () => CollectionRecords[K][] } = {
+  exercises: loadExercises,
+  workouts: loadWorkouts,
+  plans: loadPlans,
+  log: loadLogFromLocalStorage,
+  sessions: loadSessions,
+};
+
+const LOCAL_SAVERS: { [K in CollectionName]: (rows: CollectionRecords[K][]) => void } = {
+  exercises: saveExercises,
+  workouts: saveWorkouts,
+  plans: savePlans,
+  log: saveLogToLocalStorage,
+  sessions: saveSessions,
+};
+
+/** Out-of-line key/value store for the profile and repository flags */
+const META_STORE = "meta";
+const PROFILE_KEY = "profile";
+const IMPORTED_FLAG = "importedFromLocalStorage";
+
+/**
+ * Storage-agnostic data access used by the app
+ */
+export interface Repository {
+  kind: "indexeddb" | "localstorage";
+  getAll<K extends CollectionName>(name: K): Promise<CollectionRecords[K][]>;
+  /** Persist the difference between the last saved rows and `next` */
+  sync<K extends CollectionName>(
+    name: K,
+    prev: CollectionRecords[K][],
+    next: CollectionRecords[K][]
+  ): Promise<void>;
+  /** Log rows whose date falls within [fromISO, toISO] (inclusive) */
+  getLogByDate(fromISO: string, toISO: string): Promise<WorkoutEntry[]>;
+  /** All log rows for one exercise, oldest first */
+  getLogByExercise(name: string): Promise<WorkoutEntry[]>;
+  loadProfile(): Promise<ProfileShape | null>;
+  saveProfile(profile: ProfileShape): Promise<void>;
+}
+
+/**
+ * Rows to write and ids to delete to get from `prev` to `next`. Rows are
+ * compared by reference, which matches how React state is updated.
+ */
+export function diffCollection<T extends { id: string }>(
+  prev: T[],
+  next: T[]
+): { put: T[]; remove: string[] } {
+  const prevById = new Map(prev.map((row) => [row.id, row]));
+  const nextIds = new Set(next.map((row) => row.id));
+  return {
+    put: next.filter((row) => prevById.get(row.id) !== row),
+    remove: prev.filter((row) => !nextIds.has(row.id)).map((row) => row.id),
+  };
+}
+
+/* --------------------------------------------
+   IndexedDB plumbing
+---------------------------------------------*/
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error("Transaction aborted"));
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      if (event.oldVersion >= 1 && event.oldVersion < 2) {
+        upgradeLogRows(request.transaction!.objectStore("log"));
+      }
+      for (const name of COLLECTIONS) {
+        if (db.objectStoreNames.contains(name)) continue;
+        const store = db.createObjectStore(name, { keyPath: "id" });
+        if (name === "log") {
+          store.createIndex("date", "date");
+          store.createIndex("name", "name");
+          store.createIndex("name_date", ["name", "date"]);
+        }
+        if (name === "sessions") store.createIndex("date", "date");
+      }
+      if (!db.objectStoreNames.contains(META_STORE)) {
+        db.createObjectStore(META_STORE);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () =>
+      reject(new Error("the database is being upgraded but another tab of the app is still using it"));
+  });
+}
+
+/**
+ * v1 → v2: give every log row an explicit kind. Runs inside the version
+ * change transaction, so a failure leaves the database at v1.
+ */
+function upgradeLogRows(store: IDBObjectStore): void {
+  const cursorRequest = store.openCursor();
+  cursorRequest.onsuccess = () => {
+    const cursor = cursorRequest.result;
+    if (!cursor) return;
+    if (validateLogEntry(cursor.value).ok) {
+      const upgraded = upgradeLogEntry(cursor.value as WorkoutEntry);
+      if (upgraded !== cursor.value) cursor.update(upgraded);
+    }
+    cursor.continue();
+  };
+}
+
+/**
+ * Drop rows that fail validation, quarantining them under the store name
+ */
+function keepValid<K extends CollectionName>(name: K, rows: unknown[]): CollectionRecords[K][] {
+  const validate = VALIDATORS[name];
+  const valid: CollectionRecords[K][] = [];
+  for (const row of rows) {
+    const result = validate(row);
+    if (result.ok === false) {
+      quarantine(`indexeddb:${name}`, JSON.stringify(row), result.error);
+      continue;
+    }
+    valid.push(result.value);
+  }
+  return valid;
+}
+
+/**
+ * Copy everything from the localStorage layer into IndexedDB, once.
+ * Resolves to when that happened.
+ */
+async function importFromLocalStorage(db: IDBDatabase): Promise<string> {
+  const flag = await promisify(db.transaction(META_STORE).objectStore(META_STORE).get(IMPORTED_FLAG));
+  if (typeof flag === "string") return flag;
+
+  const data: { [K in CollectionName]: CollectionRecords[K][] } = {
+    exercises: LOCAL_LOADERS.exercises(),
+    workouts: LOCAL_LOADERS.workouts(),
+    plans: LOCAL_LOADERS.plans(),
+    log: LOCAL_LOADERS.log(),
+    sessions: LOCAL_LOADERS.sessions(),
+  };
+  const profile = loadProfileFromLocalStorage();
+
+  const tx = db.transaction([...COLLECTIONS, META_STORE], "readwrite");
+  for (const name of COLLECTIONS) {
+    const store = tx.objectStore(name);
+    for (const row of data[name]) store.put(row);
+  }
+  const importedAt = new Date().toISOString();
+  if (profile) tx.objectStore(META_STORE).put(profile, PROFILE_KEY);
+  tx.objectStore(META_STORE).put(importedAt, IMPORTED_FLAG);
+  await transactionDone(tx);
+  return importedAt;
+}
+
+function createIndexedDbRepository(db: IDBDatabase): Repository {
+  let closed = false;
+  // A newer version of the app opened in another tab and needs to upgrade
+  db.onversionchange = () => {
+    db.close();
+    closed = true;
+    console.warn("[db] Closed the database for an upgrade in another tab");
+  };
+
+  function ensureOpen() {
+    if (closed) throw new Error("the app was updated in another tab; reload this tab to keep saving");
+  }
+
+  return {
+    kind: "indexeddb",
+
+    async getAll(name) {
+      ensureOpen();
+      const rows = await promisify(db.transaction(name).objectStore(name).getAll());
+      return keepValid(name, rows);
+    },
+
+    async sync(name, prev, next) {
+      ensureOpen();
+      const { put, remove } = diffCollection(prev, next);
+      if (put.length === 0 && remove.length === 0) return;
+      const validate = VALIDATORS[name] as Validator<unknown>;
+      for (const row of put) {
+        const result = validate(row);
+        if (result.ok === false) throw new Error(`Invalid record for ${name}: ${result.error}`);
+      }
+      const tx = db.transaction(name, "readwrite");
+      const store = tx.objectStore(name);
+      for (const row of put) store.put(row);
+      for (const id of remove) store.delete(id);
+      await transactionDone(tx);
+    },
+
+    async getLogByDate(fromISO, toISO) {
+      ensureOpen();
+      const index = db.transaction("log").objectStore("log").index("date");
+      const rows = await promisify(index.getAll(IDBKeyRange.bound(fromISO, toISO)));
+      return keepValid("log", rows);
+    },
+
+    async getLogByExercise(name) {
+      ensureOpen();
+      const index = db.transaction("log").objectStore("log").index("name_date");
+      // Dates are YYYY-MM-DD strings, so "" and "\uffff" bracket every date.
+      const range = IDBKeyRange.bound([name, ""], [name, "\uffff"]);
+      const rows = await promisify(index.getAll(range));
+      return keepValid("log", rows);
+    },
+
+    async loadProfile() {
+      ensureOpen();
+      const stored = await promisify(db.transaction(META_STORE).objectStore(META_STORE).get(PROFILE_KEY));
+      if (stored === undefined) return null;
+      const result = validateProfile(stored);
+      if (result.ok === false) {
+        quarantine("indexeddb:profile", JSON.stringify(stored), result.error);
+        return null;
+      }
+      return result.value;
+    },
+
+    async saveProfile(profile) {
+      ensureOpen();
+      const result = validateProfile(profile);
+      if (result.ok === false) throw new Error(`Invalid profile: ${result.error}`);
+      const tx = db.transaction(META_STORE, "readwrite");
+      tx.objectStore(META_STORE).put(profile, PROFILE_KEY);
+      await transactionDone(tx);
+    },
+  };
+}
+
+/* --------------------------------------------
+   localStorage fallback
+---------------------------------------------*/
+
+function createLocalStorageRepository(): Repository {
+  return {
+    kind: "localstorage",
+
+    async getAll(name) {
+      return LOCAL_LOADERS[name]();
+    },
+
+    async sync(name, _prev, next) {
+      // localStorage can only rewrite the whole key
+      LOCAL_SAVERS[name](next);
+    },
+
+    async getLogByDate(fromISO, toISO) {
+      return loadLogFromLocalStorage().filter((w) => w.date >= fromISO && w.date <= toISO);
+    },
+
+    async getLogByExercise(name) {
+      return loadLogFromLocalStorage()
+        .filter((w) => w.name === name)
+        .sort((a, b) => a.date.localeCompare(b.date));
+    },
+
+    async loadProfile() {
+      return loadProfileFromLocalStorage();
+    },
+
+    async saveProfile(profile) {
+      saveProfileToLocalStorage(profile);
+    },
+  };
+}
+
+let repositoryPromise: Promise<Repository> | null = null;
+
+/**
+ * Open (once) the best available repository
+ */
+export function getRepository(): Promise<Repository> {
+  if (!repositoryPromise) {
+    repositoryPromise = (async () => {
+      if (typeof indexedDB === "undefined") {
+        console.warn("[db] IndexedDB unavailable, using localStorage");
+        return createLocalStorageRepository();
+      }
+      try {
+        const db = await openDatabase();
+        markIndexedDbImport(await importFromLocalStorage(db));
+        return createIndexedDbRepository(db);
+      } catch (error) {
+        if (loadIndexedDbImport() !== null) {
+          console.error("[db] Failed to open IndexedDB:", error);
+          const reason = error instanceof Error ? error.message : String(error);
+          throw new Error(`Couldn't open the database your data is stored in (${reason}). Close other tabs of the app and reload.`);
+        }
+        console.error("[db] Failed to open IndexedDB, using localStorage:", error);
+        return createLocalStorageRepository();
+      }
+    })();
+  }
+  return repositoryPromise;
+}
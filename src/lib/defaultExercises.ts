@@ -17,6 +17,7 @@ export function createDefaultExercises(): Exercise[] {
       defaultRepRange: [6, 8],
       defaultSets: 4,
       defaultRestSec: 150, // 2-3 min = 150s average
+      warmup: true,
     },
     {
       id: generateId(),
@@ -26,15 +27,18 @@ export function createDefaultExercises(): Exercise[] {
       defaultRepRange: [8, 10],
       defaultSets: 3,
       defaultRestSec: 90,
+      isUnilateral: true,
     },
     {
       id: generateId(),
       name: "Romanian Deadlifts",
       category: "strength",
       muscleGroups: ["hamstrings", "glutes", "back"],
+      equipment: ["Barbell"],
       defaultRepRange: [8, 10],
       defaultSets: 3,
       defaultRestSec: 90,
+      warmup: true,
     },
     {
       id: generateId(),
@@ -45,6 +49,7 @@ export function createDefaultExercises(): Exercise[] {
       defaultRepRange: [8, 10],
       defaultSets: 3,
       defaultRestSec: 60,
+      isUnilateral: true,
     },
     {
       id: generateId(),
@@ -107,6 +112,7 @@ export function createDefaultExercises(): Exercise[] {
       defaultRepRange: [6, 8],
       defaultSets: 3,
       defaultRestSec: 90,
+      warmup: true,
     },
     {
       id: generateId(),
@@ -192,6 +198,7 @@ export function createDefaultExercises(): Exercise[] {
       muscleGroups: ["hamstrings", "glutes"],
       isTimed: true,
       defaultSeconds: 45,
+      isUnilateral: true,
     },
     {
       id: generateId(),
@@ -237,6 +244,7 @@ export function createDefaultExercises(): Exercise[] {
       defaultRepRange: [5, 5],
       defaultSets: 3,
       defaultRestSec: 90,
+      isUnilateral: true,
     },
     {
       id: generateId(),
@@ -246,6 +254,7 @@ export function createDefaultExercises(): Exercise[] {
       defaultRepRange: [8, 10],
       defaultSets: 3,
       defaultRestSec: 60,
+      isUnilateral: true,
     },
     {
       id: generateId(),
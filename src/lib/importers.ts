@@ -0,0 +1,440 @@
+/**
+ * Tracker Importers
+ *
+ * Reads history exported from Strong, Hevy and FitNotes and turns it into
+ * per-set log entries.
+ * - Each app's CSV layout is recognised from its header row
+ * - Exercise names are fuzzy-matched to the library; the user confirms or
+ *   overrides each match, or creates a new exercise, before anything is saved
+ * - Warm-up sets can be left out, or kept and flagged as warm-ups
+ */
+
+import { parseCsv, parseDate, parseNumber, unitFromText } from "./csv";
+import type { WorkoutEntry } from "./pr";
+import { generateId, type Exercise } from "./workoutLibrary";
+
+type Unit = "kg" | "lb";
+
+const KG_PER_LB = 0.45359237;
+const METERS_PER = { m: 1, km: 1000, mi: 1609.344 } as const;
+
+export type ImportSource = "strong" | "hevy" | "fitnotes";
+
+export const IMPORT_SOURCE_LABELS: Record<ImportSource, string> = {
+  strong: "Strong",
+  hevy: "Hevy",
+  fitnotes: "FitNotes",
+};
+
+/**
+ * One set as read from another app, before exercise matching
+ */
+export interface ExternalSet {
+  /** 1-based line number in the file, counting the header */
+  line: number;
+  date: string; // YYYY-MM-DD
+  exercise: string;
+  reps?: number;
+  weightKg?: number;
+  seconds?: number;
+  distanceM?: number;
+  rpe?: number;
+  notes?: string;
+  warmup: boolean;
+}
+
+export interface ParsedTrackerExport {
+  source: ImportSource;
+  sets: ExternalSet[];
+  rejected: { line: number; reason: string }[];
+  /** False when the file doesn't say which unit its weights are in */
+  unitKnown: boolean;
+}
+
+/* --------------------------------------------
+   Reading each format
+---------------------------------------------*/
+
+/**
+ * Which app produced a CSV, from its header row
+ */
+export function detectImportSource(header: string[]): ImportSource | null {
+  const h = header.map((c) => c.trim().toLowerCase());
+  if (h.includes("exercise name") && h.includes("set order")) return "strong";
+  if (h.includes("exercise_title") && h.includes("set_index")) return "hevy";
+  if (h.includes("exercise") && h.includes("category") && h.some((c) => c.startsWith("weight"))) return "fitnotes";
+  return null;
+}
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+/**
+ * Dates like "15 Mar 2024, 18:05" (Hevy) or "2024-03-15 18:05:00" (Strong)
+ */
+function parseExportDate(value: string): string | null {
+  const named = value.trim().match(/^(\d{1,2}) ([A-Za-z]{3})[A-Za-z]* (\d{4})/);
+  if (named) {
+    const month = MONTHS.indexOf(named[2].toLowerCase()) + 1;
+    if (month === 0) return null;
+    return parseDate(`${named[3]}-${month}-${named[1]}`, "YMD");
+  }
+  return parseDate(value, "YMD");
+}
+
+/**
+ * Distance unit named in a cell or header such as "km", "Distance (mi)" or "metres"
+ */
+function distanceUnitFromText(text: string): keyof typeof METERS_PER | null {
+  const t = text.toLowerCase();
+  if (/\b(mi|miles?)\b/.test(t)) return "mi";
+  if (/\b(km|kms|kilomet(er|re)s?)\b/.test(t)) return "km";
+  if (/\b(m|met(er|re)s?)\b/.test(t)) return "m";
+  return null;
+}
+
+/**
+ * Seconds from "90", "1:30" or "0:01:30"
+ */
+function parseDuration(value: string | undefined): number | null {
+  const text = (value ?? "").trim();
+  if (!text) return null;
+  if (!text.includes(":")) return parseNumber(text);
+  const parts = text.split(":").map(Number);
+  if (parts.some((n) => !Number.isFinite(n))) return null;
+  return parts.reduce((total, n) => total * 60 + n, 0);
+}
+
+interface ColumnReader {
+  get(row: string[], ...names: string[]): string;
+  has(name: string): boolean;
+}
+
+function columnReader(header: string[]): ColumnReader {
+  const index = new Map(header.map((h, i) => [h.trim().toLowerCase(), i]));
+  return {
+    get(row, ...names) {
+      for (const name of names) {
+        const i = index.get(name);
+        if (i !== undefined) return (row[i] ?? "").trim();
+      }
+      return "";
+    },
+    has(name) {
+      return index.has(name);
+    },
+  };
+}
+
+interface RawSet {
+  date: string;
+  exercise: string;
+  reps: string;
+  weight: string;
+  unit: Unit | null;
+  seconds: number | null;
+  distance: string;
+  /** Distances without a unit in the file are read as km */
+  distanceUnit: keyof typeof METERS_PER | null;
+  rpe: string;
+  notes: string;
+  warmup: boolean;
+  /** Not a set at all (e.g. Strong's rest timer rows) */
+  ignore?: boolean;
+}
+
+function readStrong(header: string[], row: string[]): RawSet {
+  const col = columnReader(header);
+  const setOrder = col.get(row, "set order");
+  return {
+    date: col.get(row, "date"),
+    exercise: col.get(row, "exercise name"),
+    reps: col.get(row, "reps"),
+    weight: col.get(row, "weight"),
+    unit: unitFromText(col.get(row, "weight unit")),
+    seconds: parseDuration(col.get(row, "seconds")),
+    distance: col.get(row, "distance"),
+    distanceUnit: distanceUnitFromText(col.get(row, "distance unit")),
+    rpe: col.get(row, "rpe"),
+    notes: col.get(row, "notes"),
+    warmup: setOrder.toUpperCase() === "W",
+    ignore: setOrder.toLowerCase() === "rest timer",
+  };
+}
+
+function readHevy(header: string[], row: string[]): RawSet {
+  const col = columnReader(header);
+  const inLb = col.has("weight_lbs");
+  return {
+    date: col.get(row, "start_time"),
+    exercise: col.get(row, "exercise_title"),
+    reps: col.get(row, "reps"),
+    weight: col.get(row, inLb ? "weight_lbs" : "weight_kg"),
+    unit: inLb ? "lb" : "kg",
+    seconds: parseDuration(col.get(row, "duration_seconds")),
+    distance: col.get(row, "distance_km", "distance_miles"),
+    distanceUnit: col.has("distance_miles") ? "mi" : "km",
+    rpe: col.get(row, "rpe"),
+    notes: col.get(row, "exercise_notes"),
+    warmup: col.get(row, "set_type").toLowerCase() === "warmup",
+  };
+}
+
+function readFitNotes(header: string[], row: string[]): RawSet {
+  const col = columnReader(header);
+  const weightHeader = header.find((h) => h.trim().toLowerCase().startsWith("weight (")) ?? "";
+  return {
+    date: col.get(row, "date"),
+    exercise: col.get(row, "exercise"),
+    reps: col.get(row, "reps"),
+    weight: col.get(row, weightHeader.trim().toLowerCase(), "weight"),
+    unit: unitFromText(col.get(row, "weight unit")) ?? unitFromText(weightHeader),
+    seconds: parseDuration(col.get(row, "time")),
+    distance: col.get(row, "distance"),
+    distanceUnit: distanceUnitFromText(col.get(row, "distance unit")),
+    rpe: "",
+    notes: col.get(row, "comment"),
+    warmup: false,
+  };
+}
+
+const READERS: Record<ImportSource, (header: string[], row: string[]) => RawSet> = {
+  strong: readStrong,
+  hevy: readHevy,
+  fitnotes: readFitNotes,
+};
+
+/**
+ * Read a Strong, Hevy or FitNotes CSV. Weights without a unit in the file
+ * are read as `fallbackUnit`.
+ */
+export function parseTrackerExport(text: string, fallbackUnit: Unit): ParsedTrackerExport {
+  const [header = [], ...rows] = parseCsv(text);
+  const source = detectImportSource(header);
+  if (!source) throw new Error("Not a Strong, Hevy or FitNotes export");
+
+  const result: ParsedTrackerExport = { source, sets: [], rejected: [], unitKnown: true };
+  rows.forEach((row, index) => {
+    const line = index + 2;
+    const reject = (reason: string) => result.rejected.push({ line, reason });
+    const raw = READERS[source](header, row);
+    if (raw.ignore) return;
+
+    const date = parseExportDate(raw.date);
+    if (!date) return reject(raw.date ? `Unreadable date "${raw.date}"` : "Missing date");
+    if (!raw.exercise) return reject("Missing exercise");
+
+    const reps = parseNumber(raw.reps);
+    const weight = parseNumber(raw.weight);
+    const seconds = raw.seconds && raw.seconds > 0 ? raw.seconds : null;
+    const distance = parseNumber(raw.distance);
+    const rpe = parseNumber(raw.rpe);
+    if (!reps && !seconds && !distance) return reject("Set has no reps, time or distance");
+
+    if (weight !== null && !raw.unit) result.unitKnown = false;
+    const unit = raw.unit ?? fallbackUnit;
+    result.sets.push({
+      line,
+      date,
+      exercise: raw.exercise,
+      reps: reps ?? undefined,
+      weightKg: weight ? Math.round((unit === "lb" ? weight * KG_PER_LB : weight) * 100) / 100 : undefined,
+      seconds: seconds ?? undefined,
+      distanceM: distance ? Math.round(distance * METERS_PER[raw.distanceUnit ?? "km"] * 10) / 10 : undefined,
+      rpe: rpe !== null && rpe > 0 && rpe <= 10 ? rpe : undefined,
+      notes: raw.notes || undefined,
+      warmup: raw.warmup,
+    });
+  });
+  return result;
+}
+
+/* --------------------------------------------
+   Exercise matching
+---------------------------------------------*/
+
+/** Matches at or above this score are pre-selected */
+export const AUTO_MATCH_SCORE = 0.85;
+
+const ALIASES: Record<string, string> = {
+  db: "dumbbell",
+  dbs: "dumbbell",
+  bb: "barbell",
+  kb: "kettlebell",
+  rdl: "romanian deadlift",
+  ohp: "overhead press",
+  pushup: "push up",
+  pullup: "pull up",
+  chinup: "chin up",
+};
+
+function tokens(name: string): string[] {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim()
+    .split(" ")
+    .flatMap((t) => (ALIASES[t] ?? t).split(" "))
+    .map((t) => (t.length > 3 && t.endsWith("s") && !t.endsWith("ss") ? t.slice(0, -1) : t))
+    .filter(Boolean);
+}
+
+function editDistance(a: string, b: string): number {
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    for (let j = 1; j <= b.length; j++) {
+      row[j] = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    prev = row;
+  }
+  return prev[b.length];
+}
+
+/** Equipment or grip qualifiers such as "(Barbell)" */
+const QUALIFIER = /\s*\([^)]*\)/g;
+
+/**
+ * Similarity of two exercise names from 0 to 1: the better of token overlap
+ * (ignores word order) and edit distance (tolerates typos). Names are also
+ * compared without their parenthesised qualifiers, scored slightly lower.
+ */
+export function nameSimilarity(a: string, b: string): number {
+  const full = rawSimilarity(a, b);
+  const stripped = rawSimilarity(a.replace(QUALIFIER, ""), b.replace(QUALIFIER, ""));
+  return Math.max(full, stripped * 0.95);
+}
+
+function rawSimilarity(a: string, b: string): number {
+  const ta = tokens(a);
+  const tb = tokens(b);
+  if (ta.length === 0 || tb.length === 0) return 0;
+  const setB = new Set(tb);
+  const shared = new Set(ta.filter((t) => setB.has(t))).size;
+  const overlap = (2 * shared) / (new Set(ta).size + setB.size);
+  const ja = ta.join(" ");
+  const jb = tb.join(" ");
+  const edit = 1 - editDistance(ja, jb) / Math.max(ja.length, jb.length);
+  return Math.max(overlap, edit);
+}
+
+export interface ExerciseMatch {
+  /** Name as written in the other app */
+  name: string;
+  setCount: number;
+  /** Library exercises ordered best first */
+  candidates: { exercise: Exercise; score: number }[];
+}
+
+/**
+ * Rank library exercises for every distinct exercise name in the import
+ */
+export function matchExercises(sets: ExternalSet[], library: Exercise[], limit = 5): ExerciseMatch[] {
+  const counts = new Map<string, number>();
+  for (const set of sets) counts.set(set.exercise, (counts.get(set.exercise) ?? 0) + 1);
+
+  return [...counts.entries()]
+    .map(([name, setCount]) => ({
+      name,
+      setCount,
+      candidates: library
+        .map((exercise) => ({ exercise, score: nameSimilarity(name, exercise.name) }))
+        .filter((c) => c.score > 0.3)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit),
+    }))
+    .sort((a, b) => b.setCount - a.setCount);
+}
+
+/** What to do with one external exercise name */
+export type ExerciseResolution = { kind: "match"; exerciseId: string } | { kind: "create" } | { kind: "skip" };
+
+/**
+ * Pre-selected resolution: the best candidate if it clears the threshold,
+ * otherwise a new exercise
+ */
+export function defaultResolution(match: ExerciseMatch): ExerciseResolution {
+  const best = match.candidates[0];
+  return best && best.score >= AUTO_MATCH_SCORE ? { kind: "match", exerciseId: best.exercise.id } : { kind: "create" };
+}
+
+/* --------------------------------------------
+   Building log entries
+---------------------------------------------*/
+
+const EQUIPMENT = ["barbell", "dumbbell", "kettlebell", "cable", "machine", "band", "bodyweight", "smith machine"];
+
+/**
+ * Library exercise for a name the library doesn't have yet
+ */
+function createExercise(name: string, sets: ExternalSet[], makeId: () => string): Exercise {
+  const timed = sets.every((s) => s.seconds && !s.reps && !s.distanceM);
+  const equipment = EQUIPMENT.filter((e) => name.toLowerCase().includes(e));
+  const base = { id: makeId(), name, muscleGroups: [], equipment: equipment.length ? equipment : undefined };
+  if (sets.every((s) => s.distanceM)) {
+    return { ...base, category: "cardio", defaultSets: 1, defaultRestSec: 60, isTimed: false };
+  }
+  if (timed) {
+    const longest = Math.max(...sets.map((s) => s.seconds ?? 0));
+    return { ...base, category: "other", isTimed: true, defaultSeconds: longest, defaultSets: 1, defaultRestSec: 60 };
+  }
+  return { ...base, category: "strength", defaultSets: 3, defaultRestSec: 90, isTimed: false };
+}
+
+export interface TrackerImportResult {
+  entries: WorkoutEntry[];
+  newExercises: Exercise[];
+  skippedWarmups: number;
+  skippedExercises: number;
+}
+
+/**
+ * Turn resolved sets into per-set log entries (unflagged; PR flags are
+ * computed when merged into the log) plus any exercises to create
+ */
+export function buildTrackerImport(
+  sets: ExternalSet[],
+  resolutions: Record<string, ExerciseResolution>,
+  library: Exercise[],
+  options: { includeWarmups: boolean; makeId?: () => string }
+): TrackerImportResult {
+  const makeId = options.makeId ?? generateId;
+  const byId = new Map(library.map((e) => [e.id, e]));
+  const names = new Map<string, string>();
+  const result: TrackerImportResult = { entries: [], newExercises: [], skippedWarmups: 0, skippedExercises: 0 };
+
+  for (const [external, resolution] of Object.entries(resolutions)) {
+    if (resolution.kind === "match") {
+      const exercise = byId.get(resolution.exerciseId);
+      if (exercise) names.set(external, exercise.name);
+    } else if (resolution.kind === "create") {
+      const exercise = createExercise(external, sets.filter((s) => s.exercise === external), makeId);
+      result.newExercises.push(exercise);
+      names.set(external, exercise.name);
+    }
+  }
+
+  for (const set of sets) {
+    if (set.warmup && !options.includeWarmups) {
+      result.skippedWarmups++;
+      continue;
+    }
+    const name = names.get(set.exercise);
+    if (!name) {
+      result.skippedExercises++;
+      continue;
+    }
+    const entry = { id: makeId(), date: set.date, name, sets: 1, weightKg: set.weightKg, rpe: set.rpe, warmup: set.warmup || undefined, notes: set.notes };
+    if (set.distanceM) {
+      result.entries.push({ ...entry, kind: "distance", reps: 0, distanceM: set.distanceM, durationSec: set.seconds });
+    } else if (set.seconds) {
+      result.entries.push(
+        set.reps
+          ? { ...entry, kind: "repsDuration", reps: set.reps, durationSec: set.seconds }
+          : { ...entry, kind: "duration", reps: 0, durationSec: set.seconds }
+      );
+    } else {
+      result.entries.push({ ...entry, kind: "reps", reps: set.reps ?? 0 });
+    }
+  }
+  return result;
+}
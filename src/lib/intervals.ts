@@ -0,0 +1,233 @@
+/**
+ * Interval Workouts
+ *
+ * Clock-driven formats beyond the fixed-station circuit:
+ * - EMOM: a movement's reps at the top of every interval (usually a
+ *   minute), resting for whatever is left of it; movements take turns
+ * - AMRAP: as many rounds of the movements as fit in a time cap, scored as
+ *   full rounds plus the reps into the next one
+ * - Tabata: short work and rest intervals, 20s on / 10s off for 8 rounds
+ *   by default
+ * - Ladder: work intervals that grow by a step each rung, optionally back
+ *   down again (a pyramid), with rest in between
+ *
+ * Every format but AMRAP logs one row per work interval, with the reps
+ * counted in it. AMRAP logs one row per movement for the full rounds and
+ * one more for the reps into the unfinished round; movements without a
+ * rep target are only logged with the reps into that round.
+ */
+
+import type { WorkoutEntry } from "./pr";
+
+export type IntervalMode = "emom" | "amrap" | "tabata" | "ladder";
+
+export const INTERVAL_MODES: IntervalMode[] = ["emom", "amrap", "tabata", "ladder"];
+
+export const INTERVAL_MODE_LABELS: Record<IntervalMode, string> = {
+  emom: "EMOM",
+  amrap: "AMRAP",
+  tabata: "Tabata",
+  ladder: "Ladder",
+};
+
+export function isIntervalMode(mode: string): mode is IntervalMode {
+  return (INTERVAL_MODES as string[]).includes(mode);
+}
+
+export interface IntervalMovement {
+  label: string;
+  /** Reps per interval, or per round in an AMRAP */
+  reps?: number;
+}
+
+export interface IntervalSpec {
+  mode: IntervalMode;
+  name: string;
+  movements: IntervalMovement[];
+  /** EMOM intervals, Tabata rounds or ladder rungs on the way up */
+  rounds: number;
+  /** EMOM interval, Tabata work, the first ladder rung or the AMRAP time cap */
+  workSec: number;
+  /** Tabata and ladder rest after each work interval */
+  restSec: number;
+  /** Seconds added to each ladder rung */
+  stepSec?: number;
+  /** The ladder comes back down after its top rung */
+  pyramid?: boolean;
+}
+
+/** Settings a new workout of each mode starts with */
+export const INTERVAL_DEFAULTS: Record<IntervalMode, Pick<IntervalSpec, "rounds" | "workSec" | "restSec" | "stepSec">> = {
+  emom: { rounds: 10, workSec: 60, restSec: 0 },
+  amrap: { rounds: 1, workSec: 600, restSec: 0 },
+  tabata: { rounds: 8, workSec: 20, restSec: 10 },
+  ladder: { rounds: 4, workSec: 20, restSec: 20, stepSec: 10 },
+};
+
+/**
+ * One work interval and the rest after it
+ */
+export interface Interval {
+  movement: IntervalMovement;
+  workSec: number;
+  restSec: number;
+}
+
+/**
+ * Work intervals in order. An AMRAP is one interval as long as its cap;
+ * no rest follows the last interval.
+ */
+export function buildIntervals(spec: IntervalSpec): Interval[] {
+  const movements = spec.movements.length > 0 ? spec.movements : [{ label: spec.name }];
+  if (spec.mode === "amrap") {
+    return [{ movement: movements[0], workSec: Math.max(1, spec.workSec), restSec: 0 }];
+  }
+
+  const rounds = Math.max(1, Math.floor(spec.rounds));
+  let lengths: number[];
+  if (spec.mode === "ladder") {
+    const up = Array.from({ length: rounds }, (_, k) => spec.workSec + k * (spec.stepSec ?? 0));
+    lengths = spec.pyramid ? [...up, ...up.slice(0, -1).reverse()] : up;
+  } else {
+    lengths = Array.from({ length: rounds }, () => spec.workSec);
+  }
+
+  // EMOM rest is whatever is left of the interval once the reps are done
+  const restSec = spec.mode === "emom" ? 0 : spec.restSec;
+  return lengths.map((workSec, i) => ({
+    movement: movements[i % movements.length],
+    workSec: Math.max(1, workSec),
+    restSec: i < lengths.length - 1 ? restSec : 0,
+  }));
+}
+
+/**
+ * Length of the whole workout in seconds
+ */
+export function totalSeconds(spec: IntervalSpec): number {
+  return buildIntervals(spec).reduce((sum, interval) => sum + interval.workSec + interval.restSec, 0);
+}
+
+function clock(sec: number): string {
+  const m = Math.floor(sec / 60);
+  const s = sec % 60;
+  return `${m}:${s.toString().padStart(2, "0")}`;
+}
+
+/**
+ * E.g. "EMOM 10 × 1:00", "AMRAP 12:00", "Tabata 8 × 20s/10s" or
+ * "Ladder 20s-50s-20s, 20s rest"
+ */
+export function describeIntervalSpec(spec: IntervalSpec): string {
+  const label = INTERVAL_MODE_LABELS[spec.mode];
+  switch (spec.mode) {
+    case "emom":
+      return `${label} ${spec.rounds} × ${clock(spec.workSec)}`;
+    case "amrap":
+      return `${label} ${clock(spec.workSec)}`;
+    case "tabata":
+      return `${label} ${spec.rounds} × ${spec.workSec}s/${spec.restSec}s`;
+    case "ladder": {
+      const top = spec.workSec + (Math.max(1, spec.rounds) - 1) * (spec.stepSec ?? 0);
+      const shape = spec.pyramid ? `${spec.workSec}s-${top}s-${spec.workSec}s` : `${spec.workSec}s-${top}s`;
+      return `${label} ${shape}${spec.restSec > 0 ? `, ${spec.restSec}s rest` : ""}`;
+    }
+  }
+}
+
+/**
+ * What the athlete did, as recorded by the runner
+ */
+export interface IntervalResult {
+  /** Reps counted in each work interval; blank falls back to the target */
+  reps: (number | "")[];
+  /** AMRAP: full rounds done */
+  rounds: number;
+  /** AMRAP: reps into the unfinished round */
+  partialReps: number | "";
+}
+
+export function emptyIntervalResult(spec: IntervalSpec): IntervalResult {
+  return { reps: buildIntervals(spec).map(() => ""), rounds: 0, partialReps: "" };
+}
+
+/**
+ * Reps of each movement done in the unfinished AMRAP round, taken in
+ * movement order; movements without a rep target take whatever is left
+ */
+export function splitPartialReps(movements: IntervalMovement[], partialReps: number): number[] {
+  let left = Math.max(0, Math.floor(partialReps));
+  return movements.map((movement) => {
+    const done = movement.reps ? Math.min(movement.reps, left) : left;
+    left -= done;
+    return done;
+  });
+}
+
+/**
+ * Reps counted in an interval, falling back to the movement's target
+ */
+function intervalReps(result: IntervalResult, index: number, interval: Interval): number {
+  const counted = result.reps[index];
+  return typeof counted === "number" && counted >= 0 ? counted : interval.movement.reps ?? 0;
+}
+
+/**
+ * The score, e.g. "AMRAP 12:00: 5 rounds + 7 reps" or
+ * "Tabata 8 × 20s/10s: 96 reps, lowest interval 10"
+ */
+export function describeIntervalResult(spec: IntervalSpec, result: IntervalResult): string {
+  const head = describeIntervalSpec(spec);
+  if (spec.mode === "amrap") {
+    const partial = typeof result.partialReps === "number" ? result.partialReps : 0;
+    const rounds = `${result.rounds} ${result.rounds === 1 ? "round" : "rounds"}`;
+    return `${head}: ${rounds}${partial > 0 ? ` + ${partial} reps` : ""}`;
+  }
+  const intervals = buildIntervals(spec);
+  const reps = intervals.map((interval, i) => intervalReps(result, i, interval));
+  const counted = reps.filter((r) => r > 0);
+  if (counted.length === 0) return `${head}: ${intervals.length} intervals`;
+  const total = counted.reduce((sum, r) => sum + r, 0);
+  return `${head}: ${total} reps, lowest interval ${Math.min(...counted)}`;
+}
+
+/**
+ * Log rows for a finished interval workout. The score goes in the first
+ * row's notes.
+ */
+export function intervalEntries(
+  spec: IntervalSpec,
+  result: IntervalResult,
+  date: string,
+  uid: () => string
+): WorkoutEntry[] {
+  const entries: WorkoutEntry[] = [];
+
+  if (spec.mode === "amrap") {
+    const movements = spec.movements.length > 0 ? spec.movements : [{ label: spec.name }];
+    const partial = splitPartialReps(movements, typeof result.partialReps === "number" ? result.partialReps : 0);
+    movements.forEach((movement, i) => {
+      if (result.rounds > 0 && movement.reps) {
+        entries.push({ id: uid(), date, name: movement.label, kind: "reps", sets: result.rounds, reps: movement.reps ?? 0 });
+      }
+      if (partial[i] > 0) {
+        entries.push({ id: uid(), date, name: movement.label, kind: "reps", sets: 1, reps: partial[i] });
+      }
+    });
+  } else {
+    buildIntervals(spec).forEach((interval, i) => {
+      const reps = intervalReps(result, i, interval);
+      const name = interval.movement.label;
+      // EMOM reps are the work; the other formats are timed with reps counted in them
+      if (spec.mode === "emom" && reps > 0) {
+        entries.push({ id: uid(), date, name, kind: "reps", sets: 1, reps });
+      } else {
+        const kind = reps > 0 ? "repsDuration" : "duration";
+        entries.push({ id: uid(), date, name, kind, sets: 1, reps, durationSec: interval.workSec });
+      }
+    });
+  }
+
+  if (entries.length > 0) entries[0] = { ...entries[0], notes: describeIntervalResult(spec, result) };
+  return entries;
+}
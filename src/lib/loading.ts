@@ -0,0 +1,195 @@
+/**
+ * Loading Calculator
+ *
+ * Turns a suggested weight into one the gym can actually load, and says
+ * how to load it. How an exercise is loaded comes from the equipment it
+ * lists in the library; each piece of equipment has a setup per unit,
+ * which the user can change in the profile.
+ * - Barbell: a bar plus pairs of plates
+ * - Plate-loaded machine: pairs of plates, plus the sled if it's counted
+ * - Dumbbell: the lightest dumbbell, then fixed steps up to the heaviest
+ * - Kettlebell: the bells on the rack
+ * - Stack: a weight stack's first plate, then fixed steps
+ *
+ * Equipment without a setup is matched by name ("... Dumbbell", "Cable
+ * ...") to a default for its kind. Plates are taken heaviest first, with
+ * as many pairs of each as needed.
+ */
+
+type Unit = "kg" | "lb";
+
+export type LoadingKind = "barbell" | "plates" | "dumbbell" | "kettlebell" | "stack";
+
+export const LOADING_KIND_LABELS: Record<LoadingKind, string> = {
+  barbell: "Barbell",
+  plates: "Plate-loaded machine",
+  dumbbell: "Dumbbells",
+  kettlebell: "Kettlebells",
+  stack: "Weight stack",
+};
+
+/**
+ * How one piece of equipment is loaded, in the unit it's set up for
+ */
+export interface EquipmentLoading {
+  kind: LoadingKind;
+  /** Bar, sled, lightest dumbbell or first stack plate; 0 when not counted */
+  base: number;
+  /** Plate sizes loaded in pairs, for barbells and plate-loaded machines */
+  plates?: number[];
+  /** Step between dumbbells or stack plates */
+  step?: number;
+  /** Heaviest dumbbell or stack setting */
+  max?: number;
+  /** Bells on the rack, for kettlebells */
+  weights?: number[];
+}
+
+/** Setups by equipment name */
+export type LoadingSetups = Record<string, EquipmentLoading>;
+
+const PLATES: Record<Unit, number[]> = {
+  kg: [25, 20, 15, 10, 5, 2.5, 1.25],
+  lb: [45, 35, 25, 10, 5, 2.5],
+};
+
+/** Defaults per kind, used for equipment matched by name */
+export const KIND_DEFAULTS: Record<Unit, Record<LoadingKind, EquipmentLoading>> = {
+  kg: {
+    barbell: { kind: "barbell", base: 20, plates: PLATES.kg },
+    plates: { kind: "plates", base: 0, plates: PLATES.kg },
+    dumbbell: { kind: "dumbbell", base: 2, step: 2, max: 50 },
+    kettlebell: { kind: "kettlebell", base: 0, weights: [4, 6, 8, 10, 12, 14, 16, 20, 24, 28, 32, 40, 48] },
+    stack: { kind: "stack", base: 5, step: 5, max: 100 },
+  },
+  lb: {
+    barbell: { kind: "barbell", base: 45, plates: PLATES.lb },
+    plates: { kind: "plates", base: 0, plates: PLATES.lb },
+    dumbbell: { kind: "dumbbell", base: 5, step: 5, max: 100 },
+    kettlebell: { kind: "kettlebell", base: 0, weights: [10, 15, 20, 25, 30, 35, 40, 45, 53, 62, 70, 88, 106] },
+    stack: { kind: "stack", base: 10, step: 10, max: 200 },
+  },
+};
+
+/** Equipment named in the default library */
+export const DEFAULT_LOADING: Record<Unit, LoadingSetups> = {
+  kg: {
+    Barbell: KIND_DEFAULTS.kg.barbell,
+    "Smith Machine": { ...KIND_DEFAULTS.kg.barbell, base: 15 },
+    "Leg Press Machine": KIND_DEFAULTS.kg.plates,
+    Dumbbells: KIND_DEFAULTS.kg.dumbbell,
+    Kettlebell: KIND_DEFAULTS.kg.kettlebell,
+    "Cable Machine": { ...KIND_DEFAULTS.kg.stack, base: 2.5, step: 2.5 },
+    "Leg Curl Machine": KIND_DEFAULTS.kg.stack,
+  },
+  lb: {
+    Barbell: KIND_DEFAULTS.lb.barbell,
+    "Smith Machine": { ...KIND_DEFAULTS.lb.barbell, base: 35 },
+    "Leg Press Machine": KIND_DEFAULTS.lb.plates,
+    Dumbbells: KIND_DEFAULTS.lb.dumbbell,
+    Kettlebell: KIND_DEFAULTS.lb.kettlebell,
+    "Cable Machine": { ...KIND_DEFAULTS.lb.stack, base: 5, step: 5 },
+    "Leg Curl Machine": KIND_DEFAULTS.lb.stack,
+  },
+};
+
+const KIND_PATTERNS: [RegExp, LoadingKind][] = [
+  [/smith|barbell|\bbar\b|ez.?bar|trap.?bar/i, "barbell"],
+  [/leg press|hack|sled|plate/i, "plates"],
+  [/dumbbell/i, "dumbbell"],
+  [/kettlebell/i, "kettlebell"],
+  [/cable|machine|stack|pulldown/i, "stack"],
+];
+
+function findSetup(setups: LoadingSetups | undefined, name: string): EquipmentLoading | undefined {
+  if (!setups) return undefined;
+  const key = Object.keys(setups).find((k) => k.toLowerCase() === name.toLowerCase());
+  return key === undefined ? undefined : setups[key];
+}
+
+/**
+ * The setup for one piece of equipment: the user's, the default library's,
+ * or the default for the kind its name suggests
+ */
+export function setupFor(name: string, unit: Unit, setups?: LoadingSetups): EquipmentLoading | undefined {
+  const own = findSetup(setups, name) ?? findSetup(DEFAULT_LOADING[unit], name);
+  if (own) return own;
+  const kind = KIND_PATTERNS.find(([pattern]) => pattern.test(name))?.[1];
+  return kind ? KIND_DEFAULTS[unit][kind] : undefined;
+}
+
+/**
+ * How an exercise is loaded: the first of its equipment with a setup
+ */
+export function loadingFor(equipment: string[] | undefined, unit: Unit, setups?: LoadingSetups): EquipmentLoading | undefined {
+  for (const name of equipment ?? []) {
+    const setup = setupFor(name, unit, setups);
+    if (setup) return setup;
+  }
+  return undefined;
+}
+
+function nearest(weight: number, options: number[]): number {
+  return options.reduce((best, w) => (Math.abs(w - weight) < Math.abs(best - weight) ? w : best), options[0]);
+}
+
+function nearestStep(weight: number, base: number, step: number, max?: number): number {
+  const stepped = base + Math.max(0, Math.round((weight - base) / step)) * step;
+  return Math.round((max === undefined ? stepped : Math.min(stepped, max)) * 100) / 100;
+}
+
+/**
+ * The loadable weight closest to `weight`, in the setup's unit
+ */
+export function roundToLoadable(weight: number, loading: EquipmentLoading): number {
+  switch (loading.kind) {
+    case "barbell":
+    case "plates": {
+      const plates = (loading.plates ?? []).filter((p) => p > 0);
+      if (plates.length === 0) return Math.max(loading.base, weight);
+      return nearestStep(weight, loading.base, 2 * Math.min(...plates));
+    }
+    case "kettlebell":
+      return loading.weights && loading.weights.length > 0 ? nearest(weight, loading.weights) : weight;
+    default:
+      return loading.step && loading.step > 0 ? nearestStep(weight, loading.base, loading.step, loading.max) : weight;
+  }
+}
+
+export interface PlateLoad {
+  /** Plates per side, heaviest first */
+  perSide: number[];
+  /** Load that couldn't be made, total across both sides */
+  remainder: number;
+}
+
+/**
+ * Plates per side for a total load, or undefined when it's lighter than
+ * the bar or the equipment doesn't take plates
+ */
+export function platesPerSide(total: number, loading: EquipmentLoading): PlateLoad | undefined {
+  if ((loading.kind !== "barbell" && loading.kind !== "plates") || total < loading.base) return undefined;
+  let side = (total - loading.base) / 2;
+  const perSide: number[] = [];
+  for (const plate of [...(loading.plates ?? [])].filter((p) => p > 0).sort((a, b) => b - a)) {
+    while (side >= plate - 1e-9) {
+      perSide.push(plate);
+      side -= plate;
+    }
+  }
+  return { perSide, remainder: Math.round(side * 2 * 100) / 100 };
+}
+
+/**
+ * How to load a weight, e.g. "bar + 20 + 5 per side", "bar only" or
+ * "10 per side (1 short)"; undefined for equipment without plates
+ */
+export function describePlates(total: number, loading: EquipmentLoading): string | undefined {
+  const load = platesPerSide(total, loading);
+  if (!load) return undefined;
+  const bar = loading.kind === "barbell" ? "bar" : "";
+  let text: string;
+  if (load.perSide.length === 0) text = bar ? "bar only" : "no plates";
+  else text = `${bar ? "bar + " : ""}${load.perSide.join(" + ")} per side`;
+  return load.remainder > 0 ? `${text} (${load.remainder} short)` : text;
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import { detectDateFormat, dryRunCsvImport, guessMapping, logToCsv, parseCsv } from "./csv";
+import { analyzeLogMerge, resolveLogMerge } from "./logMerge";
+import type { WorkoutEntry } from "./pr";
+
+const log: WorkoutEntry[] = [
+  { id: "a1", date: "2026-03-02", name: "Bench Press", sets: 1, reps: 8, weightKg: 60, setIndex: 1 },
+  { id: "a2", date: "2026-03-02", name: "Bench Press", sets: 1, reps: 7, weightKg: 60, setIndex: 2 },
+  { id: "a3", date: "2026-03-02", name: "Bench Press", sets: 1, reps: 6, weightKg: 60, setIndex: 3 },
+  { id: "a4", date: "2026-03-02", name: "Squat", sets: 1, reps: 5, weightKg: 100, setIndex: 4 },
+];
+
+// The log exported to CSV and read back, with ids that sort against the file order
+function reimported(entries: WorkoutEntry[]): WorkoutEntry[] {
+  const [header, ...rows] = parseCsv(logToCsv(entries, "kg"));
+  const mapping = guessMapping(header);
+  const { format } = detectDateFormat(rows.map((row) => row[mapping.date!]));
+  let next = 1000;
+  return dryRunCsvImport(rows, { mapping, unit: "kg", dateFormat: format, makeId: () => `z${next--}` }).entries;
+}
+
+function benchReps(entries: WorkoutEntry[]): number[] {
+  return entries
+    .filter((row) => row.name === "Bench Press")
+    .sort((a, b) => (a.setIndex ?? 0) - (b.setIndex ?? 0))
+    .map((row) => row.reps);
+}
+
+describe("analyzeLogMerge", () => {
+  it("matches the app's own CSV export to the rows it came from", () => {
+    const analysis = analyzeLogMerge(log, reimported(log));
+    expect(analysis.conflicts).toEqual([]);
+    expect(analysis.added).toEqual([]);
+    expect(analysis.identical).toBe(log.length);
+  });
+
+  it("keeps a file's set order when importing into an empty log", () => {
+    const imported = reimported(log);
+    const merged = resolveLogMerge([], analyzeLogMerge([], imported));
+    expect(benchReps(merged)).toEqual([8, 7, 6]);
+  });
+
+  it("adds sets after the local ones of their day", () => {
+    const extra: WorkoutEntry = { id: "b1", date: "2026-03-02", name: "Bench Press", sets: 1, reps: 5, weightKg: 60 };
+    const merged = resolveLogMerge(log, analyzeLogMerge(log, [...reimported(log), extra]));
+    expect(benchReps(merged)).toEqual([8, 7, 6, 5]);
+  });
+});
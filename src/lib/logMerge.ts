@@ -0,0 +1,149 @@
+/**
+ * Workout Log Merge
+ *
+ * Merges an imported log into the local one instead of overwriting it, so
+ * sets logged on two devices can be combined.
+ * - Rows match by id, then by (date, exercise, set number) for rows logged
+ *   separately on each device; set numbers come from each row's setIndex,
+ *   and incoming rows without one (CSV, old backups) count in file order
+ * - Added rows go after the local rows of their date, in their own order
+ * - Matched rows that differ in sets/reps/time/distance/weight/effort/
+ *   warm-up flag/notes
+ *   become conflicts the user resolves per row or with "keep newest"
+ * - PR flags are replayed over the merged history in date order
+ */
+
+import { assignSetIndexes, compareLogged, setNumbers, sortLog } from "./logOrder";
+import { replayPRs, type WorkoutEntry } from "./pr";
+
+/** Fields compared when deciding whether two matched rows conflict */
+export const CONFLICT_FIELDS = ["sets", "reps", "durationSec", "distanceM", "weightKg", "rpe", "rir", "warmup", "side", "notes"] as const;
+
+export type ConflictField = (typeof CONFLICT_FIELDS)[number];
+
+export type ConflictChoice = "existing" | "incoming";
+
+export interface LogConflict {
+  /** Id of the local row; the merged row keeps it whichever side wins */
+  id: string;
+  existing: WorkoutEntry;
+  incoming: WorkoutEntry;
+  fields: ConflictField[];
+}
+
+export interface LogMergeAnalysis {
+  /** Incoming rows with no local match */
+  added: WorkoutEntry[];
+  /** Matched rows with no differences */
+  identical: number;
+  conflicts: LogConflict[];
+}
+
+/**
+ * Stamp rows with the current time as their last edit
+ */
+export function stampUpdated<T extends { updated?: string }>(entries: T[], now = new Date().toISOString()): T[] {
+  return entries.map((entry) => ({ ...entry, updated: now }));
+}
+
+/**
+ * Key each row by date, exercise and its set number among that day's sets
+ * of the exercise, counted in the order they were logged
+ */
+function slotKeys(entries: WorkoutEntry[]): Map<string, WorkoutEntry> {
+  const numbers = setNumbers(entries);
+  const slots = new Map<string, WorkoutEntry>();
+  for (const entry of entries) {
+    slots.set(`${entry.date}|${entry.name}|${numbers.get(entry.id)}`, entry);
+  }
+  return slots;
+}
+
+function differingFields(a: WorkoutEntry, b: WorkoutEntry): ConflictField[] {
+  return CONFLICT_FIELDS.filter((field) => (a[field] ?? "") !== (b[field] ?? ""));
+}
+
+/**
+ * Pair incoming rows with local ones and sort them into added, identical
+ * and conflicting
+ */
+export function analyzeLogMerge(current: WorkoutEntry[], imported: WorkoutEntry[]): LogMergeAnalysis {
+  const incoming = assignSetIndexes(imported);
+  const currentById = new Map(current.map((row) => [row.id, row]));
+  const claimed = new Set<string>();
+  const matches = new Map<WorkoutEntry, WorkoutEntry>();
+
+  // Same id first, so a later slot match can't steal a row
+  for (const row of incoming) {
+    const existing = currentById.get(row.id);
+    if (existing && !claimed.has(existing.id)) {
+      claimed.add(existing.id);
+      matches.set(row, existing);
+    }
+  }
+
+  const currentSlots = slotKeys(current);
+  for (const [slot, row] of slotKeys(incoming)) {
+    if (matches.has(row)) continue;
+    const existing = currentSlots.get(slot);
+    if (existing && !claimed.has(existing.id)) {
+      claimed.add(existing.id);
+      matches.set(row, existing);
+    }
+  }
+
+  const analysis: LogMergeAnalysis = { added: [], identical: 0, conflicts: [] };
+  for (const row of [...incoming].sort(compareLogged)) {
+    const existing = matches.get(row);
+    if (!existing) {
+      // A fresh id keeps the row from colliding with an unrelated local row;
+      // the other device's numbering means nothing here, so it's renumbered
+      const id = currentById.has(row.id) ? `${row.id}-import` : row.id;
+      analysis.added.push({ ...row, id, setIndex: undefined });
+      continue;
+    }
+    const fields = differingFields(existing, row);
+    if (fields.length === 0) analysis.identical++;
+    else analysis.conflicts.push({ id: existing.id, existing, incoming: row, fields });
+  }
+  return analysis;
+}
+
+/**
+ * The side edited most recently. Rows without a timestamp predate edit
+ * tracking, so a stamped row wins; with neither stamped the local row stays.
+ */
+export function newestSide(conflict: LogConflict): ConflictChoice {
+  const { existing, incoming } = conflict;
+  if (incoming.updated && (!existing.updated || incoming.updated > existing.updated)) return "incoming";
+  return "existing";
+}
+
+/**
+ * Resolve every conflict to its newest side
+ */
+export function keepNewest(conflicts: LogConflict[]): Record<string, ConflictChoice> {
+  return Object.fromEntries(conflicts.map((conflict) => [conflict.id, newestSide(conflict)]));
+}
+
+/**
+ * Build the merged log from an analysis and the user's choices. Conflicts
+ * without a choice keep the newest side. Returned newest first.
+ */
+export function resolveLogMerge(
+  current: WorkoutEntry[],
+  analysis: LogMergeAnalysis,
+  choices: Record<string, ConflictChoice> = {}
+): WorkoutEntry[] {
+  const replacements = new Map<string, WorkoutEntry>();
+  for (const conflict of analysis.conflicts) {
+    const choice = choices[conflict.id] ?? newestSide(conflict);
+    if (choice === "incoming") {
+      // The incoming row takes the local row's place, set number included
+      replacements.set(conflict.id, { ...conflict.incoming, id: conflict.id, setIndex: conflict.existing.setIndex });
+    }
+  }
+
+  const merged = [...current.map((row) => replacements.get(row.id) ?? row), ...analysis.added];
+  return replayPRs(sortLog(assignSetIndexes(merged))).log;
+}
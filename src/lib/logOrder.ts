@@ -0,0 +1,65 @@
+/**
+ * Log Order
+ *
+ * The order sets were logged in. IndexedDB hands rows back in key order and
+ * ids are random, so the order is kept on each row instead of in the array.
+ * - `setIndex` numbers a date's rows from 1 in the order they were logged
+ * - Rows reach the log without one and are numbered after that date's
+ *   existing rows, in the order they're given; sessions hand over their
+ *   rows in the order they were done
+ * - A set's number within its exercise is its rank by `setIndex`
+ */
+
+import type { WorkoutEntry } from "./pr";
+
+/**
+ * Oldest first: by date, then in the order logged. Rows not numbered yet
+ * come last; ties fall back to the id so the order never depends on storage.
+ */
+export function compareLogged(a: WorkoutEntry, b: WorkoutEntry): number {
+  return (
+    a.date.localeCompare(b.date) ||
+    (a.setIndex ?? Number.MAX_SAFE_INTEGER) - (b.setIndex ?? Number.MAX_SAFE_INTEGER) ||
+    a.id.localeCompare(b.id)
+  );
+}
+
+/**
+ * Number the rows that have no `setIndex` yet. Returns the same array when
+ * every row is numbered, and numbered rows as the same objects.
+ */
+export function assignSetIndexes(log: WorkoutEntry[]): WorkoutEntry[] {
+  if (log.every((row) => row.setIndex !== undefined)) return log;
+  const last = new Map<string, number>();
+  for (const row of log) {
+    if (row.setIndex !== undefined) last.set(row.date, Math.max(last.get(row.date) ?? 0, row.setIndex));
+  }
+  return log.map((row) => {
+    if (row.setIndex !== undefined) return row;
+    const setIndex = (last.get(row.date) ?? 0) + 1;
+    last.set(row.date, setIndex);
+    return { ...row, setIndex };
+  });
+}
+
+/**
+ * Newest date first, and each date's rows in the order they were logged
+ */
+export function sortLog(log: WorkoutEntry[]): WorkoutEntry[] {
+  return [...log].sort((a, b) => b.date.localeCompare(a.date) || compareLogged(a, b));
+}
+
+/**
+ * Each row's set number within its exercise on its date, from 1, by id
+ */
+export function setNumbers(log: WorkoutEntry[]): Map<string, number> {
+  const numbers = new Map<string, number>();
+  const counts = new Map<string, number>();
+  for (const row of [...log].sort(compareLogged)) {
+    const group = `${row.date}|${row.name}`;
+    const n = (counts.get(group) ?? 0) + 1;
+    counts.set(group, n);
+    numbers.set(row.id, n);
+  }
+  return numbers;
+}
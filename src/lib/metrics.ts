@@ -0,0 +1,168 @@
+/**
+ * Set Metrics
+ *
+ * One definition of "volume" shared by PRs, charts and the log table, so
+ * the numbers in each are comparable.
+ * - Loaded sets: load volume, reps × weight
+ * - Unloaded sets: bodyweight-adjusted volume, reps × the profile's body
+ *   weight; just the rep count while no body weight is set
+ * - Holds (duration rows): time under tension, seconds per set
+ * - Distance rows: meters per set
+ * - Reps done during a timed set (repsDuration rows) count as rep sets,
+ *   and their seconds as time under tension
+ *
+ * Loaded sets don't add body weight: the log can't tell a weighted pull-up
+ * from a barbell lift. Warm-up sets have no volume of any kind.
+ *
+ * Entries store `sets` sets of the same reps and weight, so an entry's
+ * volume is `sets` × its set volume.
+ */
+
+import type { EntryKind, WorkoutEntry } from "./pr";
+
+export const ENTRY_KINDS: EntryKind[] = ["reps", "duration", "distance", "repsDuration"];
+
+export const ENTRY_KIND_LABELS: Record<EntryKind, string> = {
+  reps: "Reps",
+  duration: "Time",
+  distance: "Distance",
+  repsDuration: "Reps + time",
+};
+
+/** What a volume number measures */
+export type VolumeMetric = "load" | "bodyweight" | "reps" | "time" | "distance";
+
+export const VOLUME_METRIC_UNITS: Record<VolumeMetric, string> = {
+  load: "kg",
+  bodyweight: "kg",
+  reps: "reps",
+  time: "s",
+  distance: "m",
+};
+
+export interface MetricOptions {
+  /** The lifter's body weight, used for unloaded sets */
+  bodyweightKg?: number;
+}
+
+export interface SetMetrics {
+  metric: VolumeMetric;
+  /** Volume of one set, in the metric's unit */
+  setVolume: number;
+  /** Volume of all the entry's sets */
+  volume: number;
+  /** External load moved, sets × reps × weight; 0 for unloaded sets and holds */
+  loadVolumeKg: number;
+  /** Seconds held across all sets; 0 for untimed sets */
+  timeUnderTensionSec: number;
+}
+
+/**
+ * The row's kind; rows saved before kinds existed are rep sets
+ */
+export function entryKind(entry: Pick<WorkoutEntry, "kind">): EntryKind {
+  return entry.kind ?? "reps";
+}
+
+/**
+ * True for rows whose `reps` were counted (not holds or distances)
+ */
+export function hasReps(entry: Pick<WorkoutEntry, "kind">): boolean {
+  const kind = entryKind(entry);
+  return kind === "reps" || kind === "repsDuration";
+}
+
+/**
+ * The field holding a row's main number: reps, seconds or meters
+ */
+export function primaryField(entry: Pick<WorkoutEntry, "kind">): "reps" | "durationSec" | "distanceM" {
+  const kind = entryKind(entry);
+  return kind === "duration" ? "durationSec" : kind === "distance" ? "distanceM" : "reps";
+}
+
+/**
+ * What the row's `isPRVolume` flag stands for
+ */
+export function bestSetLabel(entry: Pick<WorkoutEntry, "kind">): string {
+  const kind = entryKind(entry);
+  return kind === "duration" ? "Hold" : kind === "distance" ? "Distance" : "Volume";
+}
+
+/**
+ * Short description of one set, e.g. "8 reps", "45 s", "400 m", "10 reps in 30 s"
+ */
+export function describeSet(entry: WorkoutEntry): string {
+  switch (entryKind(entry)) {
+    case "duration":
+      return `${entry.durationSec ?? 0} s`;
+    case "distance":
+      return `${entry.distanceM ?? 0} m`;
+    case "repsDuration":
+      return `${entry.reps} reps in ${entry.durationSec ?? 0} s`;
+    default:
+      return `${entry.reps} reps`;
+  }
+}
+
+/**
+ * Profile body weight as a usable number, or undefined when it isn't set
+ */
+export function bodyweightFrom(weightKg: number | "" | undefined): number | undefined {
+  return typeof weightKg === "number" && weightKg > 0 ? weightKg : undefined;
+}
+
+/**
+ * Every volume measure of a log entry
+ */
+export function setMetrics(entry: WorkoutEntry, options: MetricOptions = {}): SetMetrics {
+  const sets = entry.sets > 0 ? entry.sets : 1;
+  const reps = entry.reps > 0 ? entry.reps : 0;
+  const kind = entryKind(entry);
+
+  if (entry.warmup) {
+    const metric =
+      kind === "duration"
+        ? "time"
+        : kind === "distance"
+          ? "distance"
+          : entry.weightKg !== undefined && entry.weightKg > 0
+            ? "load"
+            : "reps";
+    return { metric, setVolume: 0, volume: 0, loadVolumeKg: 0, timeUnderTensionSec: 0 };
+  }
+
+  if (kind === "duration") {
+    const seconds = entry.durationSec ?? 0;
+    return { metric: "time", setVolume: seconds, volume: sets * seconds, loadVolumeKg: 0, timeUnderTensionSec: sets * seconds };
+  }
+  if (kind === "distance") {
+    const meters = entry.distanceM ?? 0;
+    return { metric: "distance", setVolume: meters, volume: sets * meters, loadVolumeKg: 0, timeUnderTensionSec: 0 };
+  }
+
+  const timeUnderTensionSec = kind === "repsDuration" ? sets * (entry.durationSec ?? 0) : 0;
+  if (entry.weightKg !== undefined && entry.weightKg > 0) {
+    const setVolume = reps * entry.weightKg;
+    return { metric: "load", setVolume, volume: sets * setVolume, loadVolumeKg: sets * setVolume, timeUnderTensionSec };
+  }
+  const { bodyweightKg } = options;
+  if (bodyweightKg !== undefined && bodyweightKg > 0) {
+    const setVolume = reps * bodyweightKg;
+    return { metric: "bodyweight", setVolume, volume: sets * setVolume, loadVolumeKg: 0, timeUnderTensionSec };
+  }
+  return { metric: "reps", setVolume: reps, volume: sets * reps, loadVolumeKg: 0, timeUnderTensionSec };
+}
+
+/**
+ * Volume of a single set of the entry
+ */
+export function setVolume(entry: WorkoutEntry, options: MetricOptions = {}): number {
+  return setMetrics(entry, options).setVolume;
+}
+
+/**
+ * Volume of all the entry's sets
+ */
+export function entryVolume(entry: WorkoutEntry, options: MetricOptions = {}): number {
+  return setMetrics(entry, options).volume;
+}
@@ -0,0 +1,74 @@
+/**
+ * Local Notifications
+ *
+ * Alerts shown while the app is in the background, e.g. when rest is over.
+ * - Shown through the service worker where there is one (phones only
+ *   allow notifications from a service worker), else directly
+ * - Nothing is shown without permission, or while the app is in view
+ * - Alerts for a known time are scheduled when the app is hidden: phones
+ *   freeze hidden pages, so the page's own timers can't be relied on
+ */
+
+export type NotificationAccess = NotificationPermission | "unsupported";
+
+export function notificationAccess(): NotificationAccess {
+  return typeof window !== "undefined" && "Notification" in window ? Notification.permission : "unsupported";
+}
+
+/**
+ * Ask for permission; only asks once the user has neither allowed nor blocked it
+ */
+export async function requestNotificationAccess(): Promise<NotificationAccess> {
+  const access = notificationAccess();
+  if (access !== "default") return access;
+  try {
+    return await Notification.requestPermission();
+  } catch (error) {
+    console.error("[notifications] Failed to request permission:", error);
+    return "default";
+  }
+}
+
+export function isAppHidden(): boolean {
+  return typeof document !== "undefined" && document.visibilityState === "hidden";
+}
+
+/**
+ * Show a notification if the app is hidden and allowed to. Failures are
+ * logged, never thrown.
+ */
+export async function notifyInBackground(title: string, options?: NotificationOptions): Promise<void> {
+  if (!isAppHidden() || notificationAccess() !== "granted") return;
+  try {
+    const registration =
+      "serviceWorker" in navigator ? await navigator.serviceWorker.getRegistration() : undefined;
+    if (registration) {
+      await registration.showNotification(title, options);
+    } else {
+      new Notification(title, options);
+    }
+  } catch (error) {
+    console.error("[notifications] Failed to notify:", error);
+  }
+}
+
+/**
+ * Show a notification in `delayMs` unless the app is back in view by then.
+ * The service worker keeps the time where there is one, since it runs while
+ * the page is frozen; else a timeout here does. Returns a function that
+ * cancels it.
+ */
+export function scheduleInBackground(
+  title: string,
+  options: NotificationOptions & { tag: string },
+  delayMs: number
+): () => void {
+  if (notificationAccess() !== "granted") return () => {};
+  const worker = "serviceWorker" in navigator ? navigator.serviceWorker.controller : null;
+  if (worker) {
+    worker.postMessage({ type: "SCHEDULE_NOTIFICATION", title, options, delayMs });
+    return () => worker.postMessage({ type: "CANCEL_NOTIFICATION", tag: options.tag });
+  }
+  const id = setTimeout(() => void notifyInBackground(title, options), delayMs);
+  return () => clearTimeout(id);
+}
@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import { replayPRs, type WorkoutEntry } from "./pr";
+
+function set(id: string, date: string, reps: number, weightKg?: number): WorkoutEntry {
+  return { id, date, name: "Pull-up", sets: 1, reps, weightKg };
+}
+
+describe("replayPRs", () => {
+  it("keeps volume records apart for loaded and bodyweight sets", () => {
+    const log = [
+      set("a", "2026-03-01", 5, 20),
+      set("b", "2026-03-02", 20),
+      set("c", "2026-03-03", 6, 20),
+      set("d", "2026-03-04", 10),
+    ];
+    const { log: flagged, events, records } = replayPRs(log, { bodyweightKg: 70 });
+
+    const volume = events.filter((event) => event.kind === "volume");
+    expect(volume.map((event) => [event.entryId, event.metric, event.previous])).toEqual([
+      ["a", "load", undefined],
+      ["b", "bodyweight", undefined],
+      ["c", "load", 100],
+    ]);
+    // The high-rep bodyweight set doesn't raise the bar for loaded sets, or the other way round
+    expect(flagged.map((row) => !!row.isPRVolume)).toEqual([true, true, true, false]);
+    expect(records["Pull-up"].maxVolume).toEqual({ load: 120, bodyweight: 1400 });
+  });
+
+  it("keeps rep counts apart from load volume", () => {
+    const log = [set("a", "2026-03-01", 5, 20), set("b", "2026-03-02", 30), set("c", "2026-03-03", 8, 10)];
+    const { log: flagged, records } = replayPRs(log);
+    expect(flagged.map((row) => !!row.isPRVolume)).toEqual([true, true, false]);
+    expect(records["Pull-up"].maxVolume).toEqual({ load: 100, reps: 30 });
+  });
+});
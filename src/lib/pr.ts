@@ -1,52 +1,188 @@
+import { compareLogged } from "./logOrder";
+import { setMetrics, type MetricOptions, type VolumeMetric } from "./metrics";
+
 export type Unit = "kg" | "lb";
 
+// what a log row measures; rows saved before kinds existed are "reps"
+export type EntryKind = "reps" | "duration" | "distance" | "repsDuration";
+
+// the side a unilateral set was done on
+export type Side = "left" | "right";
+
 export interface WorkoutEntry {
   id: string;
   date: string;
   name: string;
+  kind?: EntryKind;
   sets: number;
-  reps: number;
+  reps: number; // 0 for duration and distance rows
+  durationSec?: number; // seconds per set, for duration and repsDuration rows; time taken for distance rows
+  distanceM?: number; // meters per set, for distance rows
   weightKg?: number;
+  rpe?: number; // effort of the set, 1-10
+  rir?: number; // or reps left in reserve
+  warmup?: boolean; // warm-up set: no PRs, volume or progression
+  side?: Side; // one side of a unilateral exercise
   notes?: string;
+  sessionId?: string; // the workout session the row was saved from
+  setIndex?: number; // order logged within its date, from 1 (see lib/logOrder)
+  updated?: string; // ISO timestamp of the last edit, used to resolve import conflicts
   // optional flags
   isPRMaxWeight?: boolean;
   isPRVolume?: boolean;
 }
 
-export type PRMap = Record<
-  string,
-  { maxWeightKg?: number; maxVolumeKg?: number } // per exercise
->;
+export type E1RMFormula = "epley" | "brzycki";
+
+export const E1RM_FORMULA_LABELS: Record<E1RMFormula, string> = {
+  epley: "Epley",
+  brzycki: "Brzycki",
+};
+
+// rep counts tracked as rep-max records (1RM, 3RM, ...)
+export const REP_MAX_TARGETS = [1, 3, 5, 8, 10];
+
+// estimates get unreliable past this many reps
+export const MAX_E1RM_REPS = 15;
+
+// estimated one-rep max for a set, or undefined when it can't be estimated
+export function estimateOneRepMax(
+  weightKg: number | undefined,
+  reps: number,
+  formula: E1RMFormula = "epley"
+): number | undefined {
+  if (weightKg === undefined || weightKg <= 0 || reps < 1 || reps > MAX_E1RM_REPS) return undefined;
+  if (reps === 1) return weightKg;
+  return formula === "brzycki" ? (weightKg * 36) / (37 - reps) : weightKg * (1 + reps / 30);
+}
+
+// best results per exercise
+export interface ExerciseRecords {
+  maxWeightKg?: number;
+  // best set volume per measure (see lib/metrics): load, bodyweight and rep
+  // count volumes are never compared with each other
+  maxVolume?: Partial<Record<Exclude<VolumeMetric, "time" | "distance">, number>>;
+  longestHoldSec?: number; // best duration set
+  longestDistanceM?: number; // best distance set
+  e1rmKg?: number;
+  // heaviest weight lifted for at least N reps, keyed by N from REP_MAX_TARGETS
+  repMaxes?: Partial<Record<number, { weightKg: number; date: string }>>;
+}
+
+export type PRMap = Record<string, ExerciseRecords>;
+
+export interface PROptions extends MetricOptions {
+  formula?: E1RMFormula;
+}
 
 // compute current PRs from historical entries
-export function computePRs(entries: WorkoutEntry[]): PRMap {
-  const map: PRMap = {};
-  for (const w of entries) {
-    const vol = w.reps * (w.weightKg ?? 1);
-    const m = map[w.name] ?? {};
-    if (w.weightKg !== undefined) {
-      if (m.maxWeightKg === undefined || w.weightKg > m.maxWeightKg) m.maxWeightKg = w.weightKg;
+export function computePRs(entries: WorkoutEntry[], options: PROptions = {}): PRMap {
+  return replayPRs(entries, options).records;
+}
+
+export type PRKind = "maxWeight" | "volume" | "e1rm" | "repMax" | "hold" | "distance";
+
+// a record being set: "new 5RM for Squat on 2026-03-02"
+export interface PREvent {
+  date: string;
+  name: string;
+  kind: PRKind;
+  value: number; // kg for maxWeight/e1rm/repMax, set volume for volume, s for hold, m for distance
+  previous?: number; // the record it beat; undefined the first time an exercise is logged
+  reps?: number; // for repMax: the N in NRM
+  metric?: VolumeMetric; // for volume: what the value measures
+  entryId: string;
+}
+
+export interface PRReplay {
+  log: WorkoutEntry[]; // same order as the input
+  events: PREvent[]; // oldest first
+  records: PRMap; // bests after the whole log
+}
+
+// replay the whole log oldest first and recompute every PR flag, so edits,
+// deletes and imports of old entries fix the flags on everything after them.
+// Rows of the same day are taken in the order they were logged, by setIndex
+// then id, so the flags don't depend on the order rows are stored in. Rows
+// whose flags don't change are returned as the same objects.
+// isPRVolume marks the best set by the row's own measure: volume for rep
+// sets, the longest hold for duration rows, the longest distance for
+// distance rows. Each is compared only against rows measured the same way:
+// a bodyweight or rep count set never beats a loaded set's volume.
+// Warm-up sets never set records.
+export function replayPRs(log: WorkoutEntry[], options: PROptions = {}): PRReplay {
+  const formula = options.formula ?? "epley";
+  const order = log.map((_, i) => i).sort((a, b) => compareLogged(log[a], log[b]));
+  const best: PRMap = {};
+  const flags = new Array<{ isPRMaxWeight: boolean; isPRVolume: boolean }>(log.length);
+  const events: PREvent[] = [];
+
+  for (const i of order) {
+    const w = log[i];
+    if (w.warmup) {
+      flags[i] = { isPRMaxWeight: false, isPRVolume: false };
+      continue;
     }
-    if (m.maxVolumeKg === undefined || vol > m.maxVolumeKg) m.maxVolumeKg = vol;
-    map[w.name] = m;
-  }
-  return map;
-}
-
-// mark PR flags for a new batch of entries BEFORE inserting into history
-export function markPRsBeforeInsert(
-  history: WorkoutEntry[],
-  incoming: WorkoutEntry[]
-): WorkoutEntry[] {
-  const prs = computePRs(history);
-  return incoming.map((w) => {
-    const prev = prs[w.name] ?? {};
-    const vol = w.reps * (w.weightKg ?? 1);
+    const prev = best[w.name] ?? {};
+    const { setVolume: vol, metric } = setMetrics(w, options);
+    const prevBest =
+      metric === "time" ? prev.longestHoldSec : metric === "distance" ? prev.longestDistanceM : prev.maxVolume?.[metric];
+    const bestKind: PRKind = metric === "time" ? "hold" : metric === "distance" ? "distance" : "volume";
     const isPRMaxWeight =
       w.weightKg !== undefined &&
       (prev.maxWeightKg === undefined || w.weightKg > prev.maxWeightKg);
-    const isPRVolume =
-      prev.maxVolumeKg === undefined || vol > prev.maxVolumeKg;
-    return { ...w, isPRMaxWeight, isPRVolume };
-  });
+    const isPRVolume = prevBest === undefined || vol > prevBest;
+    const e1rm = estimateOneRepMax(w.weightKg, w.reps, formula);
+    const isPRe1RM = e1rm !== undefined && (prev.e1rmKg === undefined || e1rm > prev.e1rmKg);
+
+    if (isPRMaxWeight) {
+      events.push({ date: w.date, name: w.name, kind: "maxWeight", value: w.weightKg!, previous: prev.maxWeightKg, entryId: w.id });
+    }
+    if (isPRVolume) {
+      events.push({ date: w.date, name: w.name, kind: bestKind, value: vol, previous: prevBest, metric, entryId: w.id });
+    }
+    if (isPRe1RM) {
+      events.push({ date: w.date, name: w.name, kind: "e1rm", value: e1rm!, previous: prev.e1rmKg, entryId: w.id });
+    }
+
+    // A set of N reps also counts for every lower rep target. Report one event:
+    // the highest target whose existing record it beat, else the highest new one.
+    const repMaxes = { ...prev.repMaxes };
+    let beaten: { reps: number; previous?: number } | undefined;
+    if (w.weightKg !== undefined && w.weightKg > 0) {
+      for (const target of REP_MAX_TARGETS) {
+        if (target > w.reps) break;
+        const record = repMaxes[target];
+        if (record && w.weightKg <= record.weightKg) continue;
+        repMaxes[target] = { weightKg: w.weightKg, date: w.date };
+        if (record || beaten?.previous === undefined) beaten = { reps: target, previous: record?.weightKg };
+      }
+    }
+    if (beaten) {
+      events.push({ date: w.date, name: w.name, kind: "repMax", value: w.weightKg!, previous: beaten.previous, reps: beaten.reps, entryId: w.id });
+    }
+
+    best[w.name] = {
+      ...prev,
+      maxWeightKg: isPRMaxWeight ? w.weightKg : prev.maxWeightKg,
+      e1rmKg: isPRe1RM ? e1rm : prev.e1rmKg,
+      repMaxes,
+    };
+    if (isPRVolume) {
+      if (metric === "time") best[w.name].longestHoldSec = vol;
+      else if (metric === "distance") best[w.name].longestDistanceM = vol;
+      else best[w.name].maxVolume = { ...prev.maxVolume, [metric]: vol };
+    }
+    flags[i] = { isPRMaxWeight, isPRVolume };
+  }
+
+  return {
+    log: log.map((w, i) => {
+      const f = flags[i];
+      const same = !!w.isPRMaxWeight === f.isPRMaxWeight && !!w.isPRVolume === f.isPRVolume;
+      return same ? w : { ...w, ...f };
+    }),
+    events,
+    records: best,
+  };
 }
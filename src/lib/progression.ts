@@ -0,0 +1,417 @@
+/**
+ * Progression
+ *
+ * Picks the reps and load to aim for the next time an exercise comes up,
+ * from the sessions it was done in before. Each exercise in a workout can
+ * choose its scheme; exercises without one use double progression.
+ * - Double progression: one more rep per session until the top of the rep
+ *   range, then one load step and back to the bottom
+ * - Linear load: one load step every session all sets hit the bottom of
+ *   the rep range
+ * - 5/3/1 waves: a four-week cycle of percentages of a training max, taken
+ *   as 90% of the best estimated 1RM; weeks count from the day the scheme
+ *   was chosen
+ * - Fixed: last session's load at the prescribed reps
+ * - Time progression: holds grow by a few seconds per session
+ *
+ * Double, linear, fixed and time schemes can deload after a number of
+ * missed sessions in a row. Waves don't: their training max follows the
+ * estimated 1RM, so it comes down on its own.
+ *
+ * With the profile's RPE mode on, double and linear loads are instead
+ * moved by how far last session's top set was from the target RPE (see
+ * RPE_LOAD_ADJUSTMENT). Sessions without a logged effort use the scheme.
+ * Effort can be logged as RPE or as reps in reserve; RIR n reads as
+ * RPE 10 − n.
+ *
+ * Every target carries a short reason, shown next to the suggestion.
+ */
+
+import { compareLogged } from "./logOrder";
+import { estimateOneRepMax, type E1RMFormula, type WorkoutEntry } from "./pr";
+import { entryKind, hasReps } from "./metrics";
+import { fromKg } from "./utils";
+
+export type ProgressionMode = "linear" | "rpe";
+
+export const PROGRESSION_MODE_LABELS: Record<ProgressionMode, string> = {
+  linear: "Each exercise's scheme",
+  rpe: "Autoregulated (RPE)",
+};
+
+/** How per-set effort is entered */
+export type EffortScale = "rpe" | "rir";
+
+export const EFFORT_SCALE_LABELS: Record<EffortScale, string> = {
+  rpe: "RPE (1-10)",
+  rir: "Reps in reserve",
+};
+
+/** Values offered when logging a set's effort */
+export const EFFORT_OPTIONS: Record<EffortScale, number[]> = {
+  rpe: [5, 6, 6.5, 7, 7.5, 8, 8.5, 9, 9.5, 10],
+  rir: [0, 1, 2, 3, 4, 5],
+};
+
+export const DEFAULT_TARGET_RPE = 8;
+
+const KG_PER_LB = 0.45359237;
+
+/** Smallest load change per unit system, in kg */
+export const LOAD_STEP_KG: Record<"kg" | "lb", number> = {
+  kg: 2.5,
+  lb: 5 * KG_PER_LB,
+};
+
+/**
+ * Load change for the next session by how far last session's top set was
+ * from the target. `minDiff` is target RPE minus logged RPE: positive when
+ * the set felt easier than planned. The first row it clears applies.
+ */
+export const RPE_LOAD_ADJUSTMENT: { minDiff: number; change: number }[] = [
+  { minDiff: 2, change: 0.05 },
+  { minDiff: 1, change: 0.025 },
+  { minDiff: -0.5, change: 0 },
+  { minDiff: -1.5, change: -0.025 },
+  { minDiff: -Infinity, change: -0.05 },
+];
+
+export interface ProgressionSettings {
+  mode: ProgressionMode;
+  targetRpe: number;
+  unit: "kg" | "lb";
+  /** For the training max of 5/3/1 waves */
+  formula?: E1RMFormula;
+}
+
+/* --------------------------------------------
+   Schemes
+---------------------------------------------*/
+
+export type ProgressionSchemeKind = "double" | "linear" | "wave" | "fixed" | "time";
+
+export const PROGRESSION_SCHEME_LABELS: Record<ProgressionSchemeKind, string> = {
+  double: "Double progression (reps, then load)",
+  linear: "Linear load",
+  wave: "5/3/1 waves (% of 1RM)",
+  fixed: "Fixed",
+  time: "Time progression (holds)",
+};
+
+/**
+ * How one exercise in a workout progresses
+ */
+export interface ProgressionScheme {
+  kind: ProgressionSchemeKind;
+  /** Load added per step, in kg; the unit's smallest step when unset */
+  incrementKg?: number;
+  /** Seconds added per session, for time progression */
+  incrementSec?: number;
+  /** Deload after this many missed sessions in a row; never when unset */
+  deloadAfterFailures?: number;
+  /** Share of the load (or hold) dropped on a deload, 0-1 */
+  deloadPercent?: number;
+  /** Day the scheme was chosen (YYYY-MM-DD); unset on schemes from before it was kept */
+  since?: string;
+}
+
+export const DEFAULT_SCHEME: ProgressionScheme = { kind: "double" };
+export const DEFAULT_INCREMENT_SEC = 5;
+export const DEFAULT_DELOAD_PERCENT = 0.1;
+
+/** Training max as a share of the best estimated 1RM */
+export const TRAINING_MAX_PERCENT = 0.9;
+
+/** The four weeks of a 5/3/1 cycle: share of the training max and reps per set */
+export const WAVE_WEEKS: { label: string; sets: [number, number][] }[] = [
+  { label: "5s", sets: [[0.65, 5], [0.75, 5], [0.85, 5]] },
+  { label: "3s", sets: [[0.7, 3], [0.8, 3], [0.9, 3]] },
+  { label: "5/3/1", sets: [[0.75, 5], [0.85, 3], [0.95, 1]] },
+  { label: "deload", sets: [[0.4, 5], [0.5, 5], [0.6, 5]] },
+];
+
+/** What the workout asks for */
+export interface Prescription {
+  repRange: [number, number];
+  /** Planned hold in seconds, for time progression */
+  seconds?: number;
+  scheme?: ProgressionScheme;
+}
+
+export interface ProgressionTarget {
+  reps: number;
+  /** Unset for unloaded exercises */
+  weightKg?: number;
+  /** Hold length, for time progression */
+  seconds?: number;
+  /** Per-set targets when the sets differ, as in wave weeks */
+  sets?: { reps: number; weightKg?: number }[];
+  /** Why this target, e.g. "Hit 12 reps (top of 8-12) last time: +2.5 kg" */
+  reason: string;
+  deload?: boolean;
+}
+
+/**
+ * The set's effort as RPE, whichever scale it was logged on
+ */
+export function effectiveRpe(entry: Pick<WorkoutEntry, "rpe" | "rir">): number | undefined {
+  if (entry.rpe !== undefined) return entry.rpe;
+  if (entry.rir !== undefined) return Math.max(0, 10 - entry.rir);
+  return undefined;
+}
+
+/**
+ * An exercise's sessions, newest first, each with its rows in the order
+ * they were logged. Rows on the same date outside any session count as one
+ * session. Warm-up sets are left out.
+ */
+export function exerciseHistory(log: WorkoutEntry[], name: string): WorkoutEntry[][] {
+  const sessions = new Map<string, WorkoutEntry[]>();
+  for (const entry of log) {
+    if (entry.name !== name || entry.warmup) continue;
+    const key = `${entry.date}|${entry.sessionId ?? ""}`;
+    const rows = sessions.get(key);
+    if (rows) rows.push(entry);
+    else sessions.set(key, [entry]);
+  }
+  return Array.from(sessions.values(), (rows) => rows.sort(compareLogged)).sort((a, b) => compareLogged(b[0], a[0]));
+}
+
+function isHold(entry: WorkoutEntry): boolean {
+  const kind = entryKind(entry);
+  return (kind === "duration" || kind === "repsDuration") && (entry.durationSec ?? 0) > 0;
+}
+
+/**
+ * A load in the display unit, e.g. "102.5 kg"
+ */
+export function formatLoad(kg: number, unit: "kg" | "lb"): string {
+  return `${Math.round(fromKg(kg, unit) * 10) / 10} ${unit}`;
+}
+
+/**
+ * Round a load to the nearest multiple of a step, in kg
+ */
+export function roundToStep(kg: number, step: number): number {
+  return Math.max(0, Math.round(kg / step) * step);
+}
+
+function loadStep(scheme: ProgressionScheme, settings: ProgressionSettings): number {
+  return scheme.incrementKg && scheme.incrementKg > 0 ? scheme.incrementKg : LOAD_STEP_KG[settings.unit];
+}
+
+/** Heaviest set; the first one logged on a tie */
+function heaviestSet(sets: WorkoutEntry[]): WorkoutEntry {
+  let heaviest = sets[0];
+  for (const set of sets) {
+    if ((set.weightKg ?? 0) > (heaviest.weightKg ?? 0)) heaviest = set;
+  }
+  return heaviest;
+}
+
+/** Heaviest set with a logged effort; the later one on a tie */
+function topSet(sets: WorkoutEntry[]): WorkoutEntry | undefined {
+  let top: WorkoutEntry | undefined;
+  for (const set of sets) {
+    if (effectiveRpe(set) === undefined) continue;
+    if (!top || (set.weightKg ?? 0) >= (top.weightKg ?? 0)) top = set;
+  }
+  return top;
+}
+
+/** True when a session fell short of what its scheme asked */
+function missedSession(sessions: WorkoutEntry[][], index: number, rx: Prescription): boolean {
+  const sets = sessions[index];
+  if (rx.scheme?.kind === "time") {
+    const previous = sessions[index + 1];
+    const shortest = Math.min(...sets.map((s) => s.durationSec ?? 0));
+    const before = previous ? Math.min(...previous.map((s) => s.durationSec ?? 0)) : rx.seconds ?? 0;
+    return shortest < before;
+  }
+  return sets.some((s) => s.reps < rx.repRange[0]);
+}
+
+function failureStreak(sessions: WorkoutEntry[][], rx: Prescription): number {
+  let streak = 0;
+  while (streak < sessions.length && missedSession(sessions, streak, rx)) streak++;
+  return streak;
+}
+
+function deloadTarget(
+  sessions: WorkoutEntry[][],
+  rx: Prescription,
+  scheme: ProgressionScheme,
+  streak: number,
+  settings: ProgressionSettings
+): ProgressionTarget {
+  const percent = scheme.deloadPercent ?? DEFAULT_DELOAD_PERCENT;
+  const missed = `Missed ${streak} sessions in a row`;
+  const last = sessions[0];
+  if (scheme.kind === "time") {
+    const shortest = Math.min(...last.map((s) => s.durationSec ?? 0));
+    const seconds = Math.max(1, Math.round(shortest * (1 - percent)));
+    return { reps: 0, seconds, deload: true, reason: `${missed}: deload to ${seconds} s` };
+  }
+  const heaviest = Math.max(...last.map((s) => s.weightKg ?? 0));
+  const [low] = rx.repRange;
+  if (heaviest <= 0) {
+    return { reps: low, deload: true, reason: `${missed}: back to ${low} reps` };
+  }
+  const weightKg = roundToStep(heaviest * (1 - percent), loadStep(scheme, settings));
+  return {
+    reps: low,
+    weightKg,
+    deload: true,
+    reason: `${missed}: deload ${Math.round(percent * 100)}% to ${formatLoad(weightKg, settings.unit)}`,
+  };
+}
+
+function doubleTarget(last: WorkoutEntry, [low, high]: [number, number], step: number, settings: ProgressionSettings): ProgressionTarget {
+  const reps = last.reps || low;
+  const loaded = last.weightKg !== undefined;
+  if (reps >= high) {
+    return {
+      reps: low,
+      weightKg: loaded ? last.weightKg! + step : undefined,
+      reason: loaded
+        ? `Hit ${reps} reps (top of ${low}-${high}) last time: +${formatLoad(step, settings.unit)}`
+        : `Hit ${reps} reps (top of ${low}-${high}) last time`,
+    };
+  }
+  return {
+    reps: reps + 1,
+    weightKg: last.weightKg,
+    reason: loaded
+      ? `${reps} reps at ${formatLoad(last.weightKg!, settings.unit)} last time: one more rep`
+      : `${reps} reps last time: one more rep`,
+  };
+}
+
+function linearTarget(sets: WorkoutEntry[], [low, high]: [number, number], step: number, settings: ProgressionSettings): ProgressionTarget {
+  const heaviest = Math.max(...sets.map((s) => s.weightKg ?? 0));
+  // Bodyweight moves can't add load, so they add reps instead
+  if (heaviest <= 0) return doubleTarget(heaviestSet(sets), [low, high], step, settings);
+  const load = formatLoad(heaviest, settings.unit);
+  if (sets.every((s) => s.reps >= low)) {
+    return {
+      reps: low,
+      weightKg: heaviest + step,
+      reason: `All sets hit ${low} reps at ${load} last time: +${formatLoad(step, settings.unit)}`,
+    };
+  }
+  return { reps: low, weightKg: heaviest, reason: `Missed ${low} reps at ${load} last time: repeat the load` };
+}
+
+function rpeTarget(
+  sets: WorkoutEntry[],
+  range: [number, number],
+  scheme: ProgressionScheme,
+  settings: ProgressionSettings
+): ProgressionTarget | undefined {
+  const top = topSet(sets);
+  if (!top) return undefined;
+  const logged = effectiveRpe(top)!;
+  const diff = settings.targetRpe - logged;
+  const { change } = RPE_LOAD_ADJUSTMENT.find((row) => diff >= row.minDiff)!;
+  const step = loadStep(scheme, settings);
+  if (change === 0) {
+    const target = scheme.kind === "linear" ? linearTarget(sets, range, step, settings) : doubleTarget(top, range, step, settings);
+    return { ...target, reason: `Top set at RPE ${logged}, on target. ${target.reason}` };
+  }
+
+  const felt = `Top set at RPE ${logged} (target ${settings.targetRpe})`;
+  const reps = Math.min(Math.max(top.reps || range[0], range[0]), range[1]);
+  if (top.weightKg === undefined || top.weightKg <= 0) {
+    // Nothing to load: easier sets earn a rep, harder ones repeat the reps
+    return change > 0
+      ? { reps: reps + 1, reason: `${felt}: one more rep` }
+      : { reps, reason: `${felt}: repeat the reps` };
+  }
+  // At least one load step, so light loads still move
+  const delta = top.weightKg * change;
+  const weightKg = Math.max(0, top.weightKg + Math.sign(delta) * Math.max(Math.abs(delta), step));
+  const percent = `${change > 0 ? "+" : "−"}${Math.abs(change * 100)}%`;
+  return { reps, weightKg, reason: `${felt}: ${percent} to ${formatLoad(weightKg, settings.unit)}` };
+}
+
+function waveTarget(
+  sessions: WorkoutEntry[][],
+  scheme: ProgressionScheme,
+  settings: ProgressionSettings
+): ProgressionTarget | undefined {
+  let best = 0;
+  for (const set of sessions.flat()) {
+    best = Math.max(best, estimateOneRepMax(set.weightKg, set.reps, settings.formula) ?? 0);
+  }
+  if (best <= 0) return undefined;
+
+  const trainingMax = best * TRAINING_MAX_PERCENT;
+  const since = scheme.since;
+  const done = since === undefined ? sessions.length : sessions.filter((sets) => sets[0].date >= since).length;
+  const weekIndex = done % WAVE_WEEKS.length;
+  const week = WAVE_WEEKS[weekIndex];
+  const step = loadStep(scheme, settings);
+  const sets = week.sets.map(([percent, reps]) => ({ reps, weightKg: roundToStep(trainingMax * percent, step) }));
+  const top = sets[sets.length - 1];
+  const first = Math.round(week.sets[0][0] * 100);
+  const last = Math.round(week.sets[week.sets.length - 1][0] * 100);
+  return {
+    reps: top.reps,
+    weightKg: top.weightKg,
+    sets,
+    deload: week.label === "deload",
+    reason:
+      `5/3/1 week ${weekIndex + 1} (${week.label}): ${first}-${last}% of training max ` +
+      `${formatLoad(trainingMax, settings.unit)} (${Math.round(TRAINING_MAX_PERCENT * 100)}% of e1RM)`,
+  };
+}
+
+function timeTarget(sessions: WorkoutEntry[][], rx: Prescription, scheme: ProgressionScheme): ProgressionTarget {
+  const increment = scheme.incrementSec && scheme.incrementSec > 0 ? scheme.incrementSec : DEFAULT_INCREMENT_SEC;
+  const shortest = Math.min(...sessions[0].map((s) => s.durationSec ?? 0));
+  const seconds = Math.max(rx.seconds ?? 0, shortest + increment);
+  return { reps: 0, seconds, reason: `Shortest hold ${shortest} s last time: +${increment} s` };
+}
+
+/**
+ * Reps, load or hold time to aim for next, or undefined when the exercise
+ * has no usable history. `history` comes from exerciseHistory.
+ */
+export function nextTarget(
+  history: WorkoutEntry[][],
+  rx: Prescription,
+  settings: ProgressionSettings
+): ProgressionTarget | undefined {
+  const scheme = rx.scheme ?? DEFAULT_SCHEME;
+  const keep = scheme.kind === "time" ? isHold : hasReps;
+  const sessions = history.map((sets) => sets.filter(keep)).filter((sets) => sets.length > 0);
+  if (sessions.length === 0) return undefined;
+
+  if (scheme.kind === "wave") {
+    const target = waveTarget(sessions, scheme, settings);
+    if (target) return target;
+  }
+  if (scheme.kind !== "wave" && scheme.deloadAfterFailures && scheme.deloadAfterFailures > 0) {
+    const streak = failureStreak(sessions, rx);
+    if (streak >= scheme.deloadAfterFailures) return deloadTarget(sessions, rx, scheme, streak, settings);
+  }
+  if (scheme.kind === "time") return timeTarget(sessions, rx, scheme);
+
+  const last = sessions[0];
+  if (scheme.kind === "fixed") {
+    const weightKg = heaviestSet(last).weightKg;
+    return {
+      reps: rx.repRange[0],
+      weightKg,
+      reason: weightKg === undefined ? "Fixed reps" : `Fixed: same load as last time (${formatLoad(weightKg, settings.unit)})`,
+    };
+  }
+  if (settings.mode === "rpe") {
+    const target = rpeTarget(last, rx.repRange, scheme, settings);
+    if (target) return target;
+  }
+  const step = loadStep(scheme, settings);
+  return scheme.kind === "linear"
+    ? linearTarget(last, rx.repRange, step, settings)
+    : doubleTarget(heaviestSet(last), rx.repRange, step, settings);
+}
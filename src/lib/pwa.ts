@@ -0,0 +1,100 @@
+/**
+ * Installable App
+ *
+ * Registers the service worker that keeps the app working offline, and
+ * reports what the page needs to know about it.
+ * - Only in production builds; the dev server serves fresh files itself
+ * - A new version is installed in the background and waits: the page
+ *   offers to reload into it rather than swapping mid-session
+ * - Online status, since nothing needs the network but it's worth saying so
+ */
+
+import { useEffect, useState, useSyncExternalStore } from "react";
+
+const updateListeners = new Set<() => void>();
+let waitingRegistration: ServiceWorkerRegistration | null = null;
+// Set once the user asked for the new version, so the first install doesn't reload
+let updating = false;
+
+function announceUpdate(registration: ServiceWorkerRegistration) {
+  waitingRegistration = registration;
+  for (const listener of updateListeners) listener();
+}
+
+/**
+ * Register the service worker once the page has loaded
+ */
+export function registerServiceWorker(): void {
+  if (!import.meta.env.PROD || typeof navigator === "undefined" || !("serviceWorker" in navigator)) return;
+
+  window.addEventListener("load", async () => {
+    try {
+      const registration = await navigator.serviceWorker.register("/sw.js");
+      // Installed on an earlier visit and still waiting
+      if (registration.waiting && navigator.serviceWorker.controller) announceUpdate(registration);
+
+      registration.addEventListener("updatefound", () => {
+        const worker = registration.installing;
+        worker?.addEventListener("statechange", () => {
+          // Without a controller this is the first install, not an update
+          if (worker.state === "installed" && navigator.serviceWorker.controller) announceUpdate(registration);
+        });
+      });
+
+      // A long-open app still hears about new versions
+      document.addEventListener("visibilitychange", () => {
+        if (document.visibilityState === "visible") {
+          registration.update().catch(() => {
+            // Offline; try again next time
+          });
+        }
+      });
+    } catch (error) {
+      console.error("[pwa] Failed to register service worker:", error);
+    }
+  });
+
+  navigator.serviceWorker.addEventListener("controllerchange", () => {
+    if (!updating) return;
+    updating = false;
+    window.location.reload();
+  });
+}
+
+/**
+ * Switch to the waiting version; the page reloads when it takes over
+ */
+export function applyUpdate(): void {
+  const waiting = waitingRegistration?.waiting;
+  if (!waiting) return;
+  updating = true;
+  waiting.postMessage({ type: "SKIP_WAITING" });
+}
+
+/**
+ * Whether a new version is waiting to be applied
+ */
+export function useUpdateAvailable(): boolean {
+  const [available, setAvailable] = useState(waitingRegistration !== null);
+  useEffect(() => {
+    const listener = () => setAvailable(true);
+    updateListeners.add(listener);
+    return () => {
+      updateListeners.delete(listener);
+    };
+  }, []);
+  return available;
+}
+
+function subscribeOnline(onChange: () => void) {
+  window.addEventListener("online", onChange);
+  window.addEventListener("offline", onChange);
+  return () => {
+    window.removeEventListener("online", onChange);
+    window.removeEventListener("offline", onChange);
+  };
+}
+
+export function useOnline(): boolean {
+  return useSyncExternalStore(subscribeOnline, () => navigator.onLine, () => true);
+}
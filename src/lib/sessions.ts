@@ -0,0 +1,283 @@
+/**
+ * Workout Sessions
+ *
+ * A session is one sitting of training: it's opened when a workout is
+ * started and closed when its sets are saved. Log rows saved from it carry
+ * its id in `sessionId`, so the log can be read back as workouts instead
+ * of loose sets.
+ * - Rows logged outside a session (quick-add, CSV and tracker imports,
+ *   rows saved before sessions existed) have no `sessionId`
+ * - Sessions are stored newest first, like the log
+ * - The runner's state is saved as a draft while a session is running, so
+ *   it can be resumed after a reload or a phone lock
+ */
+
+import type { Side, WorkoutEntry } from "./pr";
+import { generateId } from "./workoutLibrary";
+import { groupRuns } from "./supersets";
+import type { CircuitSpec } from "@/components/CircuitRunner";
+import { INTERVAL_MODE_LABELS, buildIntervals, type IntervalResult, type IntervalSpec } from "./intervals";
+
+export type SessionMode = "sets" | "circuit" | "intervals";
+
+export interface Session {
+  id: string;
+  /** Training date, YYYY-MM-DD; matches the date of its log rows */
+  date: string;
+  /** ISO timestamp the session was started */
+  startedAt: string;
+  /** ISO timestamp the sets were saved; unset while the session is running */
+  endedAt?: string;
+  planId?: string;
+  planDay?: number;
+  workoutId?: string;
+  mode: SessionMode;
+  /** Display name at the time, e.g. the workout's name */
+  title?: string;
+  notes?: string;
+  /** Session RPE, 1-10 */
+  rpe?: number;
+  updated?: string;
+}
+
+export const SESSION_MODE_LABELS: Record<SessionMode, string> = {
+  sets: "Sets",
+  circuit: "Circuit",
+  intervals: "Intervals",
+};
+
+/**
+ * Open a session
+ */
+export function createSession(fields: Omit<Session, "id" | "startedAt">, now = new Date()): Session {
+  return { ...fields, id: generateId(), startedAt: now.toISOString() };
+}
+
+/**
+ * Close a session and link its log rows to it. The session takes the date
+ * the rows were saved under, which the user may have changed mid-workout.
+ */
+export function finishSession(
+  session: Session,
+  entries: WorkoutEntry[],
+  date: string,
+  now = new Date()
+): { session: Session; entries: WorkoutEntry[] } {
+  const endedAt = now.toISOString();
+  return {
+    session: { ...session, date, endedAt, updated: endedAt },
+    entries: entries.map((entry) => ({ ...entry, sessionId: session.id })),
+  };
+}
+
+/**
+ * Minutes between start and end, or undefined for a running session
+ */
+export function sessionMinutes(session: Session): number | undefined {
+  if (!session.endedAt) return undefined;
+  const ms = Date.parse(session.endedAt) - Date.parse(session.startedAt);
+  return Number.isFinite(ms) && ms >= 0 ? Math.round(ms / 60000) : undefined;
+}
+
+/* --------------------------------------------
+   Grouping
+---------------------------------------------*/
+
+export interface SessionGroup {
+  /** Session id, or `date:<date>` for rows logged outside a session */
+  key: string;
+  date: string;
+  session?: Session;
+  entries: WorkoutEntry[];
+}
+
+/**
+ * Group log rows by session. Rows without a session, or whose session is
+ * gone, are grouped per date. Groups come back newest first; rows keep
+ * their order within a group.
+ */
+export function groupBySession(entries: WorkoutEntry[], sessions: Session[]): SessionGroup[] {
+  const byId = new Map(sessions.map((s) => [s.id, s]));
+  const groups = new Map<string, SessionGroup>();
+  for (const entry of entries) {
+    const session = entry.sessionId ? byId.get(entry.sessionId) : undefined;
+    const key = session ? session.id : `date:${entry.date}`;
+    let group = groups.get(key);
+    if (!group) {
+      group = { key, date: session?.date ?? entry.date, session, entries: [] };
+      groups.set(key, group);
+    }
+    group.entries.push(entry);
+  }
+  return Array.from(groups.values()).sort(
+    (a, b) =>
+      b.date.localeCompare(a.date) ||
+      (b.session?.startedAt ?? "").localeCompare(a.session?.startedAt ?? "")
+  );
+}
+
+/* --------------------------------------------
+   Drafts
+---------------------------------------------*/
+
+/** One exercise of the sets/reps runner, with its inputs as typed */
+export interface SessionPlanExercise {
+  name: string;
+  sets: {
+    reps: number | "";
+    weight: number | "";
+    suggestedReps?: number;
+    suggestedWeight?: number;
+    rpe?: number | "";
+    rir?: number | "";
+    warmup?: boolean;
+    side?: Side;
+  }[];
+  timed?: boolean;
+  seconds?: number | "";
+  /** Done one side at a time: sets come in left/right pairs */
+  unilateral?: boolean;
+  /** Hold per side, for unilateral timed exercises */
+  sideSeconds?: Partial<Record<Side, number | "">>;
+  /** Shared with the exercises it's done back to back with */
+  group?: string;
+  restSec?: number;
+  rounds?: number;
+  reps?: number | "";
+  weight?: number | "";
+  /** Why the progression suggested these targets */
+  reason?: string;
+}
+
+/**
+ * Give each set of a unilateral exercise a left and a right set, and
+ * timed ones a hold per side. Exercises already split are left alone.
+ */
+export function splitSides(plan: SessionPlanExercise[]): SessionPlanExercise[] {
+  return plan.map((ex) => {
+    if (!ex.unilateral) return ex;
+    if (ex.timed) {
+      return ex.sideSeconds ? ex : { ...ex, sideSeconds: { left: ex.seconds ?? "", right: ex.seconds ?? "" } };
+    }
+    if (ex.sets.some((set) => set.side)) return ex;
+    return {
+      ...ex,
+      sets: ex.sets.flatMap((set) => [
+        { ...set, side: "left" as const },
+        { ...set, side: "right" as const },
+      ]),
+    };
+  });
+}
+
+/** One set of the runner, in the order sets are done */
+export interface SessionStep {
+  exerciseIdx: number;
+  setIdx: number;
+  /** Rest is taken after this set */
+  rest: boolean;
+}
+
+/** Sets of an exercise that are done together: a set, or a left/right pair */
+function setSlots(ex: SessionPlanExercise): number[][] {
+  if (ex.timed) return [[0]];
+  const slots: number[][] = [];
+  for (let j = 0; j < ex.sets.length; j++) {
+    if (ex.sets[j].side === "left" && ex.sets[j + 1]?.side === "right") {
+      slots.push([j, j + 1]);
+      j++;
+    } else {
+      slots.push([j]);
+    }
+  }
+  return slots;
+}
+
+/**
+ * The order the runner goes through the plan's sets. Exercises in a group
+ * take turns, one set each per round, and rest comes after the round;
+ * neither a round nor a left/right pair is broken up by rest.
+ */
+export function sessionSteps(plan: SessionPlanExercise[]): SessionStep[] {
+  const steps: SessionStep[] = [];
+  for (const run of groupRuns(plan)) {
+    const slots = run.map((exerciseIdx) => setSlots(plan[exerciseIdx]));
+    const rounds = Math.max(...slots.map((s) => s.length));
+    for (let round = 0; round < rounds; round++) {
+      run.forEach((exerciseIdx, i) => {
+        for (const setIdx of slots[i][round] ?? []) steps.push({ exerciseIdx, setIdx, rest: false });
+      });
+      if (steps.length > 0) steps[steps.length - 1].rest = true;
+    }
+  }
+  return steps;
+}
+
+/** Where the circuit runner's clock stood */
+export interface CircuitProgress {
+  round: number;
+  stationIndex: number;
+  phase: "work" | "rest";
+  remaining: number;
+  /** Stations already completed */
+  entries: WorkoutEntry[];
+  /** Round each completed station was done in, by row id */
+  entryRounds?: Record<string, number>;
+  /** Reps typed in at the current rep station */
+  stationReps?: number | "";
+  /** True once the last round is done and the rows are being reviewed */
+  finished: boolean;
+  reviewEntries: WorkoutEntry[];
+}
+
+/** Where the interval runner's clock stood */
+export interface IntervalProgress {
+  intervalIndex: number;
+  phase: "work" | "rest";
+  remaining: number;
+  result: IntervalResult;
+  /** True once the clock ran out and the result is being reviewed */
+  finished: boolean;
+}
+
+/**
+ * Everything needed to put a running session back on screen
+ */
+export interface SessionDraft {
+  /** ISO timestamp of the last save */
+  savedAt: string;
+  session: Session | null;
+  mode: SessionMode;
+  day: number;
+  date: string;
+  exerciseIdx: number;
+  setIdx: number;
+  plan: SessionPlanExercise[];
+  circuitSpec: CircuitSpec | null;
+  circuitManual: { reps?: number | ""; weight?: number | "" }[];
+  circuit?: CircuitProgress;
+  intervalSpec?: IntervalSpec | null;
+  intervals?: IntervalProgress;
+}
+
+/**
+ * Short description of how far a draft got, e.g. "Exercise 3 of 6" or
+ * "Round 2 of 4, station 3"
+ */
+export function describeDraftProgress(draft: SessionDraft): string {
+  if (draft.mode === "circuit") {
+    const { circuit, circuitSpec } = draft;
+    if (!circuit || !circuitSpec) return "Circuit not started";
+    if (circuit.finished) return "Circuit done, not saved yet";
+    return `Round ${circuit.round} of ${circuitSpec.rounds}, station ${circuit.stationIndex + 1}`;
+  }
+  if (draft.mode === "intervals") {
+    const { intervals, intervalSpec } = draft;
+    if (!intervals || !intervalSpec) return "Intervals not started";
+    const label = INTERVAL_MODE_LABELS[intervalSpec.mode];
+    if (intervals.finished) return `${label} done, not saved yet`;
+    if (intervalSpec.mode === "amrap") return `${label}, ${intervals.result.rounds} rounds so far`;
+    return `${label} interval ${intervals.intervalIndex + 1} of ${buildIntervals(intervalSpec).length}`;
+  }
+  return `Exercise ${Math.min(draft.exerciseIdx + 1, draft.plan.length)} of ${draft.plan.length}`;
+}
@@ -0,0 +1,182 @@
+/**
+ * Stall Detection
+ *
+ * Finds exercises that have stopped moving and plans a deload for them.
+ * An exercise is stalled after a run of sessions (3 by default) at the same
+ * load where each one either had a set below the bottom of the rep range,
+ * or missed the top of it without beating the session before. A lighter
+ * session ends the run, so doing the deload clears the stall.
+ * - A deload takes 10% off the load and a third of the sets, at the bottom
+ *   of the rep range
+ * - "auto" puts the deload into the next session built for the exercise
+ *   unless it's skipped; "suggest" only when the user asks for it
+ * - Choices are keyed by exercise and the date of its last session, so
+ *   they lapse once the exercise is trained again
+ */
+
+import type { WorkoutEntry } from "./pr";
+import { hasReps } from "./metrics";
+import { LOAD_STEP_KG, exerciseHistory, formatLoad, roundToStep } from "./progression";
+
+export type DeloadMode = "auto" | "suggest" | "off";
+
+export const DELOAD_MODE_LABELS: Record<DeloadMode, string> = {
+  auto: "Schedule automatically",
+  suggest: "Suggest only",
+  off: "Off",
+};
+
+export type DeloadChoice = "deload" | "skip";
+
+export const DEFAULT_STALL_SESSIONS = 3;
+
+/** Share of the load taken off on a deload */
+export const DELOAD_LOAD_CUT = 0.1;
+
+/** Share of the sets kept on a deload */
+export const DELOAD_SETS_KEPT = 2 / 3;
+
+export interface Stall {
+  name: string;
+  repRange: [number, number];
+  /** Sessions in the run */
+  sessions: number;
+  /** Load the exercise is stuck at; unset for unloaded sets */
+  weightKg?: number;
+  /** Most reps done at that load in the last session */
+  bestReps: number;
+  /** True when the last session had a set below the rep range */
+  failed: boolean;
+  /** Date of the last session */
+  lastDate: string;
+}
+
+export interface DeloadPlan {
+  sets: number;
+  reps: number;
+  weightKg?: number;
+  reason: string;
+}
+
+interface SessionSummary {
+  weightKg: number;
+  reps: number;
+  failed: boolean;
+}
+
+function summarize(sets: WorkoutEntry[], low: number): SessionSummary {
+  const weightKg = Math.max(...sets.map((s) => s.weightKg ?? 0));
+  const reps = Math.max(...sets.filter((s) => (s.weightKg ?? 0) === weightKg).map((s) => s.reps));
+  return { weightKg, reps, failed: sets.some((s) => s.reps < low) };
+}
+
+function sameLoad(a: number, b: number): boolean {
+  return Math.abs(a - b) < 0.01;
+}
+
+/**
+ * The exercise's stall, if its last `threshold` sessions were stuck.
+ * `history` comes from exerciseHistory.
+ */
+export function detectStall(
+  history: WorkoutEntry[][],
+  name: string,
+  repRange: [number, number],
+  threshold = DEFAULT_STALL_SESSIONS
+): Stall | undefined {
+  const [low, high] = repRange;
+  const sessions = history.map((sets) => sets.filter(hasReps)).filter((sets) => sets.length > 0);
+  const summaries = sessions.map((sets) => summarize(sets, low));
+
+  let streak = 0;
+  for (let i = 0; i < summaries.length; i++) {
+    const current = summaries[i];
+    const previous = summaries[i + 1];
+    const held = previous !== undefined && sameLoad(current.weightKg, previous.weightKg);
+    const stuck = current.failed || (held && current.reps < high && current.reps <= previous.reps);
+    if (!stuck) break;
+    streak++;
+    if (!held) break;
+  }
+  if (streak < threshold) return undefined;
+
+  const last = summaries[0];
+  return {
+    name,
+    repRange,
+    sessions: streak,
+    weightKg: last.weightKg > 0 ? last.weightKg : undefined,
+    bestReps: last.reps,
+    failed: last.failed,
+    lastDate: sessions[0][0].date,
+  };
+}
+
+/**
+ * Stalls among the given exercises, in the order given
+ */
+export function findStalls(
+  log: WorkoutEntry[],
+  exercises: { name: string; repRange: [number, number] }[],
+  threshold = DEFAULT_STALL_SESSIONS
+): Stall[] {
+  const seen = new Set<string>();
+  const stalls: Stall[] = [];
+  for (const { name, repRange } of exercises) {
+    if (seen.has(name)) continue;
+    seen.add(name);
+    const stall = detectStall(exerciseHistory(log, name), name, repRange, threshold);
+    if (stall) stalls.push(stall);
+  }
+  return stalls;
+}
+
+/**
+ * Key a deload choice is stored under
+ */
+export function deloadKey(stall: Stall): string {
+  return `${stall.name}|${stall.lastDate}`;
+}
+
+/**
+ * True when the next session for the exercise should be a deload
+ */
+export function isDeloadScheduled(
+  stall: Stall,
+  mode: DeloadMode,
+  choices: Record<string, DeloadChoice> = {}
+): boolean {
+  const choice = choices[deloadKey(stall)];
+  if (mode === "auto") return choice !== "skip";
+  if (mode === "suggest") return choice === "deload";
+  return false;
+}
+
+/**
+ * Short description of a stall, e.g. "3 sessions at 100 kg without
+ * beating 9 reps (range 8-12)"
+ */
+export function describeStall(stall: Stall, unit: "kg" | "lb"): string {
+  const [low, high] = stall.repRange;
+  const at = stall.weightKg === undefined ? "" : ` at ${formatLoad(stall.weightKg, unit)}`;
+  return stall.failed
+    ? `${stall.sessions} sessions${at} with sets under ${low} reps`
+    : `${stall.sessions} sessions${at} without beating ${stall.bestReps} reps (range ${low}-${high})`;
+}
+
+/**
+ * The deload session for a stalled exercise planned with `sets` sets
+ */
+export function planDeload(stall: Stall, sets: number, unit: "kg" | "lb"): DeloadPlan {
+  const keptSets = Math.max(1, Math.round(sets * DELOAD_SETS_KEPT));
+  const reps = stall.repRange[0];
+  const weightKg =
+    stall.weightKg === undefined ? undefined : roundToStep(stall.weightKg * (1 - DELOAD_LOAD_CUT), LOAD_STEP_KG[unit]);
+  const load = weightKg === undefined ? "" : `${formatLoad(weightKg, unit)}, `;
+  return {
+    sets: keptSets,
+    reps,
+    weightKg,
+    reason: `Stalled for ${describeStall(stall, unit)}: deload to ${load}${keptSets} of ${sets} sets`,
+  };
+}
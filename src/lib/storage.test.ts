@@ -0,0 +1,58 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  SCHEMA_VERSION,
+  STORAGE_KEYS,
+  loadLog,
+  loadQuarantine,
+  runMigrations,
+  setStorageBackend,
+  type KeyValueStore,
+} from "./storage";
+
+function memoryStore(initial: Record<string, string>): KeyValueStore {
+  const data = new Map(Object.entries(initial));
+  return {
+    getItem: (key) => data.get(key) ?? null,
+    setItem: (key, value) => void data.set(key, value),
+    removeItem: (key) => void data.delete(key),
+  };
+}
+
+describe("runMigrations from v4", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    setStorageBackend(null);
+    vi.restoreAllMocks();
+  });
+
+  it("moves the log to the current keys", () => {
+    const store = memoryStore({
+      wt_workouts_v4: JSON.stringify([{ id: "a", date: "2026-03-01", name: "Squat", reps: 5, weightKg: 100 }]),
+    });
+    setStorageBackend(store);
+    runMigrations();
+
+    expect(store.getItem("wt_workouts_v4")).toBeNull();
+    expect(loadLog()).toMatchObject([{ id: "a", sets: 1, kind: "reps", setIndex: 1 }]);
+    expect(store.getItem(STORAGE_KEYS.schemaVersion)).toBe(String(SCHEMA_VERSION));
+  });
+
+  it("quarantines a v4 log that isn't JSON and removes the v4 keys", () => {
+    const profile = JSON.stringify({ name: "Ana" });
+    const store = memoryStore({ wt_profile_v4: profile, wt_workouts_v4: "[{not json" });
+    setStorageBackend(store);
+    runMigrations();
+
+    expect(store.getItem("wt_workouts_v4")).toBeNull();
+    expect(store.getItem("wt_profile_v4")).toBeNull();
+    expect(store.getItem(STORAGE_KEYS.profile)).toBe(profile);
+    expect(loadQuarantine()).toMatchObject([
+      { key: "wt_workouts_v4", raw: "[{not json", reason: "v4 log is not valid JSON" },
+    ]);
+    expect(loadLog()).toEqual([]);
+    expect(store.getItem(STORAGE_KEYS.schemaVersion)).toBe(String(SCHEMA_VERSION));
+  });
+});
@@ -0,0 +1,855 @@
+/**
+ * Versioned Storage Layer
+ *
+ * Single entry point for everything the app persists in localStorage.
+ * - Every key is covered by one schema version (`SCHEMA_VERSION`)
+ * - Older layouts are upgraded by an ordered migration pipeline
+ * - Every record is validated at runtime on read and on write
+ * - Anything that fails to parse or validate is moved to a quarantine
+ *   area instead of being dropped
+ */
+
+import type { WorkoutEntry } from "./pr";
+import { ENTRY_KINDS } from "./metrics";
+import { INTERVAL_MODES } from "./intervals";
+import { assignSetIndexes } from "./logOrder";
+import type { Session, SessionDraft } from "./sessions";
+import type { Exercise, Workout, WorkoutPlan } from "./workoutLibrary";
+import type { ProfileShape } from "@/components/ProfileTab";
+
+/**
+ * Current schema version. Bump this and append a migration below whenever
+ * the shape of a persisted record changes.
+ */
+export const SCHEMA_VERSION = 8;
+
+/**
+ * Storage keys
+ */
+export const STORAGE_KEYS = {
+  schemaVersion: "wt_schema_version",
+  profile: "wt_profile_v5",
+  log: "wt_workouts_v5",
+  exercises: "wt_exercises_v1",
+  workouts: "wt_workouts_v1",
+  plans: "wt_plans_v1",
+  sessions: "wt_sessions_v1",
+  sessionDraft: "wt_session_draft_v1",
+  quarantine: "wt_quarantine_v1",
+  indexedDbImport: "wt_indexeddb_import_v1",
+} as const;
+
+/**
+ * Keys used before the v5 schema (profile and log only)
+ */
+const LEGACY_V4_KEYS = {
+  profile: "wt_profile_v4",
+  log: "wt_workouts_v4",
+} as const;
+
+/**
+ * Minimal key/value interface so migrations can run against any Storage
+ */
+export type KeyValueStore = Pick<Storage, "getItem" | "setItem" | "removeItem">;
+
+/* --------------------------------------------
+   Validation
+---------------------------------------------*/
+
+export type ValidationResult<T> = { ok: true; value: T } | { ok: false; error: string };
+export type Validator<T> = (value: unknown) => ValidationResult<T>;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === "string" && value.trim().length > 0;
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+function isOptional<T>(value: unknown, guard: (v: unknown) => v is T): boolean {
+  return value === undefined || guard(value);
+}
+
+function isBoolean(value: unknown): value is boolean {
+  return typeof value === "boolean";
+}
+
+function isString(value: unknown): value is string {
+  return typeof value === "string";
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(isString);
+}
+
+function isRange(value: unknown): value is [number, number] {
+  return Array.isArray(value) && value.length === 2 && value.every(isFiniteNumber);
+}
+
+function fail<T>(error: string): ValidationResult<T> {
+  return { ok: false, error };
+}
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}/;
+
+/**
+ * Validate a single row of the workout log
+ */
+export const validateLogEntry: Validator<WorkoutEntry> = (value) => {
+  if (!isRecord(value)) return fail("entry is not an object");
+  if (!isNonEmptyString(value.id)) return fail("entry is missing an id");
+  if (!isString(value.date) || !ISO_DATE.test(value.date)) return fail("entry has an invalid date");
+  if (!isNonEmptyString(value.name)) return fail("entry is missing a name");
+  if (!isFiniteNumber(value.sets) || value.sets < 0) return fail("entry has invalid sets");
+  if (!isFiniteNumber(value.reps) || value.reps < 0) return fail("entry has invalid reps");
+  if (value.kind !== undefined && !ENTRY_KINDS.includes(value.kind as never)) return fail("entry has an unknown kind");
+  if (!isOptional(value.durationSec, isFiniteNumber) || (value.durationSec as number) < 0) {
+    return fail("entry has invalid durationSec");
+  }
+  if (!isOptional(value.distanceM, isFiniteNumber) || (value.distanceM as number) < 0) {
+    return fail("entry has invalid distanceM");
+  }
+  if (!isOptional(value.weightKg, isFiniteNumber)) return fail("entry has invalid weightKg");
+  if (!isOptional(value.rpe, isFiniteNumber) || (value.rpe as number) < 0 || (value.rpe as number) > 10) {
+    return fail("entry has invalid rpe");
+  }
+  if (!isOptional(value.rir, isFiniteNumber) || (value.rir as number) < 0) return fail("entry has invalid rir");
+  if (!isOptional(value.warmup, isBoolean)) return fail("entry has invalid warmup");
+  if (value.side !== undefined && value.side !== "left" && value.side !== "right") {
+    return fail("entry has an unknown side");
+  }
+  if (!isOptional(value.notes, isString)) return fail("entry has invalid notes");
+  if (!isOptional(value.sessionId, isString)) return fail("entry has invalid sessionId");
+  if (!isOptional(value.setIndex, isFiniteNumber)) return fail("entry has invalid setIndex");
+  if (!isOptional(value.updated, isString)) return fail("entry has invalid updated");
+  if (!isOptional(value.isPRMaxWeight, isBoolean)) return fail("entry has invalid isPRMaxWeight");
+  if (!isOptional(value.isPRVolume, isBoolean)) return fail("entry has invalid isPRVolume");
+  return { ok: true, value: value as unknown as WorkoutEntry };
+};
+
+const SESSION_MODES = ["sets", "circuit", "intervals"];
+
+/**
+ * Validate a workout session
+ */
+export const validateSession: Validator<Session> = (value) => {
+  if (!isRecord(value)) return fail("session is not an object");
+  if (!isNonEmptyString(value.id)) return fail("session is missing an id");
+  if (!isString(value.date) || !ISO_DATE.test(value.date)) return fail("session has an invalid date");
+  if (!isString(value.startedAt)) return fail("session is missing startedAt");
+  if (!isOptional(value.endedAt, isString)) return fail("session has invalid endedAt");
+  if (!isString(value.mode) || !SESSION_MODES.includes(value.mode)) return fail("session has an unknown mode");
+  if (!isOptional(value.planId, isString)) return fail("session has invalid planId");
+  if (!isOptional(value.planDay, isFiniteNumber)) return fail("session has invalid planDay");
+  if (!isOptional(value.workoutId, isString)) return fail("session has invalid workoutId");
+  if (!isOptional(value.title, isString)) return fail("session has invalid title");
+  if (!isOptional(value.notes, isString)) return fail("session has invalid notes");
+  if (!isOptional(value.rpe, isFiniteNumber)) return fail("session has invalid rpe");
+  if (!isOptional(value.updated, isString)) return fail("session has invalid updated");
+  return { ok: true, value: value as unknown as Session };
+};
+
+/**
+ * Validate a saved session draft. Only the outline is checked; the runner
+ * tolerates odd values in the inputs the user was typing.
+ */
+export const validateSessionDraft: Validator<SessionDraft> = (value) => {
+  if (!isRecord(value)) return fail("draft is not an object");
+  if (!isString(value.savedAt)) return fail("draft is missing savedAt");
+  if (!isString(value.mode) || !SESSION_MODES.includes(value.mode)) return fail("draft has an unknown mode");
+  if (!isFiniteNumber(value.day)) return fail("draft has an invalid day");
+  if (!isString(value.date) || !ISO_DATE.test(value.date)) return fail("draft has an invalid date");
+  if (!isFiniteNumber(value.exerciseIdx) || !isFiniteNumber(value.setIdx)) return fail("draft has an invalid position");
+  if (!Array.isArray(value.plan) || !Array.isArray(value.circuitManual)) return fail("draft is missing its plan");
+  if (value.session !== null && validateSession(value.session).ok === false) return fail("draft has an invalid session");
+  if (value.mode === "circuit" && !isRecord(value.circuitSpec)) return fail("draft is missing its circuit");
+  if (value.mode === "intervals" && !isRecord(value.intervalSpec)) return fail("draft is missing its intervals");
+  return { ok: true, value: value as unknown as SessionDraft };
+};
+
+/**
+ * Validate a library exercise
+ */
+export const validateExercise: Validator<Exercise> = (value) => {
+  if (!isRecord(value)) return fail("exercise is not an object");
+  if (!isNonEmptyString(value.id)) return fail("exercise is missing an id");
+  if (!isNonEmptyString(value.name)) return fail("exercise is missing a name");
+  if (!isNonEmptyString(value.category)) return fail("exercise is missing a category");
+  if (!isStringArray(value.muscleGroups)) return fail("exercise has invalid muscleGroups");
+  if (!isOptional(value.equipment, isStringArray)) return fail("exercise has invalid equipment");
+  if (!isOptional(value.defaultRepRange, isRange)) return fail("exercise has invalid defaultRepRange");
+  if (!isOptional(value.defaultSets, isFiniteNumber)) return fail("exercise has invalid defaultSets");
+  if (!isOptional(value.defaultRestSec, isFiniteNumber)) return fail("exercise has invalid defaultRestSec");
+  if (!isOptional(value.defaultSeconds, isFiniteNumber)) return fail("exercise has invalid defaultSeconds");
+  if (!isOptional(value.warmup, isBoolean)) return fail("exercise has invalid warmup");
+  if (!isOptional(value.isUnilateral, isBoolean)) return fail("exercise has invalid isUnilateral");
+  return { ok: true, value: value as unknown as Exercise };
+};
+
+const WORKOUT_MODES = ["sets-reps", "timed", "circuit", ...INTERVAL_MODES];
+const PROGRESSION_SCHEMES = ["double", "linear", "wave", "fixed", "time"];
+
+function isIsoDate(value: unknown): value is string {
+  return isString(value) && ISO_DATE.test(value);
+}
+
+function isProgressionScheme(value: unknown): boolean {
+  return (
+    isRecord(value) &&
+    isString(value.kind) &&
+    PROGRESSION_SCHEMES.includes(value.kind) &&
+    isOptional(value.incrementKg, isFiniteNumber) &&
+    isOptional(value.incrementSec, isFiniteNumber) &&
+    isOptional(value.deloadAfterFailures, isFiniteNumber) &&
+    isOptional(value.deloadPercent, isFiniteNumber) &&
+    isOptional(value.since, isIsoDate)
+  );
+}
+
+/**
+ * Validate a library workout
+ */
+export const validateWorkout: Validator<Workout> = (value) => {
+  if (!isRecord(value)) return fail("workout is not an object");
+  if (!isNonEmptyString(value.id)) return fail("workout is missing an id");
+  if (!isString(value.name)) return fail("workout is missing a name");
+  if (!isString(value.mode) || !WORKOUT_MODES.includes(value.mode)) return fail("workout has an unknown mode");
+  if (!Array.isArray(value.exercises)) return fail("workout has no exercise list");
+  if (!value.exercises.every((we) => isRecord(we) && isNonEmptyString(we.exerciseId))) {
+    return fail("workout has an exercise without an exerciseId");
+  }
+  if (!value.exercises.every((we) => we.progression === undefined || isProgressionScheme(we.progression))) {
+    return fail("workout has an exercise with an invalid progression scheme");
+  }
+  if (!value.exercises.every((we) => isOptional(we.group, isString))) {
+    return fail("workout has an exercise with an invalid group");
+  }
+  for (const field of ["intervalSec", "intervalRestSec", "timeCapSec", "ladderStepSec"]) {
+    if (!isOptional(value[field], isFiniteNumber)) return fail(`workout has invalid ${field}`);
+  }
+  if (!isOptional(value.ladderPyramid, isBoolean)) return fail("workout has invalid ladderPyramid");
+  return { ok: true, value: value as unknown as Workout };
+};
+
+/**
+ * Validate a workout plan
+ */
+export const validatePlan: Validator<WorkoutPlan> = (value) => {
+  if (!isRecord(value)) return fail("plan is not an object");
+  if (!isNonEmptyString(value.id)) return fail("plan is missing an id");
+  if (!isString(value.name)) return fail("plan is missing a name");
+  if (!Array.isArray(value.days)) return fail("plan has no day list");
+  if (!value.days.every((d) => isRecord(d) && isFiniteNumber(d.day) && isString(d.workoutId))) {
+    return fail("plan has an invalid day");
+  }
+  return { ok: true, value: value as unknown as WorkoutPlan };
+};
+
+const LOADING_KINDS = ["barbell", "plates", "dumbbell", "kettlebell", "stack"];
+
+function isNumberArray(value: unknown): value is number[] {
+  return Array.isArray(value) && value.every(isFiniteNumber);
+}
+
+function isEquipmentLoading(value: unknown): boolean {
+  return (
+    isRecord(value) &&
+    isString(value.kind) &&
+    LOADING_KINDS.includes(value.kind) &&
+    isFiniteNumber(value.base) &&
+    isOptional(value.plates, isNumberArray) &&
+    isOptional(value.step, isFiniteNumber) &&
+    isOptional(value.max, isFiniteNumber) &&
+    isOptional(value.weights, isNumberArray)
+  );
+}
+
+/**
+ * Validate the user profile
+ */
+export const validateProfile: Validator<ProfileShape> = (value) => {
+  if (!isRecord(value)) return fail("profile is not an object");
+  if (!isString(value.name)) return fail("profile is missing a name");
+  if (value.unit !== undefined && value.unit !== "kg" && value.unit !== "lb") {
+    return fail("profile has an unknown unit");
+  }
+  if (!isOptional(value.preferredDays, isStringArray)) return fail("profile has invalid preferredDays");
+  if (value.e1rmFormula !== undefined && value.e1rmFormula !== "epley" && value.e1rmFormula !== "brzycki") {
+    return fail("profile has an unknown e1rmFormula");
+  }
+  if (value.progressionMode !== undefined && value.progressionMode !== "linear" && value.progressionMode !== "rpe") {
+    return fail("profile has an unknown progressionMode");
+  }
+  if (!isOptional(value.targetRpe, isFiniteNumber)) return fail("profile has invalid targetRpe");
+  if (value.effortScale !== undefined && value.effortScale !== "rpe" && value.effortScale !== "rir") {
+    return fail("profile has an unknown effortScale");
+  }
+  if (value.deloadMode !== undefined && !["auto", "suggest", "off"].includes(value.deloadMode as string)) {
+    return fail("profile has an unknown deloadMode");
+  }
+  if (!isOptional(value.stallSessions, isFiniteNumber)) return fail("profile has invalid stallSessions");
+  if (
+    value.deloadChoices !== undefined &&
+    !(isRecord(value.deloadChoices) && Object.values(value.deloadChoices).every((c) => c === "deload" || c === "skip"))
+  ) {
+    return fail("profile has invalid deloadChoices");
+  }
+  if (
+    value.warmupTemplates !== undefined &&
+    !(
+      isRecord(value.warmupTemplates) &&
+      Object.values(value.warmupTemplates).every(
+        (steps) =>
+          Array.isArray(steps) && steps.every((s) => isRecord(s) && isFiniteNumber(s.percent) && isFiniteNumber(s.reps))
+      )
+    )
+  ) {
+    return fail("profile has invalid warmupTemplates");
+  }
+  if (
+    value.loadingSetups !== undefined &&
+    !(
+      isRecord(value.loadingSetups) &&
+      Object.entries(value.loadingSetups).every(
+        ([unit, setups]) =>
+          (unit === "kg" || unit === "lb") && isRecord(setups) && Object.values(setups).every(isEquipmentLoading)
+      )
+    )
+  ) {
+    return fail("profile has invalid loadingSetups");
+  }
+  if (!isOptional(value.imbalanceThreshold, isFiniteNumber)) return fail("profile has invalid imbalanceThreshold");
+  if (
+    value.cues !== undefined &&
+    !(
+      isRecord(value.cues) &&
+      isOptional(value.cues.muted, isBoolean) &&
+      isOptional(value.cues.volume, isFiniteNumber) &&
+      isOptional(value.cues.voice, isBoolean) &&
+      isOptional(value.cues.countdownSec, isFiniteNumber)
+    )
+  ) {
+    return fail("profile has invalid cues");
+  }
+  if (!isOptional(value.keepScreenAwake, isBoolean)) return fail("profile has invalid keepScreenAwake");
+  if (!isOptional(value.restNotifications, isBoolean)) return fail("profile has invalid restNotifications");
+  return { ok: true, value: value as unknown as ProfileShape };
+};
+
+/** Name suffix that marked holds before entries had a kind */
+const LEGACY_TIMED_SUFFIX = " (sec)";
+
+/**
+ * Give a log row written before entry kinds an explicit kind. Holds were
+ * stored as "Name (sec)" with their seconds in `reps`; they become duration
+ * rows under the plain name. Rows that already have a kind come back as
+ * the same object.
+ */
+export function upgradeLogEntry(entry: WorkoutEntry): WorkoutEntry {
+  if (entry.kind) return entry;
+  if (entry.name.endsWith(LEGACY_TIMED_SUFFIX) && entry.name.length > LEGACY_TIMED_SUFFIX.length) {
+    return {
+      ...entry,
+      name: entry.name.slice(0, -LEGACY_TIMED_SUFFIX.length),
+      kind: "duration",
+      reps: 0,
+      durationSec: entry.reps,
+    };
+  }
+  return { ...entry, kind: "reps" };
+}
+
+/**
+ * Fix number fields that JSON turned into null. Older versions saved
+ * `parseFloat("")` (NaN) for an empty weight, which is stored as null: no
+ * weight is no weight, and unreadable reps are 0. Anything else comes back
+ * as the same value.
+ */
+export function repairLogEntry(value: unknown): unknown {
+  if (!isRecord(value)) return value;
+  const badWeight = value.weightKg === null || (typeof value.weightKg === "number" && Number.isNaN(value.weightKg));
+  const badReps = value.reps === null || (typeof value.reps === "number" && Number.isNaN(value.reps));
+  if (!badWeight && !badReps) return value;
+  const repaired: Record<string, unknown> = { ...value };
+  if (badWeight) delete repaired.weightKg;
+  if (badReps) repaired.reps = 0;
+  return repaired;
+}
+
+/* --------------------------------------------
+   Quarantine
+---------------------------------------------*/
+
+/**
+ * A record that could not be parsed or validated. The raw text is kept
+ * verbatim so it can be inspected or repaired later.
+ */
+export interface QuarantinedRecord {
+  key: string;
+  reason: string;
+  raw: string;
+  quarantinedAt: string; // ISO timestamp
+}
+
+let backend: KeyValueStore | null = null;
+let migrated = false;
+
+function getStore(): KeyValueStore {
+  return backend ?? localStorage;
+}
+
+/**
+ * Swap the underlying store (e.g. an in-memory map). Resets migration state.
+ */
+export function setStorageBackend(store: KeyValueStore | null): void {
+  backend = store;
+  migrated = false;
+}
+
+/**
+ * Load all quarantined records
+ */
+export function loadQuarantine(): QuarantinedRecord[] {
+  try {
+    const stored = getStore().getItem(STORAGE_KEYS.quarantine);
+    const parsed: unknown = stored ? JSON.parse(stored) : [];
+    return Array.isArray(parsed) ? (parsed as QuarantinedRecord[]) : [];
+  } catch (error) {
+    console.error("[storage] Quarantine area is unreadable:", error);
+    return [];
+  }
+}
+
+/**
+ * Move a record into quarantine. Never throws: losing the quarantine write
+ * must not take the caller down with it.
+ */
+export function quarantine(key: string, raw: string, reason: string): void {
+  try {
+    const existing = loadQuarantine();
+    if (existing.some((q) => q.key === key && q.raw === raw)) return;
+    existing.push({ key, reason, raw, quarantinedAt: new Date().toISOString() });
+    getStore().setItem(STORAGE_KEYS.quarantine, JSON.stringify(existing));
+    console.warn(`[storage] Quarantined record from ${key}: ${reason}`);
+  } catch (error) {
+    console.error("[storage] Failed to quarantine record:", error);
+  }
+}
+
+/**
+ * Remove all quarantined records
+ */
+export function clearQuarantine(): void {
+  getStore().removeItem(STORAGE_KEYS.quarantine);
+}
+
+/**
+ * Remove some quarantined records, e.g. once they've been restored
+ */
+export function removeFromQuarantine(records: QuarantinedRecord[]): void {
+  const remove = new Set(records.map((q) => `${q.key}\n${q.raw}`));
+  const kept = loadQuarantine().filter((q) => !remove.has(`${q.key}\n${q.raw}`));
+  if (kept.length === 0) clearQuarantine();
+  else writeRaw(STORAGE_KEYS.quarantine, JSON.stringify(kept));
+}
+
+/** Keys whose quarantined records are log rows */
+const LOG_KEYS: string[] = [STORAGE_KEYS.log, LEGACY_V4_KEYS.log, "indexeddb:log"];
+
+/**
+ * The log row a quarantined record holds, once repaired, or null if it
+ * isn't a log row or still doesn't validate
+ */
+export function recoverLogEntry(record: QuarantinedRecord): WorkoutEntry | null {
+  if (!LOG_KEYS.includes(record.key)) return null;
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(record.raw);
+  } catch {
+    return null;
+  }
+  const result = validateLogEntry(repairLogEntry(parsed));
+  return result.ok ? upgradeLogEntry(result.value) : null;
+}
+
+/* --------------------------------------------
+   Migrations
+---------------------------------------------*/
+
+/**
+ * One step in the migration pipeline. Steps run in order and each one
+ * upgrades the store from `from` to `from + 1`.
+ */
+export interface Migration {
+  from: number;
+  description: string;
+  migrate: (store: KeyValueStore) => void;
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    from: 4,
+    description: "Move profile and log to v5 keys; default missing per-row sets to 1",
+    migrate(store) {
+      const profile = store.getItem(LEGACY_V4_KEYS.profile);
+      if (profile !== null && store.getItem(STORAGE_KEYS.profile) === null) {
+        store.setItem(STORAGE_KEYS.profile, profile);
+      }
+
+      const log = store.getItem(LEGACY_V4_KEYS.log);
+      if (log !== null && store.getItem(STORAGE_KEYS.log) === null) {
+        let parsed: unknown;
+        try {
+          parsed = JSON.parse(log);
+        } catch {
+          // Kept in quarantine; the v4 key is removed with the rest below
+          quarantine(LEGACY_V4_KEYS.log, log, "v4 log is not valid JSON");
+        }
+        if (parsed !== undefined) {
+          const rows = Array.isArray(parsed)
+            ? parsed.map((row) => (isRecord(row) && row.sets === undefined ? { ...row, sets: 1 } : row))
+            : parsed;
+          store.setItem(STORAGE_KEYS.log, JSON.stringify(rows));
+        }
+      }
+
+      store.removeItem(LEGACY_V4_KEYS.profile);
+      store.removeItem(LEGACY_V4_KEYS.log);
+    },
+  },
+  {
+    from: 5,
+    description: "Give log rows an explicit kind; turn \"Name (sec)\" rows into duration rows",
+    migrate(store) {
+      const log = store.getItem(STORAGE_KEYS.log);
+      if (log === null) return;
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(log);
+      } catch {
+        // Left as is; readCollection quarantines it.
+        return;
+      }
+      if (!Array.isArray(parsed)) return;
+      const rows = parsed.map((row) =>
+        validateLogEntry(row).ok ? upgradeLogEntry(row as WorkoutEntry) : row
+      );
+      store.setItem(STORAGE_KEYS.log, JSON.stringify(rows));
+    },
+  },
+  {
+    from: 6,
+    description: "Number each date's log rows in stored order, which IndexedDB doesn't keep",
+    migrate(store) {
+      const log = store.getItem(STORAGE_KEYS.log);
+      if (log === null) return;
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(log);
+      } catch {
+        // Left as is; readCollection quarantines it.
+        return;
+      }
+      if (!Array.isArray(parsed)) return;
+      // Rows with null numbers are numbered too; they're repaired by the next step
+      const valid = parsed.filter((row) => validateLogEntry(repairLogEntry(row)).ok) as WorkoutEntry[];
+      const indexed = assignSetIndexes(valid);
+      const numbered = new Map(valid.map((row, i) => [row, indexed[i]]));
+      const rows = parsed.map((row) => numbered.get(row) ?? row);
+      store.setItem(STORAGE_KEYS.log, JSON.stringify(rows));
+    },
+  },
+  {
+    from: 7,
+    description: "Drop null weights and zero null reps in log rows instead of quarantining them",
+    migrate(store) {
+      const log = store.getItem(STORAGE_KEYS.log);
+      if (log === null) return;
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(log);
+      } catch {
+        // Left as is; readCollection quarantines it.
+        return;
+      }
+      if (!Array.isArray(parsed)) return;
+      // Repaired rows missed the step that gave rows a kind
+      const rows = parsed.map((row) => {
+        const repaired = repairLogEntry(row);
+        return repaired !== row && validateLogEntry(repaired).ok ? upgradeLogEntry(repaired as WorkoutEntry) : repaired;
+      });
+      store.setItem(STORAGE_KEYS.log, JSON.stringify(rows));
+    },
+  },
+];
+
+/**
+ * Work out which schema version an unversioned store was written with
+ */
+function detectVersion(store: KeyValueStore): number {
+  const stored = store.getItem(STORAGE_KEYS.schemaVersion);
+  if (stored !== null) {
+    const version = Number(stored);
+    if (Number.isInteger(version) && version > 0) return version;
+  }
+  if (store.getItem(LEGACY_V4_KEYS.profile) !== null || store.getItem(LEGACY_V4_KEYS.log) !== null) {
+    return 4;
+  }
+  // Either v5 data written before versioning existed, or a fresh install;
+  // later migrations are no-ops on an empty store.
+  return 5;
+}
+
+/**
+ * Run all pending migrations. Safe to call repeatedly; work happens once.
+ */
+export function runMigrations(): void {
+  if (migrated) return;
+  const store = getStore();
+  let version = detectVersion(store);
+
+  if (version > SCHEMA_VERSION) {
+    console.warn(`[storage] Stored schema v${version} is newer than this app (v${SCHEMA_VERSION})`);
+    migrated = true;
+    return;
+  }
+
+  for (const step of MIGRATIONS) {
+    if (step.from !== version) continue;
+    try {
+      step.migrate(store);
+      version = step.from + 1;
+      store.setItem(STORAGE_KEYS.schemaVersion, String(version));
+    } catch (error) {
+      // Stop here so the next step never runs on a half-migrated store.
+      console.error(`[storage] Migration from v${step.from} failed:`, error);
+      migrated = true;
+      return;
+    }
+  }
+
+  store.setItem(STORAGE_KEYS.schemaVersion, String(version));
+  migrated = true;
+}
+
+/* --------------------------------------------
+   Typed reads and writes
+---------------------------------------------*/
+
+/**
+ * Read an array-valued key. Unparseable keys and invalid rows are
+ * quarantined; valid rows are returned and the key is rewritten without
+ * the bad rows so they are only quarantined once.
+ */
+export function readCollection<T>(key: string, validate: Validator<T>): T[] {
+  runMigrations();
+  const store = getStore();
+  const stored = store.getItem(key);
+  if (stored === null) return [];
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(stored);
+  } catch (error) {
+    quarantine(key, stored, `not valid JSON: ${(error as Error).message}`);
+    store.removeItem(key);
+    return [];
+  }
+
+  if (!Array.isArray(parsed)) {
+    quarantine(key, stored, "expected an array");
+    store.removeItem(key);
+    return [];
+  }
+
+  const valid: T[] = [];
+  for (const item of parsed) {
+    const result = validate(item);
+    if (result.ok === false) {
+      quarantine(key, JSON.stringify(item), result.error);
+      continue;
+    }
+    valid.push(result.value);
+  }
+
+  if (valid.length !== parsed.length) {
+    store.setItem(key, JSON.stringify(valid));
+  }
+  return valid;
+}
+
+/**
+ * Validate and write an array-valued key. Throws without touching the
+ * stored value if any row is invalid.
+ */
+export function writeCollection<T>(key: string, items: T[], validate: Validator<T>): void {
+  if (!Array.isArray(items)) {
+    console.error(`[storage] writeCollection(${key}) called with non-array:`, items);
+    throw new Error(`${key} must be an array`);
+  }
+  for (const item of items) {
+    const result = validate(item);
+    if (result.ok === false) {
+      console.error(`[storage] Refusing to write invalid record to ${key}:`, result.error, item);
+      throw new Error(`Invalid record for ${key}: ${result.error}`);
+    }
+  }
+  writeRaw(key, JSON.stringify(items));
+}
+
+/**
+ * Read a single object-valued key, quarantining it if it is invalid
+ */
+export function readRecord<T>(key: string, validate: Validator<T>): T | null {
+  runMigrations();
+  const store = getStore();
+  const stored = store.getItem(key);
+  if (stored === null) return null;
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(stored);
+  } catch (error) {
+    quarantine(key, stored, `not valid JSON: ${(error as Error).message}`);
+    store.removeItem(key);
+    return null;
+  }
+
+  const result = validate(parsed);
+  if (result.ok === false) {
+    quarantine(key, stored, result.error);
+    store.removeItem(key);
+    return null;
+  }
+  return result.value;
+}
+
+/**
+ * Validate and write a single object-valued key
+ */
+export function writeRecord<T>(key: string, value: T, validate: Validator<T>): void {
+  const result = validate(value);
+  if (result.ok === false) {
+    console.error(`[storage] Refusing to write invalid record to ${key}:`, result.error, value);
+    throw new Error(`Invalid record for ${key}: ${result.error}`);
+  }
+  writeRaw(key, JSON.stringify(value));
+}
+
+function writeRaw(key: string, serialized: string): void {
+  try {
+    getStore().setItem(key, serialized);
+  } catch (error) {
+    console.error(`[storage] Failed to write ${key}:`, error);
+    if (error instanceof DOMException && error.code === 22) {
+      console.error("[storage] localStorage quota exceeded!");
+    }
+    throw error;
+  }
+}
+
+/* --------------------------------------------
+   Profile & workout log
+---------------------------------------------*/
+
+/**
+ * Load the user profile, or null if none is stored
+ */
+export function loadProfile(): ProfileShape | null {
+  return readRecord(STORAGE_KEYS.profile, validateProfile);
+}
+
+/**
+ * Save the user profile
+ */
+export function saveProfile(profile: ProfileShape): void {
+  writeRecord(STORAGE_KEYS.profile, profile, validateProfile);
+}
+
+/**
+ * Load the per-set workout log
+ */
+export function loadLog(): WorkoutEntry[] {
+  return readCollection(STORAGE_KEYS.log, validateLogEntry);
+}
+
+/**
+ * Save the per-set workout log
+ */
+export function saveLog(entries: WorkoutEntry[]): void {
+  writeCollection(STORAGE_KEYS.log, entries, validateLogEntry);
+}
+
+/**
+ * Load workout sessions
+ */
+export function loadSessions(): Session[] {
+  return readCollection(STORAGE_KEYS.sessions, validateSession);
+}
+
+/**
+ * Save workout sessions
+ */
+export function saveSessions(sessions: Session[]): void {
+  writeCollection(STORAGE_KEYS.sessions, sessions, validateSession);
+}
+
+/* --------------------------------------------
+   IndexedDB handover
+---------------------------------------------*/
+
+// Once the data has been copied into IndexedDB the keys here stop being
+// updated, so they must never be served again in its place.
+
+/**
+ * When the data was copied into IndexedDB, or null if it never was
+ */
+export function loadIndexedDbImport(): string | null {
+  return getStore().getItem(STORAGE_KEYS.indexedDbImport);
+}
+
+/**
+ * Record that the data now lives in IndexedDB. Never throws: a full
+ * localStorage must not keep the database from opening.
+ */
+export function markIndexedDbImport(importedAt: string): void {
+  try {
+    writeRaw(STORAGE_KEYS.indexedDbImport, importedAt);
+  } catch {
+    // Logged by writeRaw; retried on the next open
+  }
+}
+
+/* --------------------------------------------
+   Session draft
+---------------------------------------------*/
+
+// The draft stays in localStorage even when the rest of the data lives in
+// IndexedDB: it's written every second while a circuit runs, and a
+// synchronous write still lands when the page is killed mid-workout.
+
+/**
+ * Load the draft of the session that was running, or null
+ */
+export function loadSessionDraft(): SessionDraft | null {
+  return readRecord(STORAGE_KEYS.sessionDraft, validateSessionDraft);
+}
+
+/**
+ * Save the draft of the running session
+ */
+export function saveSessionDraft(draft: SessionDraft): void {
+  writeRecord(STORAGE_KEYS.sessionDraft, draft, validateSessionDraft);
+}
+
+/**
+ * Forget the session draft once the session is saved or abandoned
+ */
+export function clearSessionDraft(): void {
+  getStore().removeItem(STORAGE_KEYS.sessionDraft);
+}
@@ -0,0 +1,105 @@
+/**
+ * Exercise Groups
+ *
+ * Consecutive exercises of a workout that share a `group` id are done back
+ * to back: one set of each, then rest, for as many rounds as the group
+ * has sets. Two exercises make a superset, three a tri-set, more a giant
+ * set.
+ * - Groups are labelled A, B, C... in workout order and their exercises
+ *   A1, A2...; exercises outside a group have no label
+ * - A group id only joins consecutive exercises; the same id further down
+ *   the list starts a new group
+ * - A "group" of one is no group, and loses its id when normalized
+ */
+
+import { generateId } from "./workoutLibrary";
+
+export type GroupKind = "superset" | "tri-set" | "giant set";
+
+export const GROUP_KIND_LABELS: Record<GroupKind, string> = {
+  superset: "Superset",
+  "tri-set": "Tri-set",
+  "giant set": "Giant set",
+};
+
+interface Groupable {
+  group?: string;
+}
+
+/**
+ * What a group of `size` exercises is called
+ */
+export function groupKind(size: number): GroupKind {
+  return size <= 2 ? "superset" : size === 3 ? "tri-set" : "giant set";
+}
+
+/**
+ * Indexes of the items, in runs of consecutive items sharing a group id.
+ * Ungrouped items are runs of one.
+ */
+export function groupRuns(items: Groupable[]): number[][] {
+  const runs: number[][] = [];
+  items.forEach((item, index) => {
+    const last = runs[runs.length - 1];
+    if (item.group && last && items[last[0]].group === item.group) last.push(index);
+    else runs.push([index]);
+  });
+  return runs;
+}
+
+/**
+ * Label of each item, e.g. ["A1", "A2", undefined, "B1", "B2", "B3"]
+ */
+export function groupLabels(items: Groupable[]): (string | undefined)[] {
+  const labels: (string | undefined)[] = items.map(() => undefined);
+  let letter = 0;
+  for (const run of groupRuns(items)) {
+    if (run.length < 2) continue;
+    const prefix = String.fromCharCode(65 + (letter++ % 26));
+    run.forEach((index, i) => (labels[index] = `${prefix}${i + 1}`));
+  }
+  return labels;
+}
+
+/**
+ * The run an item belongs to
+ */
+export function runOf(items: Groupable[], index: number): number[] {
+  return groupRuns(items).find((run) => run.includes(index)) ?? [index];
+}
+
+/**
+ * Give every run its own id and drop the ids of runs of one
+ */
+export function normalizeGroups<T extends Groupable>(items: T[]): T[] {
+  const next = items.map((item) => ({ ...item }));
+  const seen = new Set<string>();
+  for (const run of groupRuns(items)) {
+    const id = items[run[0]].group;
+    if (!id) continue;
+    const fresh = run.length < 2 ? undefined : seen.has(id) ? generateId() : id;
+    seen.add(id);
+    for (const index of run) next[index].group = fresh;
+  }
+  return next;
+}
+
+/**
+ * Join an item with the one after it, merging their groups
+ */
+export function linkWithNext<T extends Groupable>(items: T[], index: number): T[] {
+  if (index < 0 || index >= items.length - 1) return items;
+  const id = items[index].group ?? items[index + 1].group ?? generateId();
+  const merged = new Set([...runOf(items, index), ...runOf(items, index + 1)]);
+  return normalizeGroups(items.map((item, i) => (merged.has(i) ? { ...item, group: id } : item)));
+}
+
+/**
+ * Split a group between an item and the one after it
+ */
+export function unlinkFromNext<T extends Groupable>(items: T[], index: number): T[] {
+  const run = runOf(items, index);
+  if (!run.includes(index + 1)) return items;
+  const id = generateId();
+  return normalizeGroups(items.map((item, i) => (run.includes(i) && i > index ? { ...item, group: id } : item)));
+}
@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import {
+  adjustTimer,
+  createManualClock,
+  createTimer,
+  isTimerRunning,
+  nextTimer,
+  pauseTimer,
+  startTimer,
+  timerRemainingMs,
+  timerSeconds,
+} from "./timer";
+
+describe("timer", () => {
+  it("counts down against the clock and shows whole seconds", () => {
+    const clock = createManualClock(1000);
+    const timer = startTimer(createTimer(3), clock.now());
+    expect(timerSeconds(timer, clock.now())).toBe(3);
+    clock.advance(1);
+    expect(timerSeconds(timer, clock.now())).toBe(3);
+    clock.advance(999);
+    expect(timerSeconds(timer, clock.now())).toBe(2);
+    clock.advance(5000);
+    expect(timerSeconds(timer, clock.now())).toBe(0);
+    expect(timerRemainingMs(timer, clock.now())).toBe(-3000);
+  });
+
+  it("stands still while paused and resumes where it left off", () => {
+    const clock = createManualClock();
+    let timer = startTimer(createTimer(10), clock.now());
+    clock.advance(4000);
+    timer = pauseTimer(timer, clock.now());
+    expect(isTimerRunning(timer)).toBe(false);
+
+    clock.advance(60_000);
+    expect(timerRemainingMs(timer, clock.now())).toBe(6000);
+
+    timer = startTimer(timer, clock.now());
+    clock.advance(2500);
+    expect(timerRemainingMs(timer, clock.now())).toBe(3500);
+    expect(timerSeconds(timer, clock.now())).toBe(4);
+  });
+
+  it("ignores starting a running timer and pausing a paused one", () => {
+    const clock = createManualClock();
+    const running = startTimer(createTimer(10), clock.now());
+    clock.advance(3000);
+    expect(startTimer(running, clock.now())).toBe(running);
+    const paused = pauseTimer(running, clock.now());
+    expect(pauseTimer(paused, clock.now())).toBe(paused);
+  });
+
+  it("adjusts from the time left now", () => {
+    const clock = createManualClock();
+    let timer = startTimer(createTimer(30), clock.now());
+    clock.advance(5000);
+    timer = adjustTimer(timer, 10, clock.now());
+    expect(timerRemainingMs(timer, clock.now())).toBe(35_000);
+    timer = adjustTimer(timer, -60, clock.now());
+    expect(timerRemainingMs(timer, clock.now())).toBe(0);
+  });
+
+  it("starts the next phase where an expired one ended", () => {
+    const clock = createManualClock();
+    const work = startTimer(createTimer(30), clock.now());
+    // Expiry noticed 1.5s late
+    clock.advance(31_500);
+    const rest = nextTimer(work, 10, clock.now());
+    expect(timerRemainingMs(rest, clock.now())).toBe(8500);
+  });
+
+  it("starts the next phase in full when the last one hadn't run out", () => {
+    const clock = createManualClock();
+    const work = startTimer(createTimer(30), clock.now());
+    clock.advance(12_000);
+    expect(timerRemainingMs(nextTimer(work, 10, clock.now()), clock.now())).toBe(10_000);
+    expect(isTimerRunning(nextTimer(work, 10, clock.now(), false))).toBe(false);
+  });
+
+  it("catches up on every phase that ended while the page was hidden", () => {
+    const clock = createManualClock();
+    const phases = [30, 10, 30, 10];
+    let timer = startTimer(createTimer(phases[0]), clock.now());
+    // Hidden for 55s: work and rest are over and the second work is 15s in
+    clock.advance(55_000);
+
+    let phase = 0;
+    while (timerRemainingMs(timer, clock.now()) <= 0) {
+      phase++;
+      timer = nextTimer(timer, phases[phase], clock.now());
+    }
+    expect(phase).toBe(2);
+    expect(timerRemainingMs(timer, clock.now())).toBe(15_000);
+    expect(timerSeconds(timer, clock.now())).toBe(15);
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * Timer Core
+ *
+ * Countdowns measured against a clock instead of counted in interval
+ * ticks, so they don't drift and they catch up after the tab was in the
+ * background (phones throttle or stop timers there).
+ * - A timer is plain data: the time left when it was last started or
+ *   paused, and when it was started; the time left now is worked out
+ *   from the clock
+ * - The clock is injected: the browser one reads performance.now(), and
+ *   a manual clock makes timer flows deterministic
+ * - A phase that follows an expired one starts when the last one ended,
+ *   not when the expiry was noticed, so missed time carries over
+ */
+
+export interface Clock {
+  /** Milliseconds from any fixed origin */
+  now(): number;
+}
+
+export const systemClock: Clock = {
+  now: () => (typeof performance !== "undefined" ? performance.now() : Date.now()),
+};
+
+export interface ManualClock extends Clock {
+  advance(ms: number): void;
+}
+
+/**
+ * A clock that only moves when told to
+ */
+export function createManualClock(start = 0): ManualClock {
+  let time = start;
+  return {
+    now: () => time,
+    advance: (ms) => {
+      time += ms;
+    },
+  };
+}
+
+export interface TimerState {
+  /** Time left when last started or paused */
+  remainingMs: number;
+  /** Clock time it was started or resumed at; null while paused */
+  startedAt: number | null;
+}
+
+export function createTimer(seconds: number, startedAt: number | null = null): TimerState {
+  return { remainingMs: Math.max(0, seconds) * 1000, startedAt };
+}
+
+export function isTimerRunning(timer: TimerState): boolean {
+  return timer.startedAt !== null;
+}
+
+/**
+ * Time left; negative once the timer has run out while running
+ */
+export function timerRemainingMs(timer: TimerState, now: number): number {
+  return timer.startedAt === null ? timer.remainingMs : timer.remainingMs - (now - timer.startedAt);
+}
+
+/**
+ * Whole seconds left as shown on a clock face: 0:03 until a full 3s is
+ * gone, never below 0
+ */
+export function timerSeconds(timer: TimerState, now: number): number {
+  return Math.max(0, Math.ceil(timerRemainingMs(timer, now) / 1000));
+}
+
+export function startTimer(timer: TimerState, now: number): TimerState {
+  return timer.startedAt === null ? { ...timer, startedAt: now } : timer;
+}
+
+export function pauseTimer(timer: TimerState, now: number): TimerState {
+  if (timer.startedAt === null) return timer;
+  return { remainingMs: Math.max(0, timerRemainingMs(timer, now)), startedAt: null };
+}
+
+/**
+ * Add or take away time, e.g. the +10s and -10s buttons
+ */
+export function adjustTimer(timer: TimerState, deltaSec: number, now: number): TimerState {
+  const remainingMs = Math.max(0, timerRemainingMs(timer, now) + deltaSec * 1000);
+  return { remainingMs, startedAt: timer.startedAt === null ? null : now };
+}
+
+/**
+ * The phase after `timer`, running if it was. When `timer` ran out, the
+ * new phase starts from its end so time missed while away carries over.
+ */
+export function nextTimer(timer: TimerState, seconds: number, now: number, run = isTimerRunning(timer)): TimerState {
+  if (!run) return createTimer(seconds);
+  const overdue = timer.startedAt === null ? 0 : Math.min(0, timerRemainingMs(timer, now));
+  return createTimer(seconds, now + overdue);
+}
@@ -0,0 +1,138 @@
+/**
+ * React binding for the timer core: re-renders while a timer runs and
+ * reports when it runs out, including after the tab comes back from the
+ * background.
+ */
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import {
+  adjustTimer,
+  createTimer,
+  isTimerRunning,
+  nextTimer,
+  pauseTimer,
+  startTimer,
+  systemClock,
+  timerRemainingMs,
+  timerSeconds,
+  type Clock,
+  type TimerState,
+} from "./timer";
+import { scheduleInBackground } from "./notifications";
+
+/** How often a running timer re-renders; short enough that seconds flip on time */
+const REFRESH_MS = 250;
+
+export interface TimerOptions {
+  clock?: Clock;
+  /**
+   * Called once each time the timer runs out, with how late that was
+   * noticed. More than a second late means the phase ended while the app
+   * was in the background.
+   */
+  onExpire?: (lateMs: number) => void;
+}
+
+export interface TimerControls {
+  /** Whole seconds left */
+  seconds: number;
+  running: boolean;
+  start(): void;
+  pause(): void;
+  /** Set the time left, running or not as before unless `run` says otherwise */
+  set(seconds: number, run?: boolean): void;
+  /** Start the next phase where the last one ended */
+  next(seconds: number, run?: boolean): void;
+  adjust(deltaSec: number): void;
+  /** Milliseconds left right now, e.g. to schedule something for the end */
+  remainingMs(): number;
+}
+
+export function useTimer(initialSeconds: number, { clock = systemClock, onExpire }: TimerOptions = {}): TimerControls {
+  const [timer, setTimer] = useState<TimerState>(() => createTimer(initialSeconds));
+  const [, setRefresh] = useState(0);
+  const onExpireRef = useRef(onExpire);
+  onExpireRef.current = onExpire;
+  // The state that already fired, so a re-render doesn't fire it again
+  const firedFor = useRef<TimerState | null>(null);
+  const timerRef = useRef(timer);
+  timerRef.current = timer;
+
+  const running = isTimerRunning(timer);
+  const now = clock.now();
+  const remainingMs = timerRemainingMs(timer, now);
+
+  useEffect(() => {
+    if (!running) return;
+    const refresh = () => setRefresh((n) => n + 1);
+    const id = setInterval(refresh, REFRESH_MS);
+    document.addEventListener("visibilitychange", refresh);
+    return () => {
+      clearInterval(id);
+      document.removeEventListener("visibilitychange", refresh);
+    };
+  }, [running]);
+
+  useEffect(() => {
+    if (!running || remainingMs > 0 || firedFor.current === timer) return;
+    firedFor.current = timer;
+    onExpireRef.current?.(-remainingMs);
+  });
+
+  const start = useCallback(() => setTimer((t) => startTimer(t, clock.now())), [clock]);
+  const pause = useCallback(() => setTimer((t) => pauseTimer(t, clock.now())), [clock]);
+  const set = useCallback(
+    (seconds: number, run?: boolean) =>
+      setTimer((t) => createTimer(seconds, (run ?? isTimerRunning(t)) ? clock.now() : null)),
+    [clock]
+  );
+  const next = useCallback(
+    (seconds: number, run?: boolean) => setTimer((t) => nextTimer(t, seconds, clock.now(), run)),
+    [clock]
+  );
+  const adjust = useCallback((deltaSec: number) => setTimer((t) => adjustTimer(t, deltaSec, clock.now())), [clock]);
+  const getRemainingMs = useCallback(() => Math.max(0, timerRemainingMs(timerRef.current, clock.now())), [clock]);
+
+  const seconds = timerSeconds(timer, now);
+  return useMemo(
+    () => ({ seconds, running, start, pause, set, next, adjust, remainingMs: getRemainingMs }),
+    [seconds, running, start, pause, set, next, adjust, getRemainingMs]
+  );
+}
+
+export interface BackgroundAlert {
+  title: string;
+  body?: string;
+  /** One alert per tag; a new one replaces the last */
+  tag: string;
+}
+
+/**
+ * Notify when a running timer ends while the app is hidden. The alert is
+ * scheduled for the end when the app goes to the background, since a hidden
+ * page may not run again until it's back in view, and cancelled when it
+ * returns. Off while `alert` is null.
+ */
+export function useBackgroundAlert({ running, remainingMs }: TimerControls, alert: BackgroundAlert | null): void {
+  const title = alert?.title;
+  const body = alert?.body;
+  const tag = alert?.tag;
+
+  useEffect(() => {
+    if (!running || title === undefined || tag === undefined) return;
+    let cancel: (() => void) | null = null;
+    const onVisibility = () => {
+      cancel?.();
+      cancel = null;
+      if (document.visibilityState !== "hidden") return;
+      cancel = scheduleInBackground(title, { body, tag }, remainingMs());
+    };
+    onVisibility();
+    document.addEventListener("visibilitychange", onVisibility);
+    return () => {
+      document.removeEventListener("visibilitychange", onVisibility);
+      // Running out while hidden leaves the alert to show
+      if (remainingMs() > 0) cancel?.();
+    };
+  }, [running, title, body, tag, remainingMs]);
+}
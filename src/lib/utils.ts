@@ -2,6 +2,8 @@ import { type ClassValue } from "clsx"
 import clsx from "clsx"
 import { twMerge } from "tailwind-merge"
 import type { WorkoutEntry } from "@/components/WorkoutLogTable";
+import { estimateOneRepMax, type PROptions } from "@/lib/pr";
+import { setMetrics, type VolumeMetric } from "@/lib/metrics";
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
@@ -9,43 +11,65 @@ export function cn(...inputs: ClassValue[]) {
 export function fromKg(kg: number, unit: "kg" | "lb"): number {
   return unit === "kg" ? kg : kg / 0.453592;
 }
+
+/**
+ * Save text as a file via a temporary download link
+ */
+export function downloadFile(filename: string, contents: string, type: string): void {
+  const blob = new Blob([contents], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
 export interface WeeklyPR {
   week: string; // formatted like "2025-W37"
-  volume: number;
-  weight: number;
+  volume?: number; // best set volume that week, measured as in lib/metrics
+  volumeMetric?: VolumeMetric;
+  weight?: number;
+  e1rm?: number; // best estimated 1RM that week (kg)
+  holdSec?: number; // longest hold that week
+  distanceM?: number; // longest distance set that week
 }
 
 export function aggregatePRsByWeek(
-  workouts: WorkoutEntry[]
+  workouts: WorkoutEntry[],
+  options: PROptions = {}
 ): Record<string, WeeklyPR[]> {
   const grouped: Record<string, Record<string, WeeklyPR>> = {};
 
   for (const workout of workouts) {
-    if (!workout.name || workout.reps === undefined || !workout.sets) continue;
+    if (!workout.name || workout.reps === undefined || !workout.sets || workout.warmup) continue;
 
     const week = getWeekLabel(workout.date);
     const exercise = workout.name;
-    const weight = workout.weightKg ?? 0;
-    const reps = workout.reps ?? 0;
-    const sets = workout.sets ?? 0;
-    const volume = weight * reps * sets;
+    const { setVolume, metric } = setMetrics(workout, options);
 
     if (!grouped[exercise]) grouped[exercise] = {};
-    if (!grouped[exercise][week]) {
-      grouped[exercise][week] = {
-        week,
-        volume,
-        weight,
-      };
-    } else {
-      grouped[exercise][week].volume = Math.max(
-        grouped[exercise][week].volume,
-        volume
-      );
-      grouped[exercise][week].weight = Math.max(
-        grouped[exercise][week].weight,
-        weight
-      );
+    if (!grouped[exercise][week]) grouped[exercise][week] = { week };
+    const row = grouped[exercise][week];
+
+    // Holds and distances are charted on their own lines, not as volume
+    if (metric === "time") {
+      row.holdSec = Math.max(row.holdSec ?? 0, setVolume);
+      continue;
+    }
+    if (metric === "distance") {
+      row.distanceM = Math.max(row.distanceM ?? 0, setVolume);
+      continue;
+    }
+
+    if (row.volume === undefined || setVolume > row.volume) {
+      row.volume = setVolume;
+      row.volumeMetric = metric;
+    }
+    row.weight = Math.max(row.weight ?? 0, workout.weightKg ?? 0);
+    const e1rm = estimateOneRepMax(workout.weightKg, workout.reps ?? 0, options.formula);
+    if (e1rm !== undefined) {
+      row.e1rm = Math.max(row.e1rm ?? 0, e1rm);
     }
   }
 
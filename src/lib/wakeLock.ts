@@ -0,0 +1,45 @@
+/**
+ * Screen Wake Lock
+ *
+ * Keeps the screen on while a session runs so the clock stays in view.
+ * - The browser drops the lock whenever the page is hidden; it's taken
+ *   again when the page comes back
+ * - Browsers without the Wake Lock API just let the screen dim
+ */
+
+import { useEffect } from "react";
+
+export function wakeLockSupported(): boolean {
+  return typeof navigator !== "undefined" && "wakeLock" in navigator;
+}
+
+/**
+ * Hold a screen wake lock for as long as `active` is true
+ */
+export function useWakeLock(active: boolean): void {
+  useEffect(() => {
+    if (!active || !wakeLockSupported()) return;
+    let sentinel: WakeLockSentinel | null = null;
+    let cancelled = false;
+
+    async function acquire() {
+      if (document.visibilityState !== "visible" || (sentinel && !sentinel.released)) return;
+      try {
+        const lock = await navigator.wakeLock.request("screen");
+        if (cancelled) void lock.release();
+        else sentinel = lock;
+      } catch (error) {
+        // Refused e.g. in battery saver; the session carries on regardless
+        console.warn("[wakeLock] Failed to keep the screen on:", error);
+      }
+    }
+
+    void acquire();
+    document.addEventListener("visibilitychange", acquire);
+    return () => {
+      cancelled = true;
+      document.removeEventListener("visibilitychange", acquire);
+      if (sentinel && !sentinel.released) void sentinel.release();
+    };
+  }, [active]);
+}
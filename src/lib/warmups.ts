@@ -0,0 +1,84 @@
+/**
+ * Warm-up Sets
+ *
+ * Builds a ramp of lighter sets to do before the working sets of heavy
+ * lifts. Ramps come from a template per exercise category: a list of
+ * percentages of the working load with reps for each, e.g. 40% × 8,
+ * 60% × 5, 80% × 3.
+ * - Only exercises marked for warm-ups in the library get a ramp, and only
+ *   when the working load is known
+ * - Loads round to what the exercise's equipment can load (see
+ *   lib/loading); steps that round onto the one before or up to the
+ *   working load are left out
+ * - Logged warm-ups are flagged on the entry and count toward no PRs,
+ *   volume or progression
+ */
+
+import type { ExerciseCategory } from "./workoutLibrary";
+
+export interface WarmupStep {
+  /** Share of the working load, 0-1 */
+  percent: number;
+  reps: number;
+}
+
+export type WarmupTemplates = Partial<Record<ExerciseCategory, WarmupStep[]>>;
+
+export const DEFAULT_WARMUP_TEMPLATES: WarmupTemplates = {
+  strength: [
+    { percent: 0.4, reps: 8 },
+    { percent: 0.6, reps: 5 },
+    { percent: 0.8, reps: 3 },
+  ],
+};
+
+/**
+ * The template for a category, with the user's templates taking precedence.
+ * An empty template turns warm-ups off for the category.
+ */
+export function warmupTemplateFor(category: ExerciseCategory, templates: WarmupTemplates = {}): WarmupStep[] {
+  return templates[category] ?? DEFAULT_WARMUP_TEMPLATES[category] ?? [];
+}
+
+/**
+ * Warm-up sets before a working load, in the display unit. `round` turns a
+ * weight into a loadable one.
+ */
+export function buildWarmupSets(
+  workingWeight: number,
+  template: WarmupStep[],
+  round: (weight: number) => number
+): { reps: number; weight: number }[] {
+  const sets: { reps: number; weight: number }[] = [];
+  for (const { percent, reps } of [...template].sort((a, b) => a.percent - b.percent)) {
+    const weight = round(workingWeight * percent);
+    if (weight >= workingWeight) continue;
+    if (sets.length > 0 && weight <= sets[sets.length - 1].weight) continue;
+    sets.push({ reps, weight });
+  }
+  return sets;
+}
+
+/**
+ * A template as text, e.g. "40x8, 60x5, 80x3"
+ */
+export function formatWarmupTemplate(template: WarmupStep[]): string {
+  return template.map((s) => `${Math.round(s.percent * 100)}x${s.reps}`).join(", ");
+}
+
+/**
+ * Read a template typed as "40x8, 60x5, 80x3"; null when it can't be read
+ */
+export function parseWarmupTemplate(text: string): WarmupStep[] | null {
+  const parts = text.split(",").map((p) => p.trim()).filter(Boolean);
+  const steps: WarmupStep[] = [];
+  for (const part of parts) {
+    const match = /^(\d+(?:\.\d+)?)\s*%?\s*[x×]\s*(\d+)$/i.exec(part);
+    if (!match) return null;
+    const percent = Number(match[1]) / 100;
+    const reps = Number(match[2]);
+    if (percent <= 0 || percent >= 1 || reps < 1) return null;
+    steps.push({ percent, reps });
+  }
+  return steps;
+}
@@ -9,7 +9,9 @@ import {
   populatePlanDays,
   populateWorkoutExercises,
 } from "./workoutLibrary";
-import { CircuitSpec } from "@/components/CircuitRunner";
+import { GROUP_KIND_LABELS, groupKind, groupLabels, runOf } from "./supersets";
+import { INTERVAL_DEFAULTS, describeIntervalSpec, isIntervalMode, type IntervalSpec } from "./intervals";
+import { CircuitSpec, type CircuitStation } from "@/components/CircuitRunner";
 
 /**
  * Old format used by App.tsx (for backwards compatibility)
@@ -41,12 +43,18 @@ export function planToLegacyFormat(
     }
 
     const populatedWorkout = populateWorkoutExercises(workout, exercises);
+    const labels = workout.mode === "circuit" || isIntervalMode(workout.mode) ? [] : groupLabels(populatedWorkout.exercises);
 
     // Convert exercises to string format
-    const exerciseStrings = populatedWorkout.exercises.map((we) => {
+    const exerciseStrings = populatedWorkout.exercises.map((we, index) => {
       const ex = we.exercise;
       if (!ex) return `${we.exerciseId} (missing)`;
 
+      if (isIntervalMode(workout.mode)) {
+        // Interval format: "Exercise Name: 10 reps"
+        return we.reps ? `${ex.name}: ${we.reps} reps` : ex.name;
+      }
+
       if (workout.mode === "circuit") {
         // Circuit format: "Exercise Name: 45s"
         if (we.circuitSeconds) {
@@ -59,9 +67,12 @@ export function planToLegacyFormat(
         return ex.name;
       }
 
-      // Sets/reps format: "Exercise Name: 4x6-8 (2-3 min rest)"
+      // Sets/reps format: "Exercise Name: 4x6-8 (2-3 min rest)"; grouped
+      // exercises are labelled "A1 Exercise Name: ..." and rest after the last
       const sets = we.sets ?? ex.defaultSets ?? 3;
-      let exerciseStr = `${ex.name}: ${sets}x`;
+      const label = labels[index];
+      const run = label ? runOf(populatedWorkout.exercises, index) : [index];
+      let exerciseStr = `${label ? `${label} ` : ""}${ex.name}: ${sets}x`;
 
       if (we.repRange) {
         exerciseStr += `${we.repRange[0]}-${we.repRange[1]}`;
@@ -75,7 +86,9 @@ export function planToLegacyFormat(
 
       // Add rest time
       const restSec = we.restSec ?? ex.defaultRestSec;
-      if (restSec !== undefined) {
+      if (index !== run[run.length - 1]) {
+        exerciseStr += ` (straight into ${labels[index + 1]})`;
+      } else if (restSec !== undefined) {
         if (restSec >= 120) {
           const min = Math.floor(restSec / 60);
           const minRange = restSec >= 150 ? "2-3" : `${min}`;
@@ -92,6 +105,11 @@ export function planToLegacyFormat(
         exerciseStr += ` — ${we.seconds ?? ex.defaultSeconds ?? 30}s hold`;
       }
 
+      // Name the group on its first exercise
+      if (label && index === run[0]) {
+        exerciseStr += ` [${GROUP_KIND_LABELS[groupKind(run.length)]} ${label[0]}]`;
+      }
+
       return exerciseStr;
     });
 
@@ -109,6 +127,16 @@ export function planToLegacyFormat(
       };
     }
 
+    // Add interval header, e.g. "Format: Tabata 8 × 20s/10s"
+    const intervalSpec = workoutToIntervalSpec(populatedWorkout, exercises);
+    if (intervalSpec) {
+      return {
+        day: day.day,
+        title: day.title,
+        exercises: [`Format: ${describeIntervalSpec(intervalSpec)}`, ...exerciseStrings],
+      };
+    }
+
     return {
       day: day.day,
       title: day.title,
@@ -128,12 +156,17 @@ export function workoutToCircuitSpec(
 
   const populated = populateWorkoutExercises(workout, exercises);
 
-  const stations = populated.exercises
-    .filter((we) => we.circuitSeconds || we.exercise?.isTimed)
-    .map((we) => ({
-      label: we.exercise?.name ?? we.exerciseId,
-      seconds: we.circuitSeconds ?? we.exercise?.defaultSeconds ?? 45,
-    }));
+  // Timed when given a duration, or a timed exercise without a rep target;
+  // everything else is a rep station
+  const stations = populated.exercises.map((we): CircuitStation => {
+    const label = we.exercise?.name ?? we.exerciseId;
+    const weightKg = we.circuitWeightKg;
+    const repRange = we.repRange ?? (we.reps ? ([we.reps, we.reps] as [number, number]) : undefined);
+    if (we.circuitSeconds || (!repRange && we.exercise?.isTimed)) {
+      return { label, seconds: we.circuitSeconds ?? we.exercise?.defaultSeconds ?? 45, weightKg };
+    }
+    return { label, repRange: repRange ?? we.exercise?.defaultRepRange, weightKg };
+  });
 
   return {
     mode: "circuit",
@@ -145,3 +178,29 @@ export function workoutToCircuitSpec(
   };
 }
 
+/**
+ * Convert library workout to IntervalSpec for IntervalRunner
+ */
+export function workoutToIntervalSpec(
+  workout: Workout,
+  exercises: Exercise[]
+): IntervalSpec | null {
+  if (!isIntervalMode(workout.mode)) return null;
+
+  const populated = populateWorkoutExercises(workout, exercises);
+  const defaults = INTERVAL_DEFAULTS[workout.mode];
+
+  return {
+    mode: workout.mode,
+    name: workout.name,
+    movements: populated.exercises.map((we) => ({
+      label: we.exercise?.name ?? we.exerciseId,
+      reps: we.reps,
+    })),
+    rounds: workout.rounds ?? defaults.rounds,
+    workSec: (workout.mode === "amrap" ? workout.timeCapSec : workout.intervalSec) ?? defaults.workSec,
+    restSec: workout.intervalRestSec ?? defaults.restSec,
+    stepSec: workout.ladderStepSec ?? defaults.stepSec,
+    pyramid: workout.ladderPyramid,
+  };
+}
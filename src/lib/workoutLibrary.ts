@@ -4,6 +4,17 @@
  * Defines types and utilities for managing exercises and workouts
  */
 
+import {
+  STORAGE_KEYS,
+  readCollection,
+  writeCollection,
+  validateExercise,
+  validatePlan,
+  validateWorkout,
+} from "./storage";
+import type { ProgressionScheme } from "./progression";
+import type { IntervalMode } from "./intervals";
+
 export type ExerciseCategory =
   | "strength"
   | "cardio"
@@ -26,7 +37,7 @@ export type MuscleGroup =
   | "hamstrings"
   | "quads";
 
-export type WorkoutMode = "sets-reps" | "timed" | "circuit";
+export type WorkoutMode = "sets-reps" | "timed" | "circuit" | IntervalMode;
 
 /**
  * Base exercise definition stored in library
@@ -43,6 +54,8 @@ export interface Exercise {
   defaultRestSec?: number;
   isTimed?: boolean; // true for exercises that are typically time-based
   defaultSeconds?: number; // for timed exercises
+  warmup?: boolean; // generate warm-up sets before the working sets
+  isUnilateral?: boolean; // done one side at a time, logged per side
 }
 
 /**
@@ -60,10 +73,15 @@ export interface WorkoutExercise {
   // For timed mode
   seconds?: number;
   rounds?: number; // for timed exercises that repeat
-  // For circuit mode
+  // For circuit mode; a station without circuitSeconds is done for reps
   circuitSeconds?: number;
+  circuitWeightKg?: number; // load carried at the station
   // Notes for this specific workout
   notes?: string;
+  // How targets progress; double progression when unset
+  progression?: ProgressionScheme;
+  // Shared with the exercises next to it to do them back to back (supersets)
+  group?: string;
 }
 
 /**
@@ -79,6 +97,12 @@ export interface Workout {
   rounds?: number;
   stationRestSec?: number;
   roundRestSec?: number;
+  // For EMOM, AMRAP, Tabata and ladder modes; rounds counts the intervals
+  intervalSec?: number; // EMOM interval, Tabata work or the first ladder rung
+  intervalRestSec?: number; // Tabata and ladder rest
+  timeCapSec?: number; // AMRAP
+  ladderStepSec?: number; // added to each ladder rung
+  ladderPyramid?: boolean; // the ladder comes back down
   // Metadata
   created?: string; // ISO date
   updated?: string; // ISO date
@@ -110,15 +134,6 @@ export interface WorkoutDay {
   workout?: Workout; // populated when loading
 }
 
-/**
- * Storage keys
- */
-export const STORAGE_KEYS = {
-  exercises: "wt_exercises_v1",
-  workouts: "wt_workouts_v1",
-  plans: "wt_plans_v1",
-} as const;
-
 /**
  * Generate a unique ID
  */
@@ -127,97 +142,45 @@ export function generateId(): string {
 }
 
 /**
- * Load exercises from localStorage
+ * Load exercises from storage
  */
 export function loadExercises(): Exercise[] {
-  try {
-    const stored = localStorage.getItem(STORAGE_KEYS.exercises);
-    return stored ? JSON.parse(stored) : [];
-  } catch (error) {
-    console.error("[workoutLibrary] Error loading exercises:", error);
-    return [];
-  }
+  return readCollection(STORAGE_KEYS.exercises, validateExercise);
 }
 
 /**
- * Save exercises to localStorage
+ * Save exercises to storage
  */
 export function saveExercises(exercises: Exercise[]): void {
-  try {
-    if (!Array.isArray(exercises)) {
-      console.error("[workoutLibrary] saveExercises called with non-array:", exercises);
-      throw new Error("exercises must be an array");
-    }
-    
-    const serialized = JSON.stringify(exercises);
-    localStorage.setItem(STORAGE_KEYS.exercises, serialized);
-  } catch (error) {
-    console.error("[workoutLibrary] Failed to save exercises to localStorage:", error);
-    if (error instanceof DOMException && error.code === 22) {
-      console.error("[workoutLibrary] localStorage quota exceeded!");
-    }
-    throw error;
-  }
+  writeCollection(STORAGE_KEYS.exercises, exercises, validateExercise);
 }
 
 /**
- * Load workouts from localStorage
+ * Load workouts from storage
  */
 export function loadWorkouts(): Workout[] {
-  try {
-    const stored = localStorage.getItem(STORAGE_KEYS.workouts);
-    return stored ? JSON.parse(stored) : [];
-  } catch (error) {
-    console.error("[workoutLibrary] Error loading workouts:", error);
-    return [];
-  }
+  return readCollection(STORAGE_KEYS.workouts, validateWorkout);
 }
 
 /**
- * Save workouts to localStorage
+ * Save workouts to storage
  */
 export function saveWorkouts(workouts: Workout[]): void {
-  try {
-    if (!Array.isArray(workouts)) {
-      console.error("[workoutLibrary] saveWorkouts called with non-array:", workouts);
-      throw new Error("workouts must be an array");
-    }
-    
-    const serialized = JSON.stringify(workouts);
-    localStorage.setItem(STORAGE_KEYS.workouts, serialized);
-  } catch (error) {
-    console.error("[workoutLibrary] Failed to save workouts to localStorage:", error);
-    if (error instanceof DOMException && error.code === 22) {
-      console.error("[workoutLibrary] localStorage quota exceeded!");
-    }
-    throw error;
-  }
+  writeCollection(STORAGE_KEYS.workouts, workouts, validateWorkout);
 }
 
 /**
- * Load workout plans from localStorage
+ * Load workout plans from storage
  */
 export function loadPlans(): WorkoutPlan[] {
-  try {
-    const stored = localStorage.getItem(STORAGE_KEYS.plans);
-    return stored ? JSON.parse(stored) : [];
-  } catch {
-    return [];
-  }
+  return readCollection(STORAGE_KEYS.plans, validatePlan);
 }
 
 /**
- * Save workout plans to localStorage
+ * Save workout plans to storage
  */
 export function savePlans(plans: WorkoutPlan[]): void {
-  try {
-    const serialized = JSON.stringify(plans);
-    localStorage.setItem(STORAGE_KEYS.plans, serialized);
-    console.log(`[workoutLibrary] Saved ${plans.length} plans to localStorage`);
-  } catch (error) {
-    console.error("[workoutLibrary] Failed to save plans to localStorage:", error);
-    throw error;
-  }
+  writeCollection(STORAGE_KEYS.plans, plans, validatePlan);
 }
 
 /**
@@ -0,0 +1,112 @@
+/**
+ * Service Worker
+ *
+ * Makes the app work with no signal: everything is stored on the device,
+ * so once the app itself is cached there is nothing left to fetch.
+ * - The build writes in the files to precache (`__PRECACHE__`), including
+ *   the lazily loaded `progress` and `library` chunks, so every tab opens
+ *   offline; a new build is a new worker
+ * - Offline-first: the app is served from the cache, the network only
+ *   fills in what isn't cached yet
+ * - A new version waits until the page asks it to take over, so a
+ *   session in progress isn't reloaded from under the user
+ * - Keeps time for alerts the page schedules when it's hidden, since a
+ *   hidden page is frozen on phones
+ */
+
+/* global __PRECACHE__ */
+const PRECACHE = __PRECACHE__;
+const CACHE_PREFIX = "dancers-split-";
+const CACHE = `${CACHE_PREFIX}${PRECACHE.version}`;
+const APP_SHELL = "index.html";
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(caches.open(CACHE).then((cache) => cache.addAll(PRECACHE.files)));
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(keys.filter((key) => key.startsWith(CACHE_PREFIX) && key !== CACHE).map((key) => caches.delete(key)))
+      )
+      .then(() => self.clients.claim())
+  );
+});
+
+// Alerts waiting to be shown, by tag
+const scheduled = new Map();
+
+function cancelScheduled(tag) {
+  const pending = scheduled.get(tag);
+  if (!pending) return;
+  scheduled.delete(tag);
+  clearTimeout(pending.timer);
+  pending.done();
+}
+
+function scheduleNotification({ title, options, delayMs }) {
+  cancelScheduled(options.tag);
+  // The worker is kept alive until this settles
+  return new Promise((done) => {
+    const timer = setTimeout(async () => {
+      scheduled.delete(options.tag);
+      try {
+        const windows = await self.clients.matchAll({ type: "window" });
+        // The page sounds its own cue when it's in view
+        if (!windows.some((client) => client.visibilityState === "visible")) {
+          await self.registration.showNotification(title, options);
+        }
+      } finally {
+        done();
+      }
+    }, Math.max(0, delayMs));
+    scheduled.set(options.tag, { timer, done });
+  });
+}
+
+self.addEventListener("message", (event) => {
+  const data = event.data || {};
+  if (data.type === "SKIP_WAITING") self.skipWaiting();
+  if (data.type === "SCHEDULE_NOTIFICATION") event.waitUntil(scheduleNotification(data));
+  if (data.type === "CANCEL_NOTIFICATION") cancelScheduled(data.tag);
+});
+
+self.addEventListener("fetch", (event) => {
+  const request = event.request;
+  if (request.method !== "GET" || new URL(request.url).origin !== self.location.origin) return;
+
+  // Every page is the single-page app
+  if (request.mode === "navigate") {
+    event.respondWith(
+      caches.match(APP_SHELL, { cacheName: CACHE }).then((cached) => cached || fetch(request))
+    );
+    return;
+  }
+
+  event.respondWith(
+    caches.match(request, { cacheName: CACHE }).then(
+      (cached) =>
+        cached ||
+        fetch(request).then((response) => {
+          if (response.ok) {
+            const copy = response.clone();
+            event.waitUntil(caches.open(CACHE).then((cache) => cache.put(request, copy)));
+          }
+          return response;
+        })
+    )
+  );
+});
+
+// Tapping a rest alert brings the app back
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close();
+  event.waitUntil(
+    self.clients.matchAll({ type: "window", includeUncontrolled: true }).then((clients) => {
+      const client = clients[0];
+      return client ? client.focus() : self.clients.openWindow(self.registration.scope);
+    })
+  );
+});
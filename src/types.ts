@@ -1,13 +1,25 @@
 export type WorkoutMode = "standard" | "timed" | "circuit";
 
+export type EntryKind = "reps" | "duration" | "distance" | "repsDuration";
+
 export interface WorkoutEntry {
   id: string;
   date: string;
   name: string;
-  sets: number;         // for timed we keep sets=1
-  reps: number;         // for timed we store seconds in reps
+  kind?: EntryKind;     // missing on rows saved before kinds existed: "reps"
+  sets: number;
+  reps: number;         // 0 for duration and distance rows
+  durationSec?: number; // seconds per set (duration, repsDuration)
+  distanceM?: number;   // meters per set (distance)
   weightKg?: number;
+  rpe?: number;         // effort of the set, 1-10
+  rir?: number;         // or reps left in reserve
+  warmup?: boolean;     // warm-up set: no PRs, volume or progression
+  side?: "left" | "right"; // one side of a unilateral exercise
   notes?: string;
+  sessionId?: string;   // the workout session the row was saved from
+  setIndex?: number;    // order logged within its date, from 1
+  updated?: string;     // ISO timestamp of the last edit
   isPRMaxWeight?: boolean;
   isPRVolume?: boolean;
 }
@@ -16,6 +28,9 @@ export interface SetEntry {
   weight: number | "";
   suggestedReps?: number;
   suggestedWeight?: number;
+  rpe?: number | "";
+  rir?: number | "";
+  side?: "left" | "right";
 }
 
 export interface SessionExercise {
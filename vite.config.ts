@@ -1,9 +1,48 @@
-import { defineConfig } from 'vite'
+import { defineConfig, type Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
+import { createHash } from 'crypto'
+import fs from 'fs'
 import path from 'path'
 
+/**
+ * Emits the service worker (src/sw.js) with every file of the build and of
+ * public/ listed for precaching, so the app opens offline. The list is
+ * hashed into the worker's version: a new build is a new worker.
+ */
+function serviceWorker(): Plugin {
+  const publicDir = path.resolve(__dirname, './public')
+  return {
+    name: 'service-worker',
+    apply: 'build',
+    enforce: 'post',
+    generateBundle: {
+      order: 'post',
+      handler(_, bundle) {
+        const hash = createHash('sha256')
+        const publicFiles = (fs.readdirSync(publicDir, { recursive: true }) as string[])
+          .map((file) => file.split(path.sep).join('/'))
+          .filter((file) => fs.statSync(path.join(publicDir, file)).isFile())
+        for (const file of publicFiles) hash.update(file).update(fs.readFileSync(path.join(publicDir, file)))
+        const bundled = Object.keys(bundle).filter((file) => !file.endsWith('.map'))
+        for (const file of bundled) hash.update(file)
+        const html = bundle['index.html']
+        if (html?.type === 'asset') hash.update(html.source)
+
+        const precache = {
+          version: hash.digest('hex').slice(0, 12),
+          files: [...bundled, ...publicFiles].sort(),
+        }
+        const source = fs
+          .readFileSync(path.resolve(__dirname, './src/sw.js'), 'utf8')
+          .replace('__PRECACHE__;', `${JSON.stringify(precache)};`)
+        this.emitFile({ type: 'asset', fileName: 'sw.js', source })
+      },
+    },
+  }
+}
+
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), serviceWorker()],
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),
@@ -17,6 +56,7 @@ export default defineConfig({
         manualChunks(id) {
           // Only split lazy-loaded components
           // Keep all node_modules in main bundle to ensure React is always available
+          // Both chunks are precached by the service worker so their tabs open offline
           if (id.includes('/Progress/ProgressTab')) {
             return 'progress';
           }